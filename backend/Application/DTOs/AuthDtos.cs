@@ -11,7 +11,8 @@ namespace TPFinal.Api.Application;
 /// </remarks>
 public record RegisterRequest(string Username, string FullName, string Password, bool IsAdmin = false); // DTO para el registro de usuarios
 public record LoginRequest(string Username, string Password); // DTO para el inicio de sesión
-public record LoginResponse(string Token); // DTO para la respuesta del inicio de sesión (token JWT)
+public record LoginResponse(string Token, string RefreshToken); // DTO para la respuesta del inicio de sesión (token JWT + refresh token)
+public record RefreshRequest(string RefreshToken); // DTO para renovar la sesión o cerrarla (revocar el refresh token)
 
 public record MeResponse(
     Guid Id,
@@ -0,0 +1,61 @@
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// DTOs de las páginas para explorar el catálogo (géneros y secciones).
+/// </summary>
+/// <remarks>
+/// Se arman sólo con el catálogo local: no consultan OMDb.
+/// </remarks>
+public record BrowseMovieDto(
+    string ImdbId,
+    string Title,
+    string Type,
+    string? Genre,
+    string? Poster,
+    decimal? ImdbRating,
+    int? Year,
+    decimal? CommunityAverage,
+    int RatingsCount,
+    int WatchlistCount
+); // DTO para una película de una sección, con el promedio de la comunidad y en cuántas listas está
+
+public record GenreSummaryDto(
+    string Name,
+    int Count,
+    IReadOnlyList<string> Posters
+); // DTO para un género del catálogo con su cantidad de películas y algunos pósters (mosaico)
+
+public record BrowseSectionDto(
+    string Key,
+    IReadOnlyList<BrowseMovieDto> Movies
+); // DTO para una sección de películas (key: ver BrowseSection)
+
+public record GenreBrowseDto(
+    string Name,
+    int Count,
+    IReadOnlyList<BrowseSectionDto> Sections
+); // DTO con las secciones de un género
+
+public record BecauseYouRatedDto(
+    string ImdbId,
+    string Title,
+    IReadOnlyList<BrowseMovieDto> Movies
+); // DTO con películas parecidas a una que el usuario calificó bien (mismos géneros o integrantes)
+
+public record HomeBrowseDto(
+    IReadOnlyList<BrowseSectionDto> Sections,
+    BecauseYouRatedDto? BecauseYouRated
+); // DTO con las secciones de la portada (BecauseYouRated sólo con sesión y alguna calificación alta)
+
+/// <summary>
+/// Secciones de las páginas para explorar el catálogo.
+/// </summary>
+public static class BrowseSection
+{
+    public const string TopRated = "topRated"; // Mejor promedio de la comunidad
+    public const string ImdbTop = "imdbTop"; // Mayor rating de IMDb
+    public const string Newest = "newest"; // Estrenos más recientes
+    public const string MostWatchlisted = "mostWatchlisted"; // En más listas de seguimiento
+    public const string RecentlyReviewed = "recentlyReviewed"; // Calificadas hace menos tiempo
+    public const string NewInCatalog = "newInCatalog"; // Agregadas al catálogo hace menos tiempo
+}
@@ -0,0 +1,18 @@
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// DTOs genéricos compartidos entre endpoints.
+/// </summary>
+/// <remarks>
+/// PagedResult envuelve una página de resultados junto con los datos necesarios para paginar en el cliente.
+/// </remarks>
+public record PagedResult<T>(
+    IReadOnlyList<T> Items,
+    int Page,
+    int PageSize,
+    int Total
+)
+{
+    public int TotalPages => PageSize > 0 ? (int)Math.Ceiling(Total / (double)PageSize) : 0; // Cantidad total de páginas
+    public bool HasMore => Page * PageSize < Total; // true si hay una página siguiente
+} // DTO para resultados paginados (Page empieza en 1)
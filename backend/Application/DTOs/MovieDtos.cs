@@ -19,8 +19,11 @@ public record MovieDetailDto(
     string? Director,
     string? Writer,
     string? Actors,
-    int? Year               
-); // DTO para la información detallada de una película 
+    int? Year,
+    IReadOnlyList<string> Directors,
+    IReadOnlyList<string> Writers,
+    IReadOnlyList<string> Cast
+); // DTO para la información detallada de una película (integrantes unidos por ", " y también como listas)
 
 public record MovieListItemDto(
     string ImdbId,
@@ -39,3 +42,75 @@ public record MovieSearchItemDto(
     string Type,     
     string? Poster
 ); // DTO para la utilización de filtros de búsqueda en la lista de películas
+
+public record MovieSearchQuery(
+    string? Title = null,
+    string? Genre = null,
+    string? Type = null,
+    int? YearFrom = null,
+    int? YearTo = null,
+    decimal? MinImdbRating = null,
+    int? RuntimeMin = null,
+    int? RuntimeMax = null,
+    string? Sort = null,
+    IReadOnlyList<string>? Genres = null,
+    string? GenreMatch = null,
+    IReadOnlyList<string>? ExcludeGenres = null,
+    string? Director = null,
+    string? Writer = null,
+    string? Actor = null
+); // DTO con los filtros y el orden de la búsqueda de películas (query string de /api/movies/search)
+
+public record MovieSuggestionDto(
+    string ImdbId,
+    string Title,
+    string Type,
+    string? Poster,
+    int? Year
+); // DTO para una película sugerida mientras se escribe en el buscador
+
+public record PersonSuggestionDto(
+    string Name,
+    IReadOnlyList<string> Roles,
+    int MovieCount
+); // DTO para una persona (director, guionista o actor) sugerida mientras se escribe en el buscador
+
+public record SuggestionsDto(
+    IReadOnlyList<MovieSuggestionDto> Movies,
+    IReadOnlyList<PersonSuggestionDto> People
+); // DTO con las sugerencias del buscador (películas y personas)
+
+public record GenreCountDto(
+    string Name,
+    int Count
+); // DTO para un género del catálogo con la cantidad de películas que lo tienen
+
+/// <summary>
+/// Modos de combinación de los géneros incluidos en la búsqueda.
+/// </summary>
+public static class GenreMatch
+{
+    public const string Any = "any"; // Alguno de los géneros (por defecto)
+    public const string All = "all"; // Todos los géneros
+
+    public static readonly string[] Values = { Any, All };
+}
+
+/// <summary>
+/// Órdenes admitidos por la búsqueda de películas.
+/// </summary>
+/// <remarks>
+/// El título ordena de forma ascendente; el resto de forma descendente (lo más nuevo / mejor calificado primero).
+/// La relevancia (por defecto) ordena por parecido con el título buscado; sin título, como Title.
+/// </remarks>
+public static class MovieSort
+{
+    public const string Relevance = "relevance"; // Parecido con el título buscado (por defecto)
+    public const string Title = "title"; // Título (A-Z)
+    public const string Year = "year"; // Año de estreno (más nuevas primero)
+    public const string ImdbRating = "imdbRating"; // Rating de IMDb (mayor primero)
+    public const string Average = "average"; // Promedio de la comunidad (mayor primero)
+    public const string MostRated = "mostRated"; // Cantidad de calificaciones (mayor primero)
+
+    public static readonly string[] All = { Relevance, Title, Year, ImdbRating, Average, MostRated };
+}
@@ -0,0 +1,32 @@
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// DTOs relacionados con personas (directores, guionistas y actores).
+/// </summary>
+/// <remarks>
+/// Una persona no es una entidad propia: se arma a partir de los TeamMember con el mismo nombre.
+/// </remarks>
+public record PersonCreditDto(
+    string ImdbId,
+    string Title,
+    string Type,
+    string? Poster,
+    int? Year,
+    string Role,
+    decimal? CommunityAverage,
+    int RatingsCount
+); // DTO para una participación de la persona en una película (role: director/writer/cast) con el promedio de la comunidad
+
+public record CollaboratorDto(
+    string Name,
+    IReadOnlyList<string> Roles,
+    int SharedMovies
+); // DTO para una persona que trabajó con otra (roles en las películas compartidas)
+
+public record PersonDto(
+    string Name,
+    IReadOnlyList<PersonCreditDto> Credits,
+    decimal? AverageRating,
+    int RatingsCount,
+    IReadOnlyList<CollaboratorDto> Collaborators
+); // DTO con la filmografía de una persona en el catálogo local, su promedio en la comunidad y sus colaboradores frecuentes
@@ -6,18 +6,58 @@ namespace TPFinal.Api.Application;
 /// <remarks>
 /// Estos DTOs se utilizan para transferir datos de calificaciones entre diferentes capas de la aplicación.
 /// </remarks>
-public record RateUpsertDto(string ImdbId, int Qualification, string? Comment); // DTO para crear o actualizar una calificación
+public record RateUpsertDto(string ImdbId, double Qualification, string? Comment, bool ContainsSpoilers = false); // DTO para crear o actualizar una calificación (Comment en markdown)
 public record RatingDto(
     Guid Id,
     string ImdbId,
     string Title,
-    int Qualification,
-    string? Comment,
+    string? Genre, // Géneros de la película (para filtrar mis calificaciones)
+    string? Poster,
+    double Qualification,
+    string? Comment, // Markdown: el cliente lo renderiza (sin HTML crudo)
+    bool ContainsSpoilers, // El autor marcó que cuenta detalles de la trama
     DateTime Date,
     string Username,
     string Fullname,
-    string? AvatarUrl
+    string? AvatarUrl,
+    int HelpfulCount, // Usuarios que la marcaron como útil
+    bool HelpfulByMe // true si el usuario que consulta la marcó como útil
 ); // DTO para la información detallada de una calificación
 
-public record MovieRatingSummaryDto(string ImdbId, string Title, int Count, decimal Average); // DTO para el resumen de calificaciones de una película
+public record RatingsQuery(
+    string? Sort = null, // Ver RatingSort (por defecto newest)
+    bool WithComment = false, // Sólo las que tienen comentario
+    int? Stars = null // Sólo las de esas estrellas, 1..5 (la media estrella cuenta en la de abajo)
+); // DTO con el orden y los filtros de las reseñas de una película
 
+public record HelpfulDto(Guid RatingId, int HelpfulCount, bool HelpfulByMe); // DTO con los votos de "útil" de una reseña
+
+public record RatingBucketDto(int Stars, int Count); // Cantidad de calificaciones con esas estrellas (la media estrella cuenta en la de abajo: 4.5 → 4)
+
+public record MovieRatingSummaryDto(
+    string ImdbId,
+    string Title,
+    int Count,
+    decimal Average,
+    IReadOnlyList<RatingBucketDto> Distribution, // De 1 a 5 estrellas (con ceros)
+    decimal? Median, // null si no hay calificaciones
+    decimal? WeightedScore // Promedio bayesiano (ver RatingService.PriorVotes); null si no hay calificaciones
+); // DTO para el resumen de calificaciones de una película
+
+
+/// <summary>
+/// Órdenes posibles de las reseñas de una película.
+/// </summary>
+/// <remarks>
+/// Se desempata por fecha (más nuevas primero) e Id para que el orden sea estable entre páginas.
+/// </remarks>
+public static class RatingSort
+{
+    public const string Newest = "newest"; // Más nuevas primero (por defecto)
+    public const string Oldest = "oldest"; // Más viejas primero
+    public const string Highest = "highest"; // Mayor calificación primero
+    public const string Lowest = "lowest"; // Menor calificación primero
+    public const string MostHelpful = "helpful"; // Más votos de "útil" primero
+
+    public static readonly string[] All = { Newest, Oldest, Highest, Lowest, MostHelpful };
+}
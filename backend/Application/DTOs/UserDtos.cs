@@ -13,4 +13,6 @@ namespace TPFinal.Api.Application;
 public record UserDetailDto(Guid Id, string Username, string Fullname, string Role, string? AvatarUrl); // DTO para la información detallada de un usuario
 public record UpsertUserDto(Guid? Id, string? Username, string Fullname, string? Password, string? Role); // DTO para crear o actualizar un usuario
 public record ChangePasswordDto(string Password); // DTO para cambiar la contraseña de un usuario
-public record UpdateAvatarDto(string? AvatarUrl); // DTO para actualizar el avatar de un usuario
\ No newline at end of file
+public record UpdateAvatarDto(string? AvatarUrl); // DTO para actualizar el avatar de un usuario
+public record UserSummaryDto(int WatchlistCount, int RatingsCount); // DTO para las métricas de actividad del usuario logueado
+public record UserExistsDto(bool Exists); // DTO para indicar si existe al menos un usuario registrado
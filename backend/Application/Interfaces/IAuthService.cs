@@ -6,11 +6,13 @@ namespace TPFinal.Api.Application;
 /// Interfaz para el servicio de autenticación.
 /// </summary>
 /// <remarks>
-/// Define los métodos para registrar, iniciar sesión y obtener usuarios por nombre de usuario.
+/// Define los métodos para registrar, iniciar sesión, renovar o cerrar la sesión y obtener usuarios por nombre de usuario.
 /// </remarks>
 public interface IAuthService
 {
     Task<User> RegisterAsync(RegisterRequest req); // Registra y devuelve el usuario creado
-    Task<string?> LoginAsync(LoginRequest req); // Intenta loguear y devuelve el token JWT o null si falla
+    Task<LoginResponse?> LoginAsync(LoginRequest req); // Intenta loguear y devuelve el token JWT + refresh token o null si falla
+    Task<LoginResponse?> RefreshAsync(string refreshToken); // Rota el refresh token y devuelve un nuevo par de tokens o null si es inválido/vencido
+    Task RevokeAsync(string refreshToken); // Revoca el refresh token (logout)
     Task<User?> GetByUsernameAsync(string username); // Devuelve el usuario por su nombre de usuario o null si no existe
 }
@@ -0,0 +1,14 @@
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// Interfaz para el servicio de exploración del catálogo.
+/// </summary>
+/// <remarks>
+/// Define los métodos para listar los géneros y armar las secciones de cada género y de la portada a partir del catálogo local.
+/// </remarks>
+public interface IBrowseService
+{
+    Task<IReadOnlyList<GenreSummaryDto>> GetGenresAsync(); // Devuelve los géneros con su cantidad de películas y pósters
+    Task<GenreBrowseDto?> GetGenreAsync(string genre); // Devuelve las secciones de un género o null si no hay películas
+    Task<HomeBrowseDto> GetHomeAsync(Guid? userId); // Devuelve las secciones de la portada (con recomendaciones si hay usuario)
+}
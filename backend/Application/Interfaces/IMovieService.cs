@@ -13,9 +13,13 @@ public interface IMovieService
 {
     Task<Movie?> GetByIdAsync(string imdbId); // Devuelve la película por su ID de IMDb o null si no existe
 
-    Task<IReadOnlyList<Movie>> EnsureAndSearchAsync(
+    Task<SuggestionsDto> SuggestAsync(string? q, int limit); // Devuelve las películas y personas sugeridas para el texto ingresado
+
+    Task<IReadOnlyList<GenreCountDto>> GetGenresAsync(); // Devuelve los géneros del catálogo con la cantidad de películas de cada uno
+
+    Task<PagedResult<Movie>> EnsureAndSearchAsync(
         string? imdbId = null,
-        string? title = null,
-        string? genre = null,
-        string? type = null); // Asegura que las películas existan en la BD y las devuelve según los criterios de filtrado
+        MovieSearchQuery? query = null,
+        int page = 1,
+        int pageSize = 20); // Asegura que las películas existan en la BD y devuelve la página pedida según los criterios de filtrado
 }
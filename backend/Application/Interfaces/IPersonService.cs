@@ -0,0 +1,12 @@
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// Interfaz para el servicio de consulta de personas.
+/// </summary>
+/// <remarks>
+/// Define los métodos para obtener la filmografía de directores, guionistas y actores del catálogo local.
+/// </remarks>
+public interface IPersonService
+{
+    Task<PersonDto?> GetByNameAsync(string name); // Devuelve la persona con sus películas o null si no figura en el catálogo
+}
@@ -12,7 +12,8 @@ public interface IRatingService
 {
     Task<RatingDto> UpsertAsync(Guid userId, RateUpsertDto dto);           // Crear o actualizar el rating de una película
     Task DeleteAsync(Guid userId, string imdbId);                              // Eliminar el rating de una película
-    Task<IReadOnlyList<RatingDto>> GetByMovieAsync(string imdbId);             // Obtener todos los ratings de una película
-    Task<MovieRatingSummaryDto?> GetMovieSummaryAsync(string imdbId);          // Obtener el resumen de ratings de una película (cantidad y promedio)
+    Task<PagedResult<RatingDto>> GetByMovieAsync(string imdbId, RatingsQuery query, int page, int pageSize, Guid? viewerId); // Obtener los ratings de una película (paginados, con orden y filtros)
+    Task<HelpfulDto> SetHelpfulAsync(Guid userId, Guid ratingId, bool helpful); // Marcar o desmarcar como útil la reseña de otro usuario
+    Task<MovieRatingSummaryDto?> GetMovieSummaryAsync(string imdbId);          // Obtener el resumen de ratings de una película (cantidad, promedio, distribución, mediana y puntaje ponderado)
     Task<IReadOnlyList<RatingDto>> GetMineAsync(Guid userId);                  // Obtener los ratings de un usuario
 }
@@ -2,6 +2,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.IdentityModel.Tokens;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
+using System.Security.Cryptography;
 using System.Text;
 using TPFinal.Api.Domain;
 using TPFinal.Api.Infrastructure;
@@ -12,8 +13,9 @@ namespace TPFinal.Api.Application;
 /// Implementación de servicio de autenticación de usuarios.
 /// </summary>
 /// <remarks>
-/// Proporciona métodos para registrar nuevos usuarios, iniciar sesión con credenciales y obtener usuarios
-/// por nombre de usuario. Utiliza JWT para generar tokens de autenticación y maneja el hashing seguro de contraseñas.
+/// Proporciona métodos para registrar nuevos usuarios, iniciar sesión con credenciales, renovar la sesión con
+/// refresh tokens y obtener usuarios por nombre de usuario. Utiliza JWT de corta duración para la autenticación,
+/// refresh tokens rotativos para renovarlos y maneja el hashing seguro de contraseñas.
 /// </remarks>
 public class AuthService : IAuthService
 {
@@ -75,13 +77,14 @@ public class AuthService : IAuthService
     }
 
     /// <summary>
-    /// Inicia sesión en el sistema y genera un token JWT.
+    /// Inicia sesión en el sistema y genera un token JWT y un refresh token.
     /// </summary>
     /// <remarks>
     /// Verifica las credenciales proporcionadas. Si el usuario y la contraseña son válidos,
-    /// genera un token JWT con los claims correspondientes. Retorna null si las credenciales son incorrectas.
+    /// genera un token JWT con los claims correspondientes y un refresh token para renovarlo.
+    /// Retorna null si las credenciales son incorrectas.
     /// </remarks>
-    public async Task<string?> LoginAsync(LoginRequest req)
+    public async Task<LoginResponse?> LoginAsync(LoginRequest req)
     {
         try
         {
@@ -92,7 +95,7 @@ public class AuthService : IAuthService
             if (!PasswordHasher.Verify(req.Password, user.PasswordHash, user.PasswordSalt))
                 return null; // Contraseña incorrecta
 
-            return GenerateJwt(user); // Generación y retorno del token JWT
+            return await IssueTokensAsync(user); // Generación y retorno de los tokens
         }
         catch (Exception ex)
         {
@@ -101,6 +104,79 @@ public class AuthService : IAuthService
         }
     }
 
+    /// <summary>
+    /// Renueva la sesión a partir de un refresh token.
+    /// </summary>
+    /// <remarks>
+    /// El refresh token se rota: el recibido queda revocado y se emite un par nuevo (JWT + refresh token).
+    /// Si se presenta un token ya revocado (posible robo), se revocan todos los refresh tokens del usuario.
+    /// Retorna null si el token no existe, está vencido o revocado.
+    /// </remarks>
+    public async Task<LoginResponse?> RefreshAsync(string refreshToken)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(refreshToken))
+                throw new ArgumentException("Refresh token requerido"); // Validación básica
+
+            var hash = HashToken(refreshToken);
+            var stored = await _db.RefreshTokens
+                .Include(t => t.User)
+                .FirstOrDefaultAsync(t => t.TokenHash == hash); // Búsqueda del token por su hash
+            if (stored is null || stored.User is null)
+                return null; // Token inexistente
+
+            if (stored.RevokedAt is not null)
+            {
+                var active = await _db.RefreshTokens
+                    .Where(t => t.UserId == stored.UserId && t.RevokedAt == null)
+                    .ToListAsync();
+                foreach (var t in active) t.RevokedAt = DateTime.UtcNow;
+                await _db.SaveChangesAsync();
+                return null;
+            } // Reutilización de un token rotado → se revoca toda la familia
+
+            if (stored.ExpiresAt <= DateTime.UtcNow)
+                return null; // Token vencido
+
+            stored.RevokedAt = DateTime.UtcNow; // Rotación: el token usado deja de ser válido
+            return await IssueTokensAsync(stored.User); // Emisión del nuevo par (guarda también la revocación)
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error al renovar la sesión"); // Log de error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
+        }
+    }
+
+    /// <summary>
+    /// Revoca un refresh token (cierre de sesión).
+    /// </summary>
+    /// <remarks>
+    /// Si el token no existe o ya estaba revocado no hace nada.
+    /// </remarks>
+    public async Task RevokeAsync(string refreshToken)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(refreshToken))
+                throw new ArgumentException("Refresh token requerido"); // Validación básica
+
+            var hash = HashToken(refreshToken);
+            var stored = await _db.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == hash);
+            if (stored is null || stored.RevokedAt is not null)
+                return; // Nada que revocar
+
+            stored.RevokedAt = DateTime.UtcNow;
+            await _db.SaveChangesAsync(); // Guardado de cambios
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error al revocar el refresh token"); // Log de error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
+        }
+    }
+
     /// <summary>
     /// Obtiene un usuario por su nombre de usuario.
     /// </summary>
@@ -126,7 +202,7 @@ public class AuthService : IAuthService
     /// <remarks>
     /// El token incluye claims con el identificador único del usuario (uid),
     /// el nombre de usuario y el rol asignado (administrator o user).
-    /// Expira después de 8 horas.
+    /// Expira después de <c>Jwt:AccessTokenMinutes</c> minutos (15 por defecto); se renueva con el refresh token.
     /// </remarks>
     private string GenerateJwt(User user)
     {
@@ -151,7 +227,7 @@ public class AuthService : IAuthService
                 issuer: issuer,
                 audience: audience,
                 claims: claims,
-                expires: DateTime.UtcNow.AddHours(8),
+                expires: DateTime.UtcNow.AddMinutes(ReadSetting("Jwt:AccessTokenMinutes", 15)),
                 signingCredentials: creds
             ); // Creación del token
 
@@ -163,4 +239,34 @@ public class AuthService : IAuthService
             throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
     }
+
+    /// <summary>
+    /// Emite un JWT y un refresh token nuevo para el usuario.
+    /// </summary>
+    /// <remarks>
+    /// El refresh token es un valor aleatorio de 64 bytes (base64url); en la base sólo se guarda su hash.
+    /// Vence a los <c>Jwt:RefreshTokenDays</c> días (7 por defecto).
+    /// </remarks>
+    private async Task<LoginResponse> IssueTokensAsync(User user)
+    {
+        var refreshToken = Base64UrlEncode(RandomNumberGenerator.GetBytes(64)); // Valor en claro (sólo lo recibe el cliente)
+        var expiresAt = DateTime.UtcNow.AddDays(ReadSetting("Jwt:RefreshTokenDays", 7));
+
+        _db.RefreshTokens.Add(new RefreshToken(user.Id, HashToken(refreshToken), expiresAt));
+        await _db.SaveChangesAsync(); // Guardado del refresh token
+
+        return new LoginResponse(GenerateJwt(user), refreshToken);
+    }
+
+    /* Hash SHA256 (hex) de un refresh token */
+    private static string HashToken(string token) =>
+        Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+
+    /* Base64 apto para URL y sin padding */
+    private static string Base64UrlEncode(byte[] bytes) =>
+        Convert.ToBase64String(bytes).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+    /* Lee un entero de la configuración, con valor por defecto si falta o es inválido */
+    private int ReadSetting(string key, int fallback) =>
+        int.TryParse(_cfg[key], out var value) && value > 0 ? value : fallback;
 }
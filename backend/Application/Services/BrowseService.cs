@@ -0,0 +1,285 @@
+using Microsoft.EntityFrameworkCore;
+using TPFinal.Api.Domain;
+using TPFinal.Api.Infrastructure;
+
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// Implementación de servicio para explorar el catálogo sin buscar.
+/// </summary>
+/// <remarks>
+/// Arma la lista de géneros (con pósters para el mosaico), las secciones de cada género
+/// (mejor promedio de la comunidad, mayor rating de IMDb, estrenos y más agregadas a listas)
+/// y las de la portada, sólo con las películas guardadas en la base local.
+/// </remarks>
+public class BrowseService : IBrowseService
+{
+    private readonly AppDbContext _db; // Contexto de la base de datos
+    private readonly ILogger<BrowseService> _logger; // Logger para registrar eventos e información
+
+    public BrowseService(AppDbContext db, ILogger<BrowseService> logger)
+    {
+        _db = db;
+        _logger = logger;
+    }
+
+    public const int SectionSize = 12; // Películas por sección
+    public const int MosaicSize = 4; // Pósters por género en el mosaico
+    public const int LikedQualification = 4; // Calificación mínima para recomendar parecidas
+
+    /// <summary>
+    /// Proyecta las películas de la consulta a DTOs, con el promedio de la comunidad y la cantidad de listas.
+    /// </summary>
+    /// <remarks>
+    /// Respeta el orden de la consulta. El promedio se calcula como REAL (SQLite no opera con decimal) y se redondea a 2 decimales.
+    /// </remarks>
+    private static async Task<IReadOnlyList<BrowseMovieDto>> ToDtosAsync(IQueryable<Movie> q)
+    {
+        var rows = await q
+            .Select(m => new
+            {
+                m.ImdbId,
+                m.Title,
+                m.Type,
+                m.Genre,
+                m.Poster,
+                m.RatingIMDB,
+                m.Released,
+                Average = m.Ratings!.Average(r => (double?)r.Qualification),
+                RatingsCount = m.Ratings!.Count,
+                WatchlistCount = m.WatchListItems!.Count
+            })
+            .ToListAsync(); // Datos de la película y agregados en una sola consulta
+
+        return rows.Select(r => new BrowseMovieDto(
+            r.ImdbId,
+            r.Title,
+            r.Type == MovieType.Movie ? "movie" : "series",
+            r.Genre,
+            r.Poster,
+            r.RatingIMDB,
+            r.Released?.Year,
+            r.Average is double avg ? Math.Round((decimal)avg, 2) : null,
+            r.RatingsCount,
+            r.WatchlistCount
+        )).ToList();
+    }
+
+    /// <summary>
+    /// Ejecuta una sección: desempata por título, toma las primeras películas y las proyecta a DTOs.
+    /// </summary>
+    private static async Task<BrowseSectionDto> SectionAsync(string key, IOrderedQueryable<Movie> ordered) =>
+        new(key, await ToDtosAsync(ordered.ThenBy(m => m.Title).Take(SectionSize)));
+
+    /* Secciones: cada una deja afuera las películas sin el dato (sin calificaciones, sin rating, sin fecha o en ninguna lista) */
+
+    private static IOrderedQueryable<Movie> TopRated(IQueryable<Movie> q) => q
+        .Where(m => m.Ratings!.Any())
+        .OrderByDescending(m => m.Ratings!.Average(r => (double?)r.Qualification))
+        .ThenByDescending(m => m.Ratings!.Count); // Mejor promedio (a igual promedio, más calificaciones)
+
+    private static IOrderedQueryable<Movie> ImdbTop(IQueryable<Movie> q) => q
+        .Where(m => m.RatingIMDB.HasValue)
+        .OrderByDescending(m => (double?)m.RatingIMDB); // SQLite no ordena decimal: se ordena como REAL
+
+    private static IOrderedQueryable<Movie> Newest(IQueryable<Movie> q) => q
+        .Where(m => m.Released.HasValue)
+        .OrderByDescending(m => m.Released); // Estrenos más recientes
+
+    private static IOrderedQueryable<Movie> MostWatchlisted(IQueryable<Movie> q) => q
+        .Where(m => m.WatchListItems!.Any())
+        .OrderByDescending(m => m.WatchListItems!.Count); // En más listas de seguimiento
+
+    private static IOrderedQueryable<Movie> RecentlyReviewed(IQueryable<Movie> q) => q
+        .Where(m => m.Ratings!.Any())
+        .OrderByDescending(m => m.Ratings!.Max(r => r.Date)); // Última calificación más reciente
+
+    private static IOrderedQueryable<Movie> NewInCatalog(IQueryable<Movie> q) => q
+        .OrderByDescending(m => m.AddedAt); // Agregadas al catálogo más recientemente
+
+    /// <summary>
+    /// Lista los géneros del catálogo con la cantidad de películas y los pósters de sus películas mejor rankeadas en IMDb.
+    /// </summary>
+    /// <remarks>
+    /// Los géneros se separan en memoria (Movie.Genre no está normalizado), como en MovieService.GetGenresAsync.
+    /// </remarks>
+    public async Task<IReadOnlyList<GenreSummaryDto>> GetGenresAsync()
+    {
+        try
+        {
+            var movies = await _db.Movies
+                .Where(m => m.Genre != null && m.Genre != "")
+                .Select(m => new { Genre = m.Genre!, m.Poster, m.RatingIMDB })
+                .ToListAsync(); // Sólo las columnas necesarias
+
+            return movies
+                .SelectMany(m => m.Genre
+                    .Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries)
+                    .Distinct()
+                    .Select(g => new { Name = g, m.Poster, m.RatingIMDB }))
+                .Where(x => x.Name != "N/A")
+                .GroupBy(x => x.Name, StringComparer.OrdinalIgnoreCase)
+                .Select(g => new GenreSummaryDto(
+                    g.First().Name,
+                    g.Count(),
+                    g.Where(x => !string.IsNullOrEmpty(x.Poster) && x.Poster != "N/A")
+                        .OrderByDescending(x => x.RatingIMDB)
+                        .Select(x => x.Poster!)
+                        .Take(MosaicSize)
+                        .ToList()
+                ))
+                .OrderByDescending(g => g.Count)
+                .ThenBy(g => g.Name)
+                .ToList(); // Géneros con su mosaico
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetGenresAsync"); // Log del error
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Obtiene las secciones de un género.
+    /// </summary>
+    /// <remarks>
+    /// El género se compara sin distinguir mayúsculas ni espacios y no coincide con otro que lo contenga.
+    /// Devuelve null si ninguna película del catálogo tiene ese género.
+    /// </remarks>
+    public async Task<GenreBrowseDto?> GetGenreAsync(string genre)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(genre))
+                throw new ArgumentException("El género es obligatorio."); // Validación del género
+
+            var token = MovieService.GenreTokens(new[] { genre }).Single();
+            var q = _db.Movies.Where(m => ("," + (m.Genre ?? "").Replace(" ", "").ToLower() + ",").Contains(token)); // Películas del género
+
+            var count = await q.CountAsync();
+            if (count == 0) return null; // Ningún título con ese género
+
+            var sample = await q.Select(m => m.Genre!).FirstAsync();
+            var name = sample
+                .Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries)
+                .FirstOrDefault(g => $",{g.Replace(" ", "").ToLower()}," == token) ?? genre.Trim(); // Nombre tal como figura en el catálogo
+
+            var sections = new List<BrowseSectionDto>
+            {
+                await SectionAsync(BrowseSection.TopRated, TopRated(q)),
+                await SectionAsync(BrowseSection.ImdbTop, ImdbTop(q)),
+                await SectionAsync(BrowseSection.Newest, Newest(q)),
+                await SectionAsync(BrowseSection.MostWatchlisted, MostWatchlisted(q)),
+            }; // Una consulta por sección (el DbContext no admite consultas en paralelo)
+
+            return new GenreBrowseDto(name, count, sections);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en GetGenreAsync(genre: {Genre})", genre); // Log del error
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetGenreAsync(genre: {Genre})", genre); // Log del error
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Obtiene las secciones de la portada (Home sin búsqueda).
+    /// </summary>
+    /// <remarks>
+    /// Secciones sobre todo el catálogo: mejor promedio de la comunidad, calificadas recientemente,
+    /// más agregadas a listas y agregadas recientemente al catálogo.
+    /// Con usuario, agrega recomendaciones a partir de su última calificación alta (ver BecauseYouRatedAsync).
+    /// </remarks>
+    public async Task<HomeBrowseDto> GetHomeAsync(Guid? userId)
+    {
+        try
+        {
+            var q = _db.Movies.AsQueryable();
+            var sections = new List<BrowseSectionDto>
+            {
+                await SectionAsync(BrowseSection.TopRated, TopRated(q)),
+                await SectionAsync(BrowseSection.RecentlyReviewed, RecentlyReviewed(q)),
+                await SectionAsync(BrowseSection.MostWatchlisted, MostWatchlisted(q)),
+                await SectionAsync(BrowseSection.NewInCatalog, NewInCatalog(q)),
+            }; // Una consulta por sección
+
+            var because = userId is Guid uid ? await BecauseYouRatedAsync(uid) : null; // Sólo con sesión
+            return new HomeBrowseDto(sections, because);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetHomeAsync(userId: {UserId})", userId); // Log del error
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Recomienda películas parecidas a la última que el usuario calificó con 4 o más.
+    /// </summary>
+    /// <remarks>
+    /// Candidatas: películas que comparten algún género o integrante y que el usuario todavía no calificó.
+    /// Puntaje: 1 por género en común y 2 por integrante en común; se desempata por rating de IMDb y título.
+    /// Devuelve null si no hay calificaciones altas o ninguna película parecida.
+    /// </remarks>
+    private async Task<BecauseYouRatedDto?> BecauseYouRatedAsync(Guid userId)
+    {
+        var seed = await _db.Ratings
+            .Where(r => r.UserId == userId && r.Qualification >= LikedQualification)
+            .OrderByDescending(r => r.Date)
+            .Select(r => new { r.MovieId, r.Movie!.Title, r.Movie.Genre })
+            .FirstOrDefaultAsync(); // Última película que le gustó
+        if (seed is null) return null;
+
+        var genres = (seed.Genre ?? "")
+            .Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries)
+            .Where(g => g != "N/A")
+            .ToList();
+        var tokens = MovieService.GenreTokens(genres);
+        var people = await _db.TeamMembers
+            .Where(t => t.MovieId == seed.MovieId)
+            .Select(t => t.Name)
+            .Distinct()
+            .ToListAsync(); // Integrantes de la película calificada
+
+        var candidates = await _db.Movies
+            .Where(m => m.ImdbId != seed.MovieId && !_db.Ratings.Any(r => r.UserId == userId && r.MovieId == m.ImdbId))
+            .Where(m => tokens.Any(token => ("," + (m.Genre ?? "").Replace(" ", "").ToLower() + ",").Contains(token))
+                || m.TeamMembers.Any(t => people.Contains(t.Name)))
+            .Select(m => new
+            {
+                m.ImdbId,
+                m.Title,
+                m.Genre,
+                SharedPeople = m.TeamMembers.Count(t => people.Contains(t.Name)),
+                Imdb = (double?)m.RatingIMDB
+            })
+            .ToListAsync(); // Parecidas que todavía no calificó
+
+        var ids = candidates
+            .Select(c => new
+            {
+                c.ImdbId,
+                c.Title,
+                c.Imdb,
+                Score = MovieService.GenreTokens((c.Genre ?? "").Split(',')).Count(tokens.Contains) + 2 * c.SharedPeople
+            })
+            .OrderByDescending(c => c.Score)
+            .ThenByDescending(c => c.Imdb)
+            .ThenBy(c => c.Title)
+            .Take(SectionSize)
+            .Select(c => c.ImdbId)
+            .ToList(); // Puntaje en memoria (Movie.Genre no está normalizado)
+        if (ids.Count == 0) return null;
+
+        var movies = await ToDtosAsync(_db.Movies.Where(m => ids.Contains(m.ImdbId)));
+        return new BecauseYouRatedDto(
+            seed.MovieId,
+            seed.Title,
+            movies.OrderBy(m => ids.IndexOf(m.ImdbId)).ToList()
+        );
+    }
+}
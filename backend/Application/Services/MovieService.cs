@@ -25,49 +25,410 @@ public class MovieService : IMovieService
         _logger = logger;
     }
 
+    public const int DefaultPageSize = 20; // Tamaño de página por defecto de la búsqueda
+    public const int MaxPageSize = 100; // Tamaño de página máximo permitido
+
     /// <summary>
-    /// Busca películas en la base de datos local según los filtros proporcionados.
+    /// Valida los filtros de rango y el orden de la búsqueda.
     /// </summary>
     /// <remarks>
-    /// Aplica filtros opcionales por título (contiene), género (contiene) y tipo (movie/series).
-    /// Devuelve una lista de películas que coinciden con los criterios, ordenadas por título.
+    /// Lanza ArgumentException con un mensaje legible si algún valor es inválido.
     /// </remarks>
-    private async Task<IReadOnlyList<Movie>> SearchWithFiltersAsync(string? title, string? genre, string? type)
+    private static void ValidateQuery(MovieSearchQuery query)
     {
-        try
+        if (query.YearFrom > query.YearTo)
+            throw new ArgumentException("El año desde no puede ser mayor que el año hasta."); // Rango de años invertido
+        if (query.MinImdbRating is < 0 or > 10)
+            throw new ArgumentException("El rating mínimo de IMDb debe estar entre 0 y 10."); // Rating fuera de escala
+        if (query.RuntimeMin < 0 || query.RuntimeMax < 0)
+            throw new ArgumentException("La duración no puede ser negativa."); // Duración negativa
+        if (query.RuntimeMin > query.RuntimeMax)
+            throw new ArgumentException("La duración mínima no puede ser mayor que la máxima."); // Rango de duración invertido
+        if (!string.IsNullOrWhiteSpace(query.GenreMatch) && !GenreMatch.Values.Contains(query.GenreMatch.Trim(), StringComparer.OrdinalIgnoreCase))
+            throw new ArgumentException($"Modo de géneros inválido. Valores posibles: {string.Join(", ", GenreMatch.Values)}."); // Modo desconocido
+        if (!string.IsNullOrWhiteSpace(query.Sort) && !MovieSort.All.Contains(query.Sort.Trim(), StringComparer.OrdinalIgnoreCase))
+            throw new ArgumentException($"Orden inválido. Valores posibles: {string.Join(", ", MovieSort.All)}."); // Orden desconocido
+    }
+
+    /// <summary>
+    /// Convierte nombres de género en marcas para buscar dentro de Movie.Genre.
+    /// </summary>
+    /// <remarks>
+    /// Movie.Genre guarda los géneros separados por comas ("Crime, Drama"). Sin espacios y entre comas
+    /// (",crime,drama,") se busca ",drama," y un género no coincide con otro que lo contenga.
+    /// </remarks>
+    internal static List<string> GenreTokens(IEnumerable<string>? genres) =>
+        (genres ?? Enumerable.Empty<string>())
+            .Select(g => g.Replace(" ", "").Trim().ToLower())
+            .Where(g => g.Length > 0)
+            .Distinct()
+            .Select(g => $",{g},")
+            .ToList();
+
+    /// <summary>
+    /// Arma la consulta de películas locales según los filtros proporcionados.
+    /// </summary>
+    /// <remarks>
+    /// Aplica filtros opcionales por género (contiene), tipo (movie/series),
+    /// varios géneros (alguno o todos, según GenreMatch), géneros excluidos,
+    /// integrantes del equipo (director, guionista o actor; contiene),
+    /// rango de años de estreno, rating mínimo de IMDb y rango de duración.
+    /// Las películas sin el dato (año, rating o duración) quedan afuera si se filtra por ese dato.
+    /// El título no se filtra acá: se compara aparte (ver MatchTitleAsync).
+    /// No ejecuta la consulta: se usa para contar y para paginar.
+    /// </remarks>
+    private IQueryable<Movie> FilteredQuery(MovieSearchQuery query)
+    {
+        var q = _db.Movies.AsQueryable(); // Consulta inicial de todas las películas
+
+        if (!string.IsNullOrWhiteSpace(query.Genre))
         {
-            var q = _db.Movies.AsQueryable(); // Consulta inicial de todas las películas
+            var g = query.Genre.Trim().ToLower();
+            q = q.Where(m => (m.Genre ?? "").ToLower().Contains(g));
+        } // Filtrado por género (Contains)
 
-            if (!string.IsNullOrWhiteSpace(title))
+        var included = GenreTokens(query.Genres);
+        if (included.Count > 0)
+        {
+            if (string.Equals(query.GenreMatch?.Trim(), GenreMatch.All, StringComparison.OrdinalIgnoreCase))
+            {
+                foreach (var token in included)
+                    q = q.Where(m => ("," + (m.Genre ?? "").Replace(" ", "").ToLower() + ",").Contains(token));
+            } // Todos los géneros: un filtro por género
+            else
             {
-                var like = $"%{title.Trim()}%";
-                q = q.Where(m => EF.Functions.Like(m.Title, like));
-            } // Filtrado por título (LIKE)
+                q = q.Where(m => included.Any(token => ("," + (m.Genre ?? "").Replace(" ", "").ToLower() + ",").Contains(token)));
+            } // Alguno de los géneros
+        } // Filtrado por varios géneros (coincidencia exacta de cada género)
+
+        foreach (var token in GenreTokens(query.ExcludeGenres))
+            q = q.Where(m => !("," + (m.Genre ?? "").Replace(" ", "").ToLower() + ",").Contains(token)); // Géneros excluidos
+
+        q = WithMember(q, MemberType.Director, query.Director); // Filtrado por director
+        q = WithMember(q, MemberType.Writer, query.Writer); // Filtrado por guionista
+        q = WithMember(q, MemberType.Cast, query.Actor); // Filtrado por actor
+
+        if (!string.IsNullOrWhiteSpace(query.Type))
+        {
+            var t = query.Type.Trim().ToLower();
+            q = q.Where(m =>
+                (m.Type == MovieType.Movie && (t == "movie")) ||
+                (m.Type == MovieType.Series && (t == "series"))
+            );
+        } // Filtrado por tipo (movie/series/pelicula/serie)
+
+        if (query.YearFrom is int yearFrom)
+            q = q.Where(m => m.Released.HasValue && m.Released.Value.Year >= yearFrom); // Estrenadas desde ese año
+        if (query.YearTo is int yearTo)
+            q = q.Where(m => m.Released.HasValue && m.Released.Value.Year <= yearTo); // Estrenadas hasta ese año
+
+        if (query.MinImdbRating is decimal minRating)
+        {
+            var min = (double)minRating;
+            q = q.Where(m => m.RatingIMDB.HasValue && (double)m.RatingIMDB.Value >= min);
+        } // Rating mínimo (SQLite no compara decimal: se compara como REAL)
+
+        if (query.RuntimeMin is int runtimeMin)
+            q = q.Where(m => m.Runtime.HasValue && m.Runtime.Value >= runtimeMin); // Duración mínima (minutos)
+        if (query.RuntimeMax is int runtimeMax)
+            q = q.Where(m => m.Runtime.HasValue && m.Runtime.Value <= runtimeMax); // Duración máxima (minutos)
+
+        return q;
+    }
+
+    /// <summary>
+    /// Filtra las películas que tienen un integrante del tipo indicado cuyo nombre contiene el texto.
+    /// </summary>
+    /// <remarks>
+    /// Sin texto devuelve la consulta sin cambios.
+    /// </remarks>
+    private static IQueryable<Movie> WithMember(IQueryable<Movie> q, MemberType type, string? name)
+    {
+        if (string.IsNullOrWhiteSpace(name)) return q;
+        var like = $"%{name.Trim()}%";
+        return q.Where(m => m.TeamMembers.Any(t => t.Type == type && EF.Functions.Like(t.Name, like)));
+    }
+
+    /// <summary>
+    /// Aplica el orden pedido a la consulta.
+    /// </summary>
+    /// <remarks>
+    /// Los valores nulos (sin año, sin rating, sin calificaciones) quedan al final.
+    /// Se desempata por título e ImdbId para que el orden sea estable entre páginas.
+    /// La relevancia sin texto de búsqueda ordena por título (con texto se ordena en MatchTitleAsync).
+    /// </remarks>
+    private static IQueryable<Movie> Sorted(IQueryable<Movie> q, string? sort)
+    {
+        IOrderedQueryable<Movie> ordered = (sort?.Trim().ToLowerInvariant()) switch
+        {
+            "year" => q.OrderByDescending(m => m.Released), // NULL queda último en orden descendente
+            "imdbrating" => q.OrderByDescending(m => (double?)m.RatingIMDB), // SQLite no ordena decimal: se ordena como REAL
+            "average" => q.OrderByDescending(m => m.Ratings!.Average(r => (double?)r.Qualification)),
+            "mostrated" => q.OrderByDescending(m => m.Ratings!.Count),
+            _ => q.OrderBy(m => m.Title),
+        };
+        return ordered.ThenBy(m => m.Title).ThenBy(m => m.ImdbId);
+    }
+
+    /// <summary>
+    /// Coincidencias por título de una consulta de películas (ver MatchTitleAsync).
+    /// </summary>
+    /// <param name="Containing">Las que contienen el texto tal cual (sin tildes); todas entran en el total.</param>
+    /// <param name="ContainingByRelevance">Las mismas, ordenadas como TextSearch.Score (igual, empieza, palabra, contiene).</param>
+    /// <param name="ContainingCount">Cantidad de Containing (consulta propia, sin tope).</param>
+    /// <param name="ApproximateIds">Aproximadas (no lo contienen pero se parecen), de la más parecida a la menos.</param>
+    private sealed record TitleMatches(
+        IQueryable<Movie> Containing,
+        IQueryable<Movie> ContainingByRelevance,
+        int ContainingCount,
+        List<string> ApproximateIds)
+    {
+        public int Total => ContainingCount + ApproximateIds.Count; // Total de coincidencias
+    }
+
+    /// <summary>
+    /// Compara el título de las películas de la consulta con el texto buscado, sin tildes y tolerando errores de tipeo.
+    /// </summary>
+    /// <remarks>
+    /// Las que contienen el texto se filtran, ordenan, cuentan y paginan en SQL sobre Movie.NormalizedTitle (sin tope).
+    /// Las aproximadas se preseleccionan en SQL por fragmentos (TextSearch.CandidateGrams), hasta TextSearch.MaxCandidates,
+    /// y se puntúan en memoria; siempre van después de las que lo contienen (su puntaje es menor que 1).
+    /// </remarks>
+    private static async Task<TitleMatches> MatchTitleAsync(IQueryable<Movie> q, string text)
+    {
+        var wordStart = " " + text;
+        var grams = TextSearch.CandidateGrams(text);
+
+        var containing = q.Where(m => m.NormalizedTitle.Contains(text));
+        var byRelevance = containing
+            .OrderByDescending(m => m.NormalizedTitle == text)
+            .ThenByDescending(m => m.NormalizedTitle.StartsWith(text))
+            .ThenByDescending(m => m.NormalizedTitle.Contains(wordStart))
+            .ThenBy(m => m.Title)
+            .ThenBy(m => m.ImdbId); // Mismo orden que los puntajes de 1 a 2 de TextSearch.Score
+        var count = await containing.CountAsync();
+
+        var candidates = await q
+            .Where(m => !m.NormalizedTitle.Contains(text) && grams.Any(g => m.NormalizedTitle.Contains(g)))
+            .OrderBy(m => m.Title)
+            .ThenBy(m => m.ImdbId)
+            .Select(m => new { m.ImdbId, m.Title, m.NormalizedTitle })
+            .Take(TextSearch.MaxCandidates)
+            .ToListAsync(); // Aproximadas: comparten algún fragmento
+        var approximate = candidates
+            .Select(r => (r.ImdbId, r.Title, Score: TextSearch.Score(text, r.NormalizedTitle)))
+            .Where(r => r.Score >= TextSearch.MinScore)
+            .OrderByDescending(r => r.Score)
+            .ThenBy(r => r.Title)
+            .ThenBy(r => r.ImdbId)
+            .Select(r => r.ImdbId)
+            .ToList();
+
+        return new TitleMatches(containing, byRelevance, count, approximate);
+    }
+
+    /// <summary>
+    /// ImdbIds de una página de coincidencias por título en orden de relevancia (primero las que contienen el texto).
+    /// </summary>
+    private static async Task<List<string>> RelevancePageAsync(TitleMatches matches, int skip, int take)
+    {
+        var ids = skip < matches.ContainingCount
+            ? await matches.ContainingByRelevance.Skip(skip).Take(take).Select(m => m.ImdbId).ToListAsync()
+            : new List<string>();
+        var approximateSkip = Math.Max(0, skip - matches.ContainingCount);
+        ids.AddRange(matches.ApproximateIds.Skip(approximateSkip).Take(take - ids.Count)); // Completa con aproximadas
+        return ids;
+    }
+
+    /// <summary>
+    /// Busca películas en la base de datos local según los filtros proporcionados, paginadas.
+    /// </summary>
+    /// <remarks>
+    /// Devuelve la página pedida en el orden indicado junto con el total de coincidencias.
+    /// Con título, las coincidencias salen de MatchTitleAsync; el orden "relevance" respeta su puntaje.
+    /// ExactTitleMatch indica si alguna película contiene el texto buscado (sin tildes); con sólo
+    /// coincidencias aproximadas conviene consultar OMDb igual.
+    /// </remarks>
+    private async Task<(PagedResult<Movie> Page, bool ExactTitleMatch)> SearchWithFiltersAsync(MovieSearchQuery query, int page, int pageSize)
+    {
+        try
+        {
+            var q = FilteredQuery(query);
+            var skip = (page - 1) * pageSize;
 
-            if (!string.IsNullOrWhiteSpace(genre))
+            if (string.IsNullOrWhiteSpace(query.Title))
             {
-                var g = genre.Trim().ToLower();
-                q = q.Where(m => (m.Genre ?? "").ToLower().Contains(g));
-            } // Filtrado por género (Contains)
+                var total = await q.CountAsync(); // Total de coincidencias (para la paginación)
+                var items = await Sorted(q, query.Sort)
+                    .Skip(skip)
+                    .Take(pageSize)
+                    .ToListAsync(); // Ejecución de la consulta paginada
+
+                return (new PagedResult<Movie>(items, page, pageSize, total), true);
+            }
+
+            var text = TextSearch.Normalize(query.Title);
+            if (text.Length == 0)
+                return (new PagedResult<Movie>(Array.Empty<Movie>(), page, pageSize, 0), false); // Sólo signos: nada que comparar
 
-            if (!string.IsNullOrWhiteSpace(type))
+            var matches = await MatchTitleAsync(q, text); // Coincidencias por título
+            var exact = matches.ContainingCount > 0;
+
+            List<Movie> pageItems;
+            if (string.IsNullOrWhiteSpace(query.Sort) || string.Equals(query.Sort.Trim(), MovieSort.Relevance, StringComparison.OrdinalIgnoreCase))
+            {
+                var pageIds = await RelevancePageAsync(matches, skip, pageSize);
+                var found = await _db.Movies.Where(m => pageIds.Contains(m.ImdbId)).ToListAsync();
+                pageItems = found.OrderBy(m => pageIds.IndexOf(m.ImdbId)).ToList(); // Orden de relevancia
+            } // Por relevancia
+            else
             {
-                var t = type.Trim().ToLower();
-                q = q.Where(m =>
-                    (m.Type == MovieType.Movie && (t == "movie")) ||
-                    (m.Type == MovieType.Series && (t == "series"))
-                );
-            } // Filtrado por tipo (movie/series/pelicula/serie)
-
-            return await q.OrderBy(m => m.Title).ToListAsync(); // Ejecución de la consulta y retorno de resultados ordenados por título
+                var approximateIds = matches.ApproximateIds;
+                pageItems = await Sorted(q.Where(m => m.NormalizedTitle.Contains(text) || approximateIds.Contains(m.ImdbId)), query.Sort)
+                    .Skip(skip)
+                    .Take(pageSize)
+                    .ToListAsync();
+            } // Otro orden sobre las coincidencias
+
+            return (new PagedResult<Movie>(pageItems, page, pageSize, matches.Total), exact);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error en SearchWithFiltersAsync(title: {Title}, genre: {Genre}, type: {Type})", title, genre, type); // Log del error
+            _logger.LogError(ex, "Error en SearchWithFiltersAsync(query: {@Query}, page: {Page}, pageSize: {PageSize})",
+                query, page, pageSize); // Log del error
             throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
     }
 
+    public const int MaxSuggestions = 20; // Máximo de sugerencias por grupo (películas / personas)
+
+    /// <summary>
+    /// Sugerencias para el buscador: películas y personas cuyo título / nombre se parece al texto.
+    /// </summary>
+    /// <remarks>
+    /// Sólo consulta el catálogo local (tiene que responder mientras se escribe; OMDb queda para la búsqueda).
+    /// La comparación no distingue tildes y tolera errores de tipeo (TextSearch); primero van las más parecidas
+    /// (las que empiezan con el texto antes que las que sólo lo contienen). Con menos de 2 caracteres no sugiere nada.
+    /// </remarks>
+    public async Task<SuggestionsDto> SuggestAsync(string? q, int limit)
+    {
+        try
+        {
+            if (limit < 1 || limit > MaxSuggestions)
+                throw new ArgumentException($"El límite debe estar entre 1 y {MaxSuggestions}.", nameof(limit)); // Validación del límite
+
+            var text = (q ?? "").Trim();
+            var normalized = TextSearch.Normalize(text);
+            if (text.Length < 2 || normalized.Length == 0)
+                return new SuggestionsDto(Array.Empty<MovieSuggestionDto>(), Array.Empty<PersonSuggestionDto>()); // Texto muy corto o sólo signos
+
+            var movieIds = await RelevancePageAsync(await MatchTitleAsync(_db.Movies, normalized), 0, limit); // Las más parecidas
+            var movieRows = await _db.Movies
+                .Where(m => movieIds.Contains(m.ImdbId))
+                .Select(m => new MovieSuggestionDto(
+                    m.ImdbId,
+                    m.Title,
+                    m.Type == MovieType.Movie ? "movie" : "series",
+                    m.Poster,
+                    m.Released.HasValue ? m.Released.Value.Year : (int?)null
+                ))
+                .ToListAsync();
+            var movies = movieRows.OrderBy(m => movieIds.IndexOf(m.ImdbId)).ToList(); // Orden del puntaje
+
+            var wordStart = " " + normalized;
+            var grams = TextSearch.CandidateGrams(normalized);
+            var candidates = await _db.TeamMembers
+                .Where(t => t.NormalizedName.Contains(normalized))
+                .Select(t => new { t.Name, t.NormalizedName })
+                .Distinct()
+                .OrderByDescending(t => t.NormalizedName == normalized)
+                .ThenByDescending(t => t.NormalizedName.StartsWith(normalized))
+                .ThenByDescending(t => t.NormalizedName.Contains(wordStart))
+                .ThenBy(t => t.Name)
+                .Take(TextSearch.MaxCandidates)
+                .ToListAsync(); // Nombres que contienen el texto (sin tildes), los más parecidos primero
+            if (candidates.Count < TextSearch.MaxCandidates)
+            {
+                candidates.AddRange(await _db.TeamMembers
+                    .Where(t => !t.NormalizedName.Contains(normalized) && grams.Any(g => t.NormalizedName.Contains(g)))
+                    .Select(t => new { t.Name, t.NormalizedName })
+                    .Distinct()
+                    .OrderBy(t => t.Name)
+                    .Take(TextSearch.MaxCandidates - candidates.Count)
+                    .ToListAsync()); // Aproximados: comparten algún fragmento
+            }
+            var names = candidates
+                .Select(n => (n.Name, Score: TextSearch.Score(normalized, n.NormalizedName)))
+                .Where(n => n.Score >= TextSearch.MinScore)
+                .GroupBy(n => n.Name)
+                .ToDictionary(g => g.Key, g => g.Max(n => n.Score)); // Nombres parecidos (sin tildes, tolerando errores)
+            var matchedNames = names.Keys.ToList();
+
+            var members = await _db.TeamMembers
+                .Where(t => matchedNames.Contains(t.Name))
+                .Select(t => new { t.Name, t.Type, t.MovieId })
+                .Take(500)
+                .ToListAsync(); // Participaciones de esas personas (tope para textos muy comunes)
+
+            var people = members
+                .GroupBy(t => t.Name, StringComparer.OrdinalIgnoreCase)
+                .Select(g => new PersonSuggestionDto(
+                    g.First().Name,
+                    g.Select(t => t.Type).Distinct().OrderBy(t => t).Select(PersonService.RoleName).ToList(),
+                    g.Select(t => t.MovieId).Distinct().Count()
+                ))
+                .OrderByDescending(p => names.GetValueOrDefault(p.Name))
+                .ThenByDescending(p => p.MovieCount)
+                .ThenBy(p => p.Name)
+                .Take(limit)
+                .ToList(); // Agrupadas por persona
+
+            return new SuggestionsDto(movies, people);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en SuggestAsync(q:{Q}, limit:{Limit})", q, limit); // Log del error
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en SuggestAsync(q:{Q}, limit:{Limit})", q, limit); // Log del error
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Lista los géneros presentes en el catálogo local con la cantidad de películas de cada uno.
+    /// </summary>
+    /// <remarks>
+    /// Los géneros se separan de Movie.Genre (lista separada por comas); "N/A" de OMDb se ignora.
+    /// Ordenados por cantidad (descendente) y nombre.
+    /// </remarks>
+    public async Task<IReadOnlyList<GenreCountDto>> GetGenresAsync()
+    {
+        try
+        {
+            var values = await _db.Movies
+                .Where(m => m.Genre != null && m.Genre != "")
+                .Select(m => m.Genre!)
+                .ToListAsync(); // Sólo la columna de géneros
+
+            return values
+                .SelectMany(v => v.Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries).Distinct())
+                .Where(g => g != "N/A")
+                .GroupBy(g => g, StringComparer.OrdinalIgnoreCase)
+                .Select(grp => new GenreCountDto(grp.First(), grp.Count()))
+                .OrderByDescending(g => g.Count)
+                .ThenBy(g => g.Name)
+                .ToList(); // Conteo en memoria (la columna no está normalizada)
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetGenresAsync"); // Log del error
+            throw;
+        }
+    }
+
     /// <summary>
     /// Obtiene una película por IMDB Id con relaciones (TeamMembers, Ratings).
     /// </summary>
@@ -98,16 +459,26 @@ public class MovieService : IMovieService
     /// </summary>
     /// <remarks>
     /// Si no existen, las obtiene desde OMDb y las guarda en la base de datos.
-    /// Devuelve la lista de películas que coinciden con los criterios.
+    /// Devuelve la página pedida de las películas que coinciden con los criterios.
+    /// OMDb sólo se consulta al pedir la primera página: las siguientes se sirven de la BD.
     /// </remarks>
-    public async Task<IReadOnlyList<Movie>> EnsureAndSearchAsync(
+    public async Task<PagedResult<Movie>> EnsureAndSearchAsync(
     string? imdbId = null,
-    string? title = null,
-    string? genre = null,
-    string? type = null)
+    MovieSearchQuery? query = null,
+    int page = 1,
+    int pageSize = DefaultPageSize)
     {
+        query ??= new MovieSearchQuery();
+        var title = query.Title;
+        var type = query.Type;
         try
         {
+            ValidateQuery(query); // Validación de rangos y orden
+            if (page < 1)
+                throw new ArgumentException("La página debe ser mayor o igual a 1.", nameof(page)); // Validación de la página
+            if (pageSize < 1 || pageSize > MaxPageSize)
+                throw new ArgumentException($"El tamaño de página debe estar entre 1 y {MaxPageSize}.", nameof(pageSize)); // Validación del tamaño
+
             // 1) Caso búsqueda por imdbId (único)
             if (!string.IsNullOrWhiteSpace(imdbId))
             {
@@ -116,7 +487,7 @@ public class MovieService : IMovieService
                     .FirstOrDefaultAsync(m => m.ImdbId == imdbId); // Búsqueda por IMDb ID con relaciones
 
                 if (found is not null)
-                    return new[] { found }; // Ya está en BD → retorno inmediato
+                    return new PagedResult<Movie>(new[] { found }, 1, pageSize, 1); // Ya está en BD → retorno inmediato
 
                 // No está en BD → asegurar desde OMDb
                 var detailed = await _omdb.FetchAsync(imdbId)
@@ -124,19 +495,27 @@ public class MovieService : IMovieService
                 _db.Movies.Add(detailed); // Agregar a la BD
                 await _db.SaveChangesAsync(); // Guardar cambios
 
-                return new[] { detailed }; // Retorno del detalle
+                return new PagedResult<Movie>(new[] { detailed }, 1, pageSize, 1); // Retorno del detalle
             }
 
             // 2) Caso búsqueda por filtros (varios)
             // Intentar buscar locales con los filtros
-            var local = await SearchWithFiltersAsync(title, genre, type);
-            if (local.Count > 0)
-                return local; // Si hubo locales, retorno inmediato
+            var (local, exactTitleMatch) = await SearchWithFiltersAsync(query, page, pageSize);
+            if ((local.Total > 0 && exactTitleMatch) || page > 1)
+                return local; // Si hubo locales (o se pide una página siguiente), retorno inmediato
 
-            // 3) Si no hubo locales, intentar buscar en OMDb (sólo si hay título)
+            // 3) Si no hubo locales (o sólo aproximadas por título), intentar buscar en OMDb (sólo si hay título)
             if (!string.IsNullOrWhiteSpace(title))
             {
-                var omdbItems = await _omdb.SearchAsync(title.Trim()); // Búsqueda en OMDb por título
+                IReadOnlyList<MovieSearchItemDto> omdbItems;
+                try
+                {
+                    omdbItems = await _omdb.SearchAsync(title.Trim()); // Búsqueda en OMDb por título
+                }
+                catch (HttpRequestException) when (local.Total > 0)
+                {
+                    return local; // OMDb no responde: quedan las coincidencias aproximadas locales
+                }
 
                 // filtrar por type (movie/series/pelicula/serie) si vino
                 if (!string.IsNullOrWhiteSpace(type))
@@ -161,16 +540,21 @@ public class MovieService : IMovieService
                 if (_db.ChangeTracker.HasChanges())
                     await _db.SaveChangesAsync(); // Guardar cambios si hubo adiciones
 
-                return await SearchWithFiltersAsync(title, genre, type); // Reintentar búsqueda local con los filtros (ya persistido)
+                return (await SearchWithFiltersAsync(query, page, pageSize)).Page; // Reintentar búsqueda local con los filtros (ya persistido)
             }
 
             // 4) No se proveyó imdbId ni title → retorno vacío
-            return Array.Empty<Movie>();
+            return new PagedResult<Movie>(Array.Empty<Movie>(), page, pageSize, 0);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en EnsureAndSearchAsync(query:{@Query}, page:{Page}, pageSize:{PageSize})", query, page, pageSize); // Log del error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error en EnsureAndSearchAsync(imdbId:{ImdbId}, title:{Title}, genre:{Genre}, type:{Type})",
-                imdbId, title, genre, type); // Log del error
+            _logger.LogError(ex, "Error en EnsureAndSearchAsync(imdbId:{ImdbId}, query:{@Query}, page:{Page}, pageSize:{PageSize})",
+                imdbId, query, page, pageSize); // Log del error
             throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
     }
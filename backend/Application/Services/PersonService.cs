@@ -0,0 +1,131 @@
+using Microsoft.EntityFrameworkCore;
+using TPFinal.Api.Domain;
+using TPFinal.Api.Infrastructure;
+
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// Implementación de servicio para la consulta de personas.
+/// </summary>
+/// <remarks>
+/// Las personas se identifican por nombre: se agrupan los TeamMember de todas las películas del catálogo local.
+/// </remarks>
+public class PersonService : IPersonService
+{
+    private readonly AppDbContext _db; // Contexto de la base de datos
+    private readonly ILogger<PersonService> _logger; // Logger para registrar eventos e información
+
+    public PersonService(AppDbContext db, ILogger<PersonService> logger)
+    {
+        _db = db;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Nombre del rol tal como lo serializa la API.
+    /// </summary>
+    public static string RoleName(MemberType type) => type switch
+    {
+        MemberType.Director => "director",
+        MemberType.Writer => "writer",
+        _ => "cast",
+    };
+
+    public const int MaxCollaborators = 10; // Colaboradores que se devuelven como máximo
+
+    /// <summary>
+    /// Obtiene la filmografía de una persona por su nombre.
+    /// </summary>
+    /// <remarks>
+    /// La comparación del nombre no distingue mayúsculas. Las películas se ordenan de la más nueva a la más vieja.
+    /// Incluye el promedio de la comunidad de cada película y el general (todas las calificaciones de sus películas),
+    /// y los colaboradores frecuentes: las personas con más películas en común.
+    /// Devuelve null si la persona no figura en ninguna película.
+    /// </remarks>
+    public async Task<PersonDto?> GetByNameAsync(string name)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(name))
+                throw new ArgumentException("El nombre es obligatorio."); // Validación del nombre
+
+            var normalized = name.Trim().ToLower();
+            var rows = await _db.TeamMembers
+                .Where(t => t.Name.ToLower() == normalized)
+                .Select(t => new
+                {
+                    t.Name,
+                    Role = t.Type,
+                    t.Movie!.ImdbId,
+                    t.Movie.Title,
+                    MovieType = t.Movie.Type,
+                    t.Movie.Poster,
+                    t.Movie.Released
+                })
+                .ToListAsync(); // Participaciones con los datos de la película
+
+            if (rows.Count == 0) return null; // No figura en el catálogo
+
+            var movieIds = rows.Select(r => r.ImdbId).Distinct().ToList();
+
+            var ratings = await _db.Ratings
+                .Where(r => movieIds.Contains(r.MovieId))
+                .GroupBy(r => r.MovieId)
+                .Select(g => new { MovieId = g.Key, Count = g.Count(), Sum = g.Sum(x => x.Qualification) })
+                .ToDictionaryAsync(x => x.MovieId); // Cantidad y suma de calificaciones por película
+
+            var credits = rows
+                .OrderByDescending(r => r.Released)
+                .ThenBy(r => r.Title)
+                .Select(r =>
+                {
+                    var agg = ratings.GetValueOrDefault(r.ImdbId);
+                    return new PersonCreditDto(
+                        r.ImdbId,
+                        r.Title,
+                        r.MovieType == MovieType.Movie ? "movie" : "series",
+                        r.Poster,
+                        r.Released?.Year,
+                        RoleName(r.Role),
+                        agg is null ? null : Math.Round((decimal)agg.Sum / agg.Count, 2),
+                        agg?.Count ?? 0
+                    );
+                })
+                .ToList();
+
+            var totalCount = ratings.Values.Sum(x => x.Count);
+            decimal? average = totalCount == 0
+                ? null
+                : Math.Round((decimal)ratings.Values.Sum(x => x.Sum) / totalCount, 2); // Promedio de todas las calificaciones de sus películas
+
+            var others = await _db.TeamMembers
+                .Where(t => movieIds.Contains(t.MovieId) && t.Name.ToLower() != normalized)
+                .Select(t => new { t.Name, t.Type, t.MovieId })
+                .ToListAsync(); // Integrantes de las mismas películas
+
+            var collaborators = others
+                .GroupBy(t => t.Name, StringComparer.OrdinalIgnoreCase)
+                .Select(g => new CollaboratorDto(
+                    g.First().Name,
+                    g.Select(t => t.Type).Distinct().OrderBy(t => t).Select(RoleName).ToList(),
+                    g.Select(t => t.MovieId).Distinct().Count()
+                ))
+                .OrderByDescending(c => c.SharedMovies)
+                .ThenBy(c => c.Name)
+                .Take(MaxCollaborators)
+                .ToList(); // Los que más películas comparten
+
+            return new PersonDto(rows[0].Name, credits, average, totalCount, collaborators);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en GetByNameAsync(name: {Name})", name); // Log del error
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetByNameAsync(name: {Name})", name); // Log del error
+            throw;
+        }
+    }
+}
@@ -15,18 +15,41 @@ public class RatingService : IRatingService
 {
     private readonly AppDbContext _db; // Contexto de la base de datos
     private readonly ILogger<RatingService> _logger; // Logger para registrar eventos e información
+
+    public const int PriorVotes = 5; // Votos "ficticios" con el promedio general que suma el puntaje ponderado
+    public const double DefaultMean = 3; // Promedio general si todavía no hay calificaciones en el catálogo
+    public const int DefaultPageSize = 10; // Reseñas por página por defecto
+    public const int MaxPageSize = 50; // Tamaño de página máximo permitido
+    public const int MaxCommentLength = 1024; // Largo máximo del comentario (markdown; igual que la columna)
     public RatingService(AppDbContext db, ILogger<RatingService> logger)
     {
         _db = db;
         _logger = logger;
     }
 
+    /// <summary>
+    /// Normaliza el comentario antes de guardarlo.
+    /// </summary>
+    /// <remarks>
+    /// Unifica los saltos de línea, quita los caracteres de control (salvo saltos y tabulaciones) y los espacios
+    /// de los extremos; un comentario vacío queda en null. El markdown se guarda tal cual: el cliente lo renderiza
+    /// sin HTML crudo y sólo admite enlaces http, https y mailto.
+    /// </remarks>
+    private static string? CleanComment(string? comment)
+    {
+        if (string.IsNullOrWhiteSpace(comment)) return null;
+        var text = comment.Replace("\r\n", "\n").Replace('\r', '\n'); // Saltos de línea Unix
+        text = new string(text.Where(c => c == '\n' || c == '\t' || !char.IsControl(c)).ToArray()).Trim(); // Sin caracteres de control
+        return text.Length == 0 ? null : text;
+    }
+
     /// <summary>
     /// Crea o actualiza la calificación de una película por un usuario.
     /// </summary>
     /// <remarks>
     /// Si la calificación ya existe, se actualiza; si no, se crea una nueva.
-    /// Valida que la calificación esté entre 1 y 5, y que la película exista en la base de datos.
+    /// Valida que la calificación esté entre 1 y 5 en pasos de media estrella (1, 1.5, ..., 5),
+    /// y que la película exista en la base de datos.
     /// </remarks>
     public async Task<RatingDto> UpsertAsync(Guid userId, RateUpsertDto dto)
     {
@@ -34,6 +57,12 @@ public class RatingService : IRatingService
         {
             if (dto.Qualification is < 1 or > 5)
                 throw new ArgumentOutOfRangeException(nameof(dto.Qualification), "La calificación debe estar entre 1 y 5."); // Validación de rango
+            if (dto.Qualification * 2 != Math.Round(dto.Qualification * 2))
+                throw new ArgumentOutOfRangeException(nameof(dto.Qualification), "La calificación va en pasos de media estrella (1, 1.5, ..., 5)."); // Validación de precisión
+
+            var comment = CleanComment(dto.Comment); // Comentario normalizado (null si quedó vacío)
+            if (comment?.Length > MaxCommentLength)
+                throw new ArgumentOutOfRangeException(nameof(dto.Comment), $"El comentario no puede superar los {MaxCommentLength} caracteres."); // Validación de largo
 
             var movie = await _db.Movies.FirstOrDefaultAsync(m => m.ImdbId == dto.ImdbId)
                         ?? throw new InvalidOperationException("La película no existe en BD. Creala primero desde /api/movies."); // Validación de existencia
@@ -41,13 +70,14 @@ public class RatingService : IRatingService
             var rating = await _db.Ratings.FirstOrDefaultAsync(r => r.UserId == userId && r.MovieId == dto.ImdbId); // Buscar calificación existente
             if (rating is null)
             {
-                rating = new Rating(dto.Qualification, dto.Comment, userId, dto.ImdbId); // Crear nueva calificación
+                rating = new Rating(dto.Qualification, comment, userId, dto.ImdbId) { ContainsSpoilers = dto.ContainsSpoilers }; // Crear nueva calificación
                 _db.Ratings.Add(rating); // Guardar en base de datos
             }
             else
             {
                 rating.Qualification = dto.Qualification; // Actualizar calificación existente
-                rating.Comment = dto.Comment; // Actualizar comentario
+                rating.Comment = comment; // Actualizar comentario
+                rating.ContainsSpoilers = dto.ContainsSpoilers; // Actualizar marca de spoilers
                 rating.Date = DateTime.UtcNow; // Actualizar fecha
                 _db.Ratings.Update(rating); // Marcar para actualización
             }
@@ -61,12 +91,17 @@ public class RatingService : IRatingService
                 rating.Id,
                 rating.Movie!.ImdbId,
                 rating.Movie.Title,
+                rating.Movie.Genre,
+                rating.Movie.Poster,
                 rating.Qualification,
                 rating.Comment,
+                rating.ContainsSpoilers,
                 rating.Date,
                 rating.User!.Username,
                 rating.User.Fullname,
-                rating.User.AvatarUrl
+                rating.User.AvatarUrl,
+                await _db.HelpfulVotes.CountAsync(v => v.RatingId == rating.Id), // Los votos se conservan al editarla
+                false // No se puede votar la propia
             ); // Retornar DTO de calificación
         }
         catch (ArgumentOutOfRangeException ex)
@@ -142,35 +177,131 @@ public class RatingService : IRatingService
     }
 
     /// <summary>
-    /// Obtiene todas las calificaciones asociadas a una película.
+    /// Obtiene las calificaciones (reseñas) de una película, paginadas.
     /// </summary>
     /// <remarks>
-    /// El resultado se ordena de forma descendente por fecha.
+    /// Se ordenan según RatingSort (por defecto las más nuevas primero) y se pueden filtrar por
+    /// las que tienen comentario y por estrellas (4 incluye 4 y 4.5).
+    /// Con viewerId, HelpfulByMe indica si ese usuario marcó cada reseña como útil.
     /// </remarks>
-    public async Task<IReadOnlyList<RatingDto>> GetByMovieAsync(string imdbId)
+    public async Task<PagedResult<RatingDto>> GetByMovieAsync(string imdbId, RatingsQuery query, int page, int pageSize, Guid? viewerId)
     {
         try
         {
-            return await _db.Ratings
-                .AsNoTracking()
-                .Where(r => r.Movie!.ImdbId == imdbId)
-                .OrderByDescending(r => r.Date)
+            if (!string.IsNullOrWhiteSpace(query.Sort) && !RatingSort.All.Contains(query.Sort.Trim(), StringComparer.OrdinalIgnoreCase))
+                throw new ArgumentException($"Orden inválido. Valores posibles: {string.Join(", ", RatingSort.All)}."); // Orden desconocido
+            if (query.Stars is < 1 or > 5)
+                throw new ArgumentException("Las estrellas deben estar entre 1 y 5.", nameof(query.Stars)); // Validación del filtro
+            if (page < 1)
+                throw new ArgumentException("La página debe ser mayor o igual a 1.", nameof(page)); // Validación de la página
+            if (pageSize < 1 || pageSize > MaxPageSize)
+                throw new ArgumentException($"El tamaño de página debe estar entre 1 y {MaxPageSize}.", nameof(pageSize)); // Validación del tamaño
+
+            var q = _db.Ratings.AsNoTracking().Where(r => r.MovieId == imdbId);
+            if (query.WithComment)
+                q = q.Where(r => r.Comment != null && r.Comment.Trim() != ""); // Sólo con comentario
+            if (query.Stars is int stars)
+                q = q.Where(r => r.Qualification >= stars && r.Qualification < stars + 1); // Sólo esas estrellas
+
+            var total = await q.CountAsync(); // Total de coincidencias (para la paginación)
+
+            IOrderedQueryable<Rating> ordered = (query.Sort?.Trim().ToLowerInvariant()) switch
+            {
+                RatingSort.Oldest => q.OrderBy(r => r.Date),
+                RatingSort.Highest => q.OrderByDescending(r => r.Qualification).ThenByDescending(r => r.Date),
+                RatingSort.Lowest => q.OrderBy(r => r.Qualification).ThenByDescending(r => r.Date),
+                RatingSort.MostHelpful => q.OrderByDescending(r => r.HelpfulVotes.Count).ThenByDescending(r => r.Date),
+                _ => q.OrderByDescending(r => r.Date), // RatingSort.Newest
+            };
+
+            var items = await ordered
+                .ThenBy(r => r.Id)
+                .Skip((page - 1) * pageSize)
+                .Take(pageSize)
                 .Select(r => new RatingDto(
                     r.Id,
                     r.Movie!.ImdbId,
                     r.Movie.Title,
+                    r.Movie.Genre,
+                    r.Movie.Poster,
                     r.Qualification,
                     r.Comment,
+                    r.ContainsSpoilers,
                     r.Date,
                     r.User!.Username,
                     r.User.Fullname,
-                    r.User.AvatarUrl
+                    r.User.AvatarUrl,
+                    r.HelpfulVotes.Count,
+                    viewerId != null && r.HelpfulVotes.Any(v => v.UserId == viewerId)
                 ))
-                .ToListAsync(); // Ejecutar y retornar lista de DTOs
+                .ToListAsync(); // Ejecución de la consulta paginada
+
+            return new PagedResult<RatingDto>(items, page, pageSize, total);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en GetByMovieAsync(imdb:{Imdb}, query:{@Query}, page:{Page}, pageSize:{PageSize})", imdbId, query, page, pageSize); // Log del error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error en GetByMovieAsync(imdb:{Imdb}, query:{@Query}, page:{Page}, pageSize:{PageSize})", imdbId, query, page, pageSize); // Log del error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
+        }
+    }
+
+    /// <summary>
+    /// Marca (o desmarca) como útil la reseña de otro usuario.
+    /// </summary>
+    /// <remarks>
+    /// Es idempotente: marcar dos veces deja un solo voto y desmarcar sin voto no hace nada.
+    /// También con pedidos simultáneos del mismo usuario (ej. doble click): si el guardado choca con el voto
+    /// que otro pedido acaba de insertar o borrar, y el voto quedó como se pidió, se devuelve el mismo resultado.
+    /// Si la reseña no existe se lanza InvalidOperationException; si es propia, ArgumentException.
+    /// </remarks>
+    public async Task<HelpfulDto> SetHelpfulAsync(Guid userId, Guid ratingId, bool helpful)
+    {
+        try
+        {
+            var rating = await _db.Ratings.FirstOrDefaultAsync(r => r.Id == ratingId)
+                         ?? throw new InvalidOperationException("La reseña no existe."); // Validación de existencia
+            if (rating.UserId == userId)
+                throw new ArgumentException("No podés marcar como útil tu propia reseña."); // Validación de autoría
+
+            var vote = await _db.HelpfulVotes.FirstOrDefaultAsync(v => v.RatingId == ratingId && v.UserId == userId); // Voto existente
+            if (helpful && vote is null)
+                _db.HelpfulVotes.Add(new HelpfulVote(ratingId, userId)); // Nuevo voto
+            else if (!helpful && vote is not null)
+                _db.HelpfulVotes.Remove(vote); // Quitar voto
+
+            try
+            {
+                await _db.SaveChangesAsync(); // Guardar cambios
+            }
+            catch (DbUpdateException ex)
+            {
+                _db.ChangeTracker.Clear(); // Descartar el cambio que falló
+                var voted = await _db.HelpfulVotes.AnyAsync(v => v.RatingId == ratingId && v.UserId == userId);
+                if (voted != helpful) throw; // No fue un pedido simultáneo igual: error real
+                _logger.LogWarning(ex, "Voto simultáneo en SetHelpfulAsync(userId:{UserId}, rating:{RatingId})", userId, ratingId); // Log del conflicto
+            }
+
+            var count = await _db.HelpfulVotes.CountAsync(v => v.RatingId == ratingId);
+            return new HelpfulDto(ratingId, count, helpful); // Retornar votos actualizados
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Validación fallida en SetHelpfulAsync(userId:{UserId}, rating:{RatingId})", userId, ratingId); // Log del error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Operación inválida en SetHelpfulAsync(userId:{UserId}, rating:{RatingId})", userId, ratingId); // Log del error
+            throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error en GetByMovieAsync(imdb:{Imdb})", imdbId); // Log del error
+            _logger.LogError(ex, "Error en SetHelpfulAsync(userId:{UserId}, rating:{RatingId})", userId, ratingId); // Log del error
             throw; // Re-lanzar la excepción para que el controlador pueda manejarla
         }
     }
@@ -179,7 +310,10 @@ public class RatingService : IRatingService
     /// Obtiene un resumen de las calificaciones de una película.
     /// </summary>
     /// <remarks>
-    /// Si la película existe pero no tiene calificaciones, se devuelve un resumen con valores en cero.
+    /// Incluye la cantidad por estrellas (la media estrella cuenta en la de abajo), la mediana y un puntaje ponderado
+    /// bayesiano: (PriorVotes × promedio general + suma) / (PriorVotes + cantidad), que acerca al promedio general
+    /// a las películas con pocos votos.
+    /// Si la película existe pero no tiene calificaciones, se devuelve un resumen con valores en cero (mediana y puntaje en null).
     /// </remarks>
     public async Task<MovieRatingSummaryDto?> GetMovieSummaryAsync(string imdbId)
     {
@@ -189,16 +323,34 @@ public class RatingService : IRatingService
             if (movie is null)
                 throw new ArgumentException("Película inexistente.");// No existe la película
 
-            var agg = await _db.Ratings
+            var values = await _db.Ratings
                 .Where(r => r.MovieId == imdbId)
-                .GroupBy(r => 1)
-                .Select(g => new { Count = g.Count(), Average = g.Average(x => x.Qualification) })
-                .FirstOrDefaultAsync();  // Agregación para contar y promediar
+                .Select(r => r.Qualification)
+                .ToListAsync(); // Calificaciones de la película (se agregan en memoria)
+
+            var distribution = Enumerable.Range(1, 5)
+                .Select(stars => new RatingBucketDto(stars, values.Count(v => (int)Math.Floor(v) == stars)))
+                .ToList(); // Cantidad por estrellas
+
+            if (values.Count == 0)
+                return new MovieRatingSummaryDto(imdbId, movie.Title, 0, 0, distribution, null, null); // No hay calificaciones
+
+            var sorted = values.OrderBy(v => v).ToList();
+            var middle = sorted.Count / 2;
+            var median = sorted.Count % 2 == 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2; // Mediana
 
-            if (agg is null)
-                return new MovieRatingSummaryDto(imdbId, movie.Title, 0, 0); // No hay calificaciones
+            var mean = await _db.Ratings.AverageAsync(r => (double?)r.Qualification) ?? DefaultMean; // Promedio general del catálogo
+            var weighted = (PriorVotes * mean + values.Sum()) / (PriorVotes + values.Count); // Promedio bayesiano
 
-            return new MovieRatingSummaryDto(imdbId, movie.Title, agg.Count, (decimal)agg.Average); // Retornar resumen con datos
+            return new MovieRatingSummaryDto(
+                imdbId,
+                movie.Title,
+                values.Count,
+                (decimal)values.Average(),
+                distribution,
+                (decimal)median,
+                Math.Round((decimal)weighted, 2)
+            ); // Retornar resumen con datos
         }
         catch (ArgumentException ex)
         {
@@ -230,12 +382,17 @@ public class RatingService : IRatingService
                     r.Id,
                     r.Movie!.ImdbId,
                     r.Movie.Title,
+                    r.Movie.Genre,
+                    r.Movie.Poster,
                     r.Qualification,
                     r.Comment,
+                    r.ContainsSpoilers,
                     r.Date,
                     r.User!.Username,     // es el mismo user
                     r.User.Fullname,
-                    r.User.AvatarUrl
+                    r.User.AvatarUrl,
+                    r.HelpfulVotes.Count,
+                    false
                 ))
                 .ToListAsync(); // Ejecutar y retornar lista de DTOs
         }
@@ -0,0 +1,97 @@
+using System.Globalization;
+using System.Text;
+
+namespace TPFinal.Api.Application;
+
+/// <summary>
+/// Comparación de textos tolerante a tildes y errores de tipeo (títulos y nombres).
+/// </summary>
+/// <remarks>
+/// Los textos se normalizan (minúsculas, sin tildes ni signos) y se comparan por trigramas:
+/// "amelie" encuentra "Amélie" y "interstelar" encuentra "Interstellar".
+/// SQLite no compara sin tildes: títulos y nombres se guardan también normalizados (Movie.NormalizedTitle,
+/// TeamMember.NormalizedName), se preseleccionan candidatos en SQL con CandidateGrams y se puntúan en memoria.
+/// </remarks>
+public static class TextSearch
+{
+    public const double MinScore = 0.5; // Puntaje mínimo para considerar que un texto coincide
+    public const int MaxCandidates = 500; // Tope de filas que se traen de la base para puntuar en memoria
+    private const int MaxGrams = 24; // Tope de fragmentos por búsqueda (textos muy largos)
+
+    /// <summary>
+    /// Normaliza un texto: minúsculas, sin tildes (é → e, ñ → n) y con los signos convertidos en espacios.
+    /// </summary>
+    public static string Normalize(string? text)
+    {
+        if (string.IsNullOrEmpty(text)) return "";
+        var sb = new StringBuilder(text.Length);
+        foreach (var c in text.Normalize(NormalizationForm.FormD))
+        {
+            if (CharUnicodeInfo.GetUnicodeCategory(c) == UnicodeCategory.NonSpacingMark) continue; // Tilde suelta
+            sb.Append(char.IsLetterOrDigit(c) ? char.ToLowerInvariant(c) : ' ');
+        }
+        return string.Join(' ', sb.ToString().Split(' ', StringSplitOptions.RemoveEmptyEntries)); // Espacios simples
+    }
+
+    /// <summary>
+    /// Trigramas de un texto normalizado, palabra por palabra ("  m", " ma", "mat", ..., "ix ").
+    /// </summary>
+    private static HashSet<string> Trigrams(string normalized)
+    {
+        var set = new HashSet<string>();
+        foreach (var word in normalized.Split(' ', StringSplitOptions.RemoveEmptyEntries))
+        {
+            var padded = $"  {word} ";
+            for (var i = 0; i + 3 <= padded.Length; i++)
+                set.Add(padded.Substring(i, 3));
+        }
+        return set;
+    }
+
+    /// <summary>
+    /// Puntaje de coincidencia entre la búsqueda y un texto (ambos normalizados).
+    /// </summary>
+    /// <remarks>
+    /// Si el texto contiene la búsqueda, el puntaje va de 1 a 2 (2 si es igual; más alto cuanto antes aparece).
+    /// Si no, es la proporción de trigramas de la búsqueda que aparecen en el texto (de 0 a menos de 1).
+    /// </remarks>
+    public static double Score(string query, string text)
+    {
+        if (query.Length == 0 || text.Length == 0) return 0;
+        if (text == query) return 2;
+        if (text.StartsWith(query)) return 1.75; // Empieza con la búsqueda
+        if (text.Contains($" {query}")) return 1.5; // Al principio de otra palabra
+        if (text.Contains(query)) return 1; // En cualquier parte
+
+        var wanted = Trigrams(query);
+        var found = Trigrams(text);
+        if (wanted.Count == 0) return 0;
+        return Math.Min(0.99, (double)wanted.Count(found.Contains) / wanted.Count); // Menor que 1: no la contiene tal cual
+    }
+
+    /// <summary>
+    /// Fragmentos de la búsqueda (normalizada) que un texto tiene que contener para poder alcanzar MinScore.
+    /// </summary>
+    /// <remarks>
+    /// Por cada palabra: sus trigramas internos y sus dos primeras y dos últimas letras (cubren los trigramas
+    /// con espacios de Trigrams); las palabras cortas van enteras. Sirven para filtrar en SQL con LIKE
+    /// antes de puntuar en memoria: un texto sin ninguno de estos fragmentos no comparte trigramas con la búsqueda.
+    /// </remarks>
+    public static IReadOnlyList<string> CandidateGrams(string normalized)
+    {
+        var grams = new List<string>();
+        foreach (var word in normalized.Split(' ', StringSplitOptions.RemoveEmptyEntries))
+        {
+            if (word.Length <= 2)
+            {
+                grams.Add(word);
+                continue;
+            }
+            grams.Add(word[..2]); // Principio de palabra
+            grams.Add(word[^2..]); // Final de palabra
+            for (var i = 0; i + 3 <= word.Length; i++)
+                grams.Add(word.Substring(i, 3));
+        }
+        return grams.Distinct().Take(MaxGrams).ToList();
+    }
+}
@@ -7,7 +7,7 @@ using TPFinal.Api.Domain;
 namespace TPFinal.Api.Controllers;
 
 /// <summary>
-/// Endpoints de autenticación: registro, login y datos del usuario autenticado.
+/// Endpoints de autenticación: registro, login, renovación/cierre de sesión y datos del usuario autenticado.
 /// </summary>
 
 [ApiController]
@@ -68,7 +68,7 @@ public class AuthController : ControllerBase
     /// Inicia sesión y devuelve un JWT.
     /// </summary>
     /// <param name="req">Credenciales.</param>
-    /// <returns>Token JWT en caso de éxito.</returns>
+    /// <returns>Token JWT y refresh token en caso de éxito.</returns>
     /// Post /api/auth/login
     [HttpPost("login")]
     [AllowAnonymous]
@@ -78,11 +78,72 @@ public class AuthController : ControllerBase
     {
         try
         {
-            var token = await _auth.LoginAsync(req); // Intento de login, devuelve el token o null si falla
-            if (token is null)
+            var tokens = await _auth.LoginAsync(req); // Intento de login, devuelve los tokens o null si falla
+            if (tokens is null)
                 return Unauthorized(new { error = "Usuario o contraseña inválidos" }); // Retorno 401 si falla
 
-            return Ok(new LoginResponse(token)); // Retorno del token en caso de éxito
+            return Ok(tokens); // Retorno de los tokens en caso de éxito
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si hay error en los parámetros
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 para otros errores
+        }
+    }
+
+    /// <summary>
+    /// Renueva la sesión con un refresh token.
+    /// </summary>
+    /// <remarks>
+    /// El refresh token recibido se revoca y se devuelve un par nuevo (rotación).
+    /// Devuelve 401 si el token es inválido, está vencido o fue revocado.
+    /// </remarks>
+    /// <param name="req">Refresh token vigente.</param>
+    /// <returns>Nuevo token JWT y refresh token.</returns>
+    /// Post /api/auth/refresh
+    [HttpPost("refresh")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(LoginResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<LoginResponse>> Refresh([FromBody] RefreshRequest req)
+    {
+        try
+        {
+            var tokens = await _auth.RefreshAsync(req.RefreshToken); // Rotación del refresh token
+            if (tokens is null)
+                return Unauthorized(new { error = "La sesión expiró" }); // Retorno 401 si el token no es válido
+
+            return Ok(tokens); // Retorno del nuevo par de tokens
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si hay error en los parámetros
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 para otros errores
+        }
+    }
+
+    /// <summary>
+    /// Cierra la sesión revocando el refresh token.
+    /// </summary>
+    /// <param name="req">Refresh token a revocar.</param>
+    /// Post /api/auth/logout
+    [HttpPost("logout")]
+    [AllowAnonymous]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> Logout([FromBody] RefreshRequest req)
+    {
+        try
+        {
+            await _auth.RevokeAsync(req.RefreshToken); // Revocación del refresh token
+            return NoContent();
         }
         catch (ArgumentException ex)
         {
@@ -0,0 +1,112 @@
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+using TPFinal.Api.Application;
+
+namespace TPFinal.Api.Controllers;
+
+/// <summary>
+/// Endpoints para explorar el catálogo local sin buscar (portada, géneros y secciones).
+/// </summary>
+[ApiController]
+[Route("api/browse")]
+public class BrowseController : ControllerBase
+{
+    private readonly IBrowseService _svc;
+    public BrowseController(IBrowseService svc) => _svc = svc;
+
+    /// <summary>
+    /// Extrae el UserId del token JWT, si la petición trae uno válido.
+    /// </summary>
+    /// <remarks>
+    /// Los endpoints de exploración son públicos: sin token (o con uno inválido) devuelve null.
+    /// </remarks>
+    private Guid? GetUserId()
+    {
+        var uid = User.FindFirstValue("uid");
+        return Guid.TryParse(uid, out var g) ? g : null;
+    }
+
+    /// <summary>
+    /// Obtiene las secciones de la portada (Home sin búsqueda).
+    /// </summary>
+    /// <remarks>
+    /// Secciones: topRated (promedio de la comunidad), recentlyReviewed (calificadas hace menos tiempo),
+    /// mostWatchlisted (en más listas de seguimiento) y newInCatalog (agregadas hace menos tiempo), con hasta 12 películas cada una.
+    /// Con sesión, becauseYouRated recomienda películas parecidas a la última que el usuario calificó con 4 o más
+    /// (null si no hay ninguna).
+    /// </remarks>
+    /// <returns>Secciones de la portada y recomendaciones del usuario.</returns>
+    // GET /api/browse/home
+    [HttpGet("home")]
+    [ProducesResponseType(typeof(HomeBrowseDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<HomeBrowseDto>> Home()
+    {
+        try
+        {
+            return Ok(await _svc.GetHomeAsync(GetUserId())); // Retorno de las secciones (con recomendaciones si hay sesión)
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+
+    /// <summary>
+    /// Lista los géneros del catálogo para explorarlos.
+    /// </summary>
+    /// <remarks>
+    /// Cada género trae la cantidad de películas y hasta 4 pósters (los mejor rankeados en IMDb) para el mosaico.
+    /// </remarks>
+    /// <returns>Géneros ordenados por cantidad de películas.</returns>
+    // GET /api/browse/genres
+    [HttpGet("genres")]
+    [ProducesResponseType(typeof(IReadOnlyList<GenreSummaryDto>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<IReadOnlyList<GenreSummaryDto>>> Genres()
+    {
+        try
+        {
+            return Ok(await _svc.GetGenresAsync()); // Retorno de los géneros con su mosaico
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+
+    /// <summary>
+    /// Obtiene las secciones de un género.
+    /// </summary>
+    /// <remarks>
+    /// Secciones: topRated (promedio de la comunidad), imdbTop (rating de IMDb), newest (estrenos) y
+    /// mostWatchlisted (en más listas de seguimiento), con hasta 12 películas cada una.
+    /// Si ninguna película tiene ese género, devuelve 404.
+    /// </remarks>
+    /// <param name="genre">Nombre del género (sin distinguir mayúsculas).</param>
+    /// <returns>Género con su cantidad de películas y sus secciones.</returns>
+    // GET /api/browse/genres/{genre}
+    [HttpGet("genres/{genre}")]
+    [ProducesResponseType(typeof(GenreBrowseDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<GenreBrowseDto>> Genre(string genre)
+    {
+        try
+        {
+            var result = await _svc.GetGenreAsync(genre); // Llamada al servicio para armar las secciones
+            if (result is null) return NotFound(new { error = "El género no figura en el catálogo." }); // Retorno 404 si no hay películas
+
+            return Ok(result); // Retorno del género con sus secciones
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si el género es inválido
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+}
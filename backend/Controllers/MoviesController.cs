@@ -36,17 +36,13 @@ public class MoviesController : ControllerBase
             if (m is null) return NotFound(); // Retorno 404 si no se encuentra la película
 
             // Mapeo a DTO para la respuesta
-            string? director = string.Join(", ",
-                m.TeamMembers.Where(t => t.Type == MemberType.Director).Select(t => t.Name));
-            if (string.IsNullOrWhiteSpace(director)) director = null;
+            var directors = m.TeamMembers.Where(t => t.Type == MemberType.Director).Select(t => t.Name).ToList();
+            var writers = m.TeamMembers.Where(t => t.Type == MemberType.Writer).Select(t => t.Name).ToList();
+            var cast = m.TeamMembers.Where(t => t.Type == MemberType.Cast).Select(t => t.Name).ToList();
 
-            string? writer = string.Join(", ",
-                m.TeamMembers.Where(t => t.Type == MemberType.Writer).Select(t => t.Name));
-            if (string.IsNullOrWhiteSpace(writer)) writer = null;
-
-            string? actors = string.Join(", ",
-                m.TeamMembers.Where(t => t.Type == MemberType.Cast).Select(t => t.Name));
-            if (string.IsNullOrWhiteSpace(actors)) actors = null;
+            string? director = directors.Count > 0 ? string.Join(", ", directors) : null;
+            string? writer = writers.Count > 0 ? string.Join(", ", writers) : null;
+            string? actors = cast.Count > 0 ? string.Join(", ", cast) : null;
 
             return Ok(new MovieDetailDto(
                 m.ImdbId,
@@ -61,7 +57,10 @@ public class MoviesController : ControllerBase
                 director,
                 writer,
                 actors,
-                m.Released?.Year
+                m.Released?.Year,
+                directors,
+                writers,
+                cast
             )); // Retorno de la respuesta con el DTO
         }
         catch (ArgumentException ex)
@@ -82,31 +81,67 @@ public class MoviesController : ControllerBase
     /// Obtiene una lista de películas según los criterios de búsqueda.
     /// </summary>
     /// <remarks>
-    /// Soporta búsqueda por ID de IMDb, título (contiene), género y tipo (movie o series).
+    /// Soporta búsqueda por ID de IMDb, título (contiene), género y tipo (movie o series),
+    /// rango de años, rating mínimo de IMDb y rango de duración.
+    /// Varios géneros se combinan con "any" (alguno) o "all" (todos); los excluidos descartan la película.
+    /// También filtra por integrantes del equipo: director, guionista o actor (el nombre contiene el texto).
+    /// El orden puede ser por relevancia (parecido con el título buscado), título, año, rating de IMDb,
+    /// promedio de la comunidad o cantidad de calificaciones.
     /// Si no existen localmente, las obtiene desde OMDb y las guarda en la base de datos.
+    /// El resultado se pagina: incluye el total de coincidencias y si hay más páginas.
     /// </remarks>
     /// <param name="imdbId">ID de IMDb de la película (opcional).</param>
     /// <param name="title">Título o parte del título de la película (opcional, contiene).</param>
     /// <param name="genre">Género de la película (opcional, contiene).</param>
     /// <param name="type">Tipo de contenido: "movie" o "series" (opcional).</param>
-    /// <returns>Lista de películas que coinciden con los criterios de búsqueda.</returns>
-    /// GET /api/movies/search?imdbId={title}={genre}=type={type}
+    /// <param name="genres">Géneros separados por comas, ej. "Drama,Crime" (opcional, coincidencia exacta).</param>
+    /// <param name="genreMatch">Combinación de los géneros: "any" (por defecto) o "all" (opcional).</param>
+    /// <param name="excludeGenres">Géneros a excluir separados por comas, ej. "Horror" (opcional).</param>
+    /// <param name="director">Nombre del director (opcional, contiene).</param>
+    /// <param name="writer">Nombre del guionista (opcional, contiene).</param>
+    /// <param name="actor">Nombre de un integrante del elenco (opcional, contiene).</param>
+    /// <param name="yearFrom">Año de estreno mínimo (opcional, inclusive).</param>
+    /// <param name="yearTo">Año de estreno máximo (opcional, inclusive).</param>
+    /// <param name="minImdbRating">Rating mínimo de IMDb, entre 0 y 10 (opcional).</param>
+    /// <param name="runtimeMin">Duración mínima en minutos (opcional).</param>
+    /// <param name="runtimeMax">Duración máxima en minutos (opcional).</param>
+    /// <param name="sort">Orden: "relevance" (por defecto; sin título ordena como "title"), "title", "year", "imdbRating", "average" o "mostRated" (opcional).</param>
+    /// <param name="page">Número de página, desde 1 (opcional, por defecto 1).</param>
+    /// <param name="pageSize">Cantidad de resultados por página, entre 1 y 100 (opcional, por defecto 20).</param>
+    /// <returns>Página de películas que coinciden con los criterios de búsqueda.</returns>
+    /// GET /api/movies/search?imdbId={imdbId}&amp;title={title}&amp;genre={genre}&amp;type={type}&amp;genres={genres}&amp;genreMatch={genreMatch}&amp;excludeGenres={excludeGenres}&amp;director={director}&amp;writer={writer}&amp;actor={actor}&amp;yearFrom={yearFrom}&amp;yearTo={yearTo}&amp;minImdbRating={minImdbRating}&amp;runtimeMin={runtimeMin}&amp;runtimeMax={runtimeMax}&amp;sort={sort}&amp;page={page}&amp;pageSize={pageSize}
     [HttpGet("search")]
-    [ProducesResponseType(typeof(IEnumerable<MovieListItemDto>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(PagedResult<MovieListItemDto>), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
     [ProducesResponseType(typeof(object), StatusCodes.Status404NotFound)]
     [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
-    public async Task<ActionResult<IEnumerable<MovieListItemDto>>> Search(
+    public async Task<ActionResult<PagedResult<MovieListItemDto>>> Search(
     [FromQuery] string? imdbId,
     [FromQuery] string? title,
     [FromQuery] string? genre,
-    [FromQuery] string? type)
+    [FromQuery] string? type,
+    [FromQuery] string? genres,
+    [FromQuery] string? genreMatch,
+    [FromQuery] string? excludeGenres,
+    [FromQuery] string? director,
+    [FromQuery] string? writer,
+    [FromQuery] string? actor,
+    [FromQuery] int? yearFrom,
+    [FromQuery] int? yearTo,
+    [FromQuery] decimal? minImdbRating,
+    [FromQuery] int? runtimeMin,
+    [FromQuery] int? runtimeMax,
+    [FromQuery] string? sort,
+    [FromQuery] int page = 1,
+    [FromQuery] int pageSize = MovieService.DefaultPageSize)
     {
         try
         {
-            var list = await _svc.EnsureAndSearchAsync(imdbId, title, genre, type); // Llamada al servicio para obtener las películas
+            var query = new MovieSearchQuery(title, genre, type, yearFrom, yearTo, minImdbRating, runtimeMin, runtimeMax, sort,
+                SplitList(genres), genreMatch, SplitList(excludeGenres), director, writer, actor); // Filtros y orden de la búsqueda
+            var paged = await _svc.EnsureAndSearchAsync(imdbId, query, page, pageSize); // Llamada al servicio para obtener la página de películas
 
-            var result = list.Select(m => new MovieListItemDto(
+            var items = paged.Items.Select(m => new MovieListItemDto(
                 m.ImdbId,
                 m.Title,
                 m.Type == MovieType.Movie ? "movie" : "series",
@@ -114,9 +149,9 @@ public class MoviesController : ControllerBase
                 m.Poster,
                 m.RatingIMDB,
                 m.Released?.Year
-            )); // Mapeo a DTOs para la respuesta
+            )).ToList(); // Mapeo a DTOs para la respuesta
 
-            return Ok(result); // Retorno de la respuesta con el resultado
+            return Ok(new PagedResult<MovieListItemDto>(items, paged.Page, paged.PageSize, paged.Total)); // Retorno de la página con el total
         }
         catch (ArgumentException ex)
         {
@@ -131,4 +166,64 @@ public class MoviesController : ControllerBase
             return StatusCode(500, new { error = ex.Message }); // Retorno 500 para otros errores
         }
     }
+
+    /// <summary>
+    /// Sugerencias para el buscador mientras se escribe.
+    /// </summary>
+    /// <remarks>
+    /// Devuelve películas (por título) y personas (directores, guionistas y actores, por nombre) del catálogo local.
+    /// No consulta OMDb. Con menos de 2 caracteres devuelve listas vacías.
+    /// </remarks>
+    /// <param name="q">Texto ingresado.</param>
+    /// <param name="limit">Máximo de sugerencias por grupo, entre 1 y 20 (opcional, por defecto 6).</param>
+    /// <returns>Películas y personas sugeridas.</returns>
+    // GET /api/movies/suggest?q={q}&amp;limit={limit}
+    [HttpGet("suggest")]
+    [ProducesResponseType(typeof(SuggestionsDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<SuggestionsDto>> Suggest([FromQuery] string? q, [FromQuery] int limit = 6)
+    {
+        try
+        {
+            return Ok(await _svc.SuggestAsync(q, limit)); // Retorno de las sugerencias
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si el límite es inválido
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+
+    /// <summary>
+    /// Lista los géneros presentes en el catálogo con la cantidad de películas de cada uno.
+    /// </summary>
+    /// <remarks>
+    /// Se usa para armar el selector de géneros de la búsqueda (sólo géneros que devuelven resultados).
+    /// </remarks>
+    /// <returns>Géneros ordenados por cantidad de películas.</returns>
+    // GET /api/movies/genres
+    [HttpGet("genres")]
+    [ProducesResponseType(typeof(IReadOnlyList<GenreCountDto>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<IReadOnlyList<GenreCountDto>>> Genres()
+    {
+        try
+        {
+            return Ok(await _svc.GetGenresAsync()); // Retorno de los géneros con su cantidad
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+
+    /* Lista separada por comas de la query string → valores recortados (vacía → null) */
+    private static IReadOnlyList<string>? SplitList(string? value) =>
+        string.IsNullOrWhiteSpace(value)
+            ? null
+            : value.Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries);
 }
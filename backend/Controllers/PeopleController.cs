@@ -0,0 +1,49 @@
+using Microsoft.AspNetCore.Mvc;
+using TPFinal.Api.Application;
+
+namespace TPFinal.Api.Controllers;
+
+/// <summary>
+/// Endpoints para consultar personas (directores, guionistas y actores) del catálogo.
+/// </summary>
+[ApiController]
+[Route("api/people")]
+public class PeopleController : ControllerBase
+{
+    private readonly IPersonService _svc;
+    public PeopleController(IPersonService svc) => _svc = svc;
+
+    /// <summary>
+    /// Obtiene la filmografía de una persona en el catálogo local.
+    /// </summary>
+    /// <remarks>
+    /// La persona se busca por nombre exacto (sin distinguir mayúsculas). Si no figura en ninguna película, devuelve 404.
+    /// Incluye el promedio de la comunidad (por película y general) y los colaboradores frecuentes.
+    /// </remarks>
+    /// <param name="name">Nombre de la persona.</param>
+    /// <returns>Persona con sus participaciones (película y rol), promedio y colaboradores.</returns>
+    // GET /api/people/{name}
+    [HttpGet("{name}")]
+    [ProducesResponseType(typeof(PersonDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public async Task<ActionResult<PersonDto>> GetByName(string name)
+    {
+        try
+        {
+            var person = await _svc.GetByNameAsync(name); // Llamada al servicio para obtener la persona
+            if (person is null) return NotFound(new { error = "La persona no figura en el catálogo." }); // Retorno 404 si no existe
+
+            return Ok(person); // Retorno de la persona
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si el nombre es inválido
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 si ocurre un error
+        }
+    }
+}
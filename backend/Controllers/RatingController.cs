@@ -36,10 +36,11 @@ public class RatingsController : ControllerBase
     /// <remarks>
     /// Si ya tengo una calificación para esa película, se actualiza.
     /// Si no, se crea una nueva.
-    /// La calificación debe estar entre 1 y 5.
+    /// La calificación debe estar entre 1 y 5, en pasos de media estrella (1, 1.5, ..., 5).
     /// La película debe existir en la base de datos (si no, se devuelve 404).
+    /// El comentario es markdown (hasta 1024 caracteres) y ContainsSpoilers marca que cuenta detalles de la trama.
     /// </remarks>
-    /// <param name="req">Datos de calificación (1..5) y comentario opcional.</param>
+    /// <param name="req">Datos de calificación (1..5, admite medias), comentario opcional y marca de spoilers.</param>
     /// <returns>La calificación resultante.</returns>
     /// POST /api/ratings
     [Authorize]
@@ -60,7 +61,7 @@ public class RatingsController : ControllerBase
         }
         catch (ArgumentOutOfRangeException ex)
         {
-            return BadRequest(new { error = ex.Message }); // Retorno 400 si la calificación está fuera de rango
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si la calificación está fuera de rango (o no es múltiplo de 0.5) o el comentario es muy largo
         }
         catch (InvalidOperationException ex)
         {
@@ -104,24 +105,39 @@ public class RatingsController : ControllerBase
     }
 
     /// <summary>
-    /// Obtiene todas las calificaciones de una película.
+    /// Obtiene las calificaciones de una película, paginadas.
     /// </summary>
     /// <remarks>
-    /// El resultado se ordena de forma descendente por fecha.
+    /// sort: newest (por defecto), oldest, highest, lowest o helpful (más votadas como útiles).
+    /// withComment=true deja sólo las que tienen comentario; stars=1..5 sólo las de esas estrellas (4 incluye 4.5).
+    /// El token es opcional: si viene, helpfulByMe indica si marqué cada reseña como útil.
     /// </remarks>
     /// <param name="imdbId">IMDb Id de la película.</param>
-    /// <returns>Lista de calificaciones o 400 si hay error en los parámetros.</returns>
-    /// GET /api/ratings/movie/{imdbId}
+    /// <param name="sort">Orden de las reseñas.</param>
+    /// <param name="withComment">Sólo las que tienen comentario.</param>
+    /// <param name="stars">Sólo las de esa cantidad de estrellas.</param>
+    /// <param name="page">Número de página (desde 1).</param>
+    /// <param name="pageSize">Tamaño de página (1..50).</param>
+    /// <returns>Página de calificaciones o 400 si hay error en los parámetros.</returns>
+    /// GET /api/ratings/movie/{imdbId}?sort=helpful&amp;withComment=true&amp;stars=4&amp;page=1&amp;pageSize=10
     [HttpGet("movie/{imdbId}")]
-    [ProducesResponseType(typeof(IEnumerable<RatingDto>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(PagedResult<RatingDto>), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
     [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
-    public async Task<ActionResult<IEnumerable<RatingDto>>> GetByMovie(string imdbId)
+    public async Task<ActionResult<PagedResult<RatingDto>>> GetByMovie(
+        string imdbId,
+        [FromQuery] string? sort,
+        [FromQuery] bool withComment = false,
+        [FromQuery] int? stars = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = RatingService.DefaultPageSize)
     {
         try
         {
-            var list = await _svc.GetByMovieAsync(imdbId); // Llamada al servicio para obtener las calificaciones
-            return Ok(list); // Retorno 200 con la lista de calificaciones
+            var userId = GetUserId(); // Token opcional: sólo para helpfulByMe
+            var query = new RatingsQuery(sort, withComment, stars);
+            var res = await _svc.GetByMovieAsync(imdbId, query, page, pageSize, userId == Guid.Empty ? null : userId); // Llamada al servicio para obtener las calificaciones
+            return Ok(res); // Retorno 200 con la página de calificaciones
         }
         catch (ArgumentException ex)
         {
@@ -133,10 +149,75 @@ public class RatingsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Marca como útil la reseña de otro usuario.
+    /// </summary>
+    /// <remarks>
+    /// Es idempotente: marcarla de nuevo no suma otro voto. No se puede marcar la propia (400).
+    /// </remarks>
+    /// <param name="id">Id de la calificación.</param>
+    /// <returns>Cantidad actualizada de votos útiles, 400 si es propia o 404 si no existe.</returns>
+    /// POST /api/ratings/{id}/helpful
+    [Authorize]
+    [HttpPost("{id:guid}/helpful")]
+    [ProducesResponseType(typeof(HelpfulDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public Task<ActionResult<HelpfulDto>> MarkHelpful(Guid id) => SetHelpful(id, true);
+
+    /// <summary>
+    /// Quita mi voto de útil de una reseña.
+    /// </summary>
+    /// <remarks>
+    /// Si no la había marcado, no hace nada.
+    /// </remarks>
+    /// <param name="id">Id de la calificación.</param>
+    /// <returns>Cantidad actualizada de votos útiles o 404 si no existe.</returns>
+    /// DELETE /api/ratings/{id}/helpful
+    [Authorize]
+    [HttpDelete("{id:guid}/helpful")]
+    [ProducesResponseType(typeof(HelpfulDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
+    public Task<ActionResult<HelpfulDto>> UnmarkHelpful(Guid id) => SetHelpful(id, false);
+
+    /// <summary>
+    /// Marca o desmarca como útil una reseña (común a POST y DELETE).
+    /// </summary>
+    private async Task<ActionResult<HelpfulDto>> SetHelpful(Guid id, bool helpful)
+    {
+        try
+        {
+            var userId = GetUserId(); //Obtengo el userId del token
+            if (userId == Guid.Empty) return Unauthorized(); // Si no está presente, retorno 401
+
+            var dto = await _svc.SetHelpfulAsync(userId, id, helpful); // Llamada al servicio para guardar el voto
+            return Ok(dto); // Retorno 200 con los votos actualizados
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message }); // Retorno 400 si es mi propia reseña
+        }
+        catch (InvalidOperationException ex)
+        {
+            return NotFound(new { error = ex.Message }); // Retorno 404 si la reseña no existe
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { error = ex.Message }); // Retorno 500 para otros errores
+        }
+    }
+
     /// <summary>
     /// Obtiene el resumen (cantidad y promedio) de calificaciones de una película.
     /// </summary>
     /// <remarks>
+    /// Incluye la cantidad por estrellas (distribution), la mediana y el puntaje ponderado bayesiano (weightedScore),
+    /// que acerca al promedio general del catálogo a las películas con pocos votos.
     /// Devuelve null si la película no existe.
     /// </remarks>
     /// <param name="imdbId">IMDb Id de la película.</param>
@@ -379,7 +379,7 @@ public class UsersController : ControllerBase
     /// GET /api/users/me/summary
     [HttpGet("me/summary")]
     [Authorize]
-    [ProducesResponseType(typeof(object), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(UserSummaryDto), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
     public async Task<IActionResult> Summary()
     {
@@ -395,7 +395,7 @@ public class UsersController : ControllerBase
                 .Where(r => r.UserId == uid)
                 .CountAsync(); // Contar ratings del usuario
 
-            return Ok(new { watchlistCount, ratingsCount }); // Retorno 200 con el resumen
+            return Ok(new UserSummaryDto(watchlistCount, ratingsCount)); // Retorno 200 con el resumen
         }
         catch (Exception ex)
         {
@@ -415,14 +415,14 @@ public class UsersController : ControllerBase
     /// GET /api/users/exists
     [HttpGet("exists")]
     [AllowAnonymous]
-    [ProducesResponseType(typeof(object), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(UserExistsDto), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(object), StatusCodes.Status500InternalServerError)]
     public async Task<IActionResult> Exists()
     {
         try
         {
             var exists = await _svc.AnyUsersAsync();
-            return Ok(new { exists });
+            return Ok(new UserExistsDto(exists));
         }
         catch (Exception ex)
         {
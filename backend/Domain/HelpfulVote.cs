@@ -0,0 +1,21 @@
+namespace TPFinal.Api.Domain;
+
+/// <summary>
+/// Clase que representa el voto de un usuario que marcó como útil la reseña (calificación) de otro.
+/// </summary>
+public class HelpfulVote
+{
+    public Guid RatingId { get; set; }
+    public Rating? Rating { get; set; }
+    public Guid UserId { get; set; }
+    public User? User { get; set; }
+    public DateTime Date { get; set; } = DateTime.UtcNow;
+
+    public HelpfulVote() { }
+    public HelpfulVote(Guid ratingId, Guid userId)
+    {
+        RatingId = ratingId;
+        UserId = userId;
+        Date = DateTime.UtcNow;
+    }
+}
@@ -7,6 +7,7 @@ public class Movie
 {
     public string ImdbId { get; set; } = null!;
     public string Title { get; set; } = null!;
+    public string NormalizedTitle { get; set; } = ""; // Título sin tildes ni signos (lo completa AppDbContext al guardar)
     public MovieType Type { get; set; }
     public string? Genre { get; set; }
     public DateOnly? Released { get; set; }
@@ -14,6 +15,7 @@ public class Movie
     public string? Poster { get; set; }
     public string? Country { get; set; }
     public decimal? RatingIMDB { get; set; }
+    public DateTime AddedAt { get; set; } = DateTime.UtcNow; // Cuándo se agregó al catálogo local
     public List<TeamMember> TeamMembers { get; set; } = new();
     public List<Rating>? Ratings { get; set; }
     public List<WatchListItem>? WatchListItems { get; set; }
@@ -6,16 +6,18 @@ namespace TPFinal.Api.Domain;
 public class Rating
 {
     public Guid Id { get; set; }
-    public int Qualification { get; set; } // 1..5
-    public string? Comment { get; set; }
+    public double Qualification { get; set; } // 1..5, en pasos de media estrella
+    public string? Comment { get; set; } // Texto en markdown (subconjunto: negrita, cursiva, listas, citas, enlaces y ||spoilers||)
+    public bool ContainsSpoilers { get; set; } // El autor marcó que la reseña cuenta detalles de la trama
 
     public Guid UserId { get; set; }
     public User? User { get; set; }
     public string MovieId { get; set; } = null!;
     public Movie? Movie { get; set; }
     public DateTime Date { get; set; } = DateTime.UtcNow;
+    public List<HelpfulVote> HelpfulVotes { get; set; } = new(); // Usuarios que marcaron la reseña como útil
     public Rating() { }
-    public Rating(int qualification, string? comment, Guid userId, string movieId)
+    public Rating(double qualification, string? comment, Guid userId, string movieId)
     {
         Id = Guid.NewGuid();
         Qualification = qualification;
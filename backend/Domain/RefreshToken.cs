@@ -0,0 +1,30 @@
+namespace TPFinal.Api.Domain;
+
+/// <summary>
+/// Clase que representa un refresh token emitido a un usuario.
+/// </summary>
+/// <remarks>
+/// Sólo se persiste el hash (SHA256) del token; el valor en claro lo conserva únicamente el cliente.
+/// Cada uso lo revoca y emite uno nuevo (rotación).
+/// </remarks>
+public class RefreshToken
+{
+    public Guid Id { get; set; }
+    public string TokenHash { get; set; } = null!;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? RevokedAt { get; set; }
+
+    public Guid UserId { get; set; }
+    public User? User { get; set; }
+
+    public RefreshToken() { }
+    public RefreshToken(Guid userId, string tokenHash, DateTime expiresAt)
+    {
+        Id = Guid.NewGuid();
+        UserId = userId;
+        TokenHash = tokenHash;
+        CreatedAt = DateTime.UtcNow;
+        ExpiresAt = expiresAt;
+    }
+}
@@ -7,6 +7,7 @@ public class TeamMember
 {
     public Guid Id { get; set; }
     public string Name { get; set; } = null!;
+    public string NormalizedName { get; set; } = ""; // Nombre sin tildes ni signos (lo completa AppDbContext al guardar)
     public MemberType Type { get; set; } // Cast / Director / Writer
 
     public string MovieId { get; set; } = null!;
@@ -14,6 +14,7 @@ public class User
     public string? AvatarUrl { get; set; }
     public ICollection<Rating> Ratings { get; set; } = new List<Rating>();
     public ICollection<WatchList> WatchLists { get; set; } = new List<WatchList>();
+    public ICollection<RefreshToken> RefreshTokens { get; set; } = new List<RefreshToken>();
 
     public User() { }
 
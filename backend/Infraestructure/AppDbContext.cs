@@ -1,4 +1,5 @@
 using Microsoft.EntityFrameworkCore;
+using TPFinal.Api.Application;
 using TPFinal.Api.Domain;
 
 namespace TPFinal.Api.Infrastructure;
@@ -17,9 +18,11 @@ public class AppDbContext : DbContext
     public DbSet<User> Users => Set<User>(); 
     public DbSet<Movie> Movies => Set<Movie>();
     public DbSet<Rating> Ratings => Set<Rating>();
+    public DbSet<HelpfulVote> HelpfulVotes => Set<HelpfulVote>();
     public DbSet<TeamMember> TeamMembers => Set<TeamMember>();
     public DbSet<WatchList> WatchLists => Set<WatchList>();
     public DbSet<WatchListItem> WatchListItems => Set<WatchListItem>();
+    public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
 
     protected override void OnModelCreating(ModelBuilder mb)
     {
@@ -39,11 +42,15 @@ public class AppDbContext : DbContext
             e.HasKey(m => m.ImdbId);
             e.Property(m => m.ImdbId).HasMaxLength(16).IsRequired();
             e.Property(m => m.Title).HasMaxLength(256).IsRequired();
+            e.Property(m => m.NormalizedTitle).HasMaxLength(256).IsRequired();
             e.Property(m => m.Genre).HasMaxLength(256);
             e.Property(m => m.Country).HasMaxLength(128);
             e.Property(m => m.Poster).HasMaxLength(512);
             e.Property(m => m.RatingIMDB).HasPrecision(3, 1);
             e.Property(m => m.Released).HasColumnType("date");
+            e.Property(m => m.AddedAt).HasColumnType("datetime");
+
+            e.HasIndex(m => m.NormalizedTitle); // Búsqueda por título
         });
 
         // TeamMembers
@@ -51,6 +58,8 @@ public class AppDbContext : DbContext
         {
             e.HasKey(t => t.Id);
             e.Property(t => t.Name).HasMaxLength(128).IsRequired();
+            e.Property(t => t.NormalizedName).HasMaxLength(128).IsRequired();
+            e.HasIndex(t => t.NormalizedName); // Búsqueda por nombre
             e.Property(t => t.MovieId).HasMaxLength(16).IsRequired();
 
             e.HasOne(t => t.Movie)
@@ -65,6 +74,7 @@ public class AppDbContext : DbContext
             e.HasKey(r => r.Id);
             e.Property(r => r.Qualification).IsRequired();
             e.Property(r => r.Comment).HasMaxLength(1024);
+            e.Property(r => r.ContainsSpoilers).HasDefaultValue(false);
             e.Property(r => r.MovieId).HasMaxLength(16).IsRequired();
             e.Property(r => r.Date).HasColumnType("datetime");
 
@@ -86,6 +96,23 @@ public class AppDbContext : DbContext
             });
         });
 
+        // HelpfulVotes
+        mb.Entity<HelpfulVote>(e =>
+        {
+            e.HasKey(v => new { v.RatingId, v.UserId }); // Un voto por usuario y reseña
+            e.Property(v => v.Date).HasColumnType("datetime");
+
+            e.HasOne(v => v.Rating)
+             .WithMany(r => r.HelpfulVotes)
+             .HasForeignKey(v => v.RatingId)
+             .OnDelete(DeleteBehavior.Cascade);
+
+            e.HasOne(v => v.User)
+             .WithMany()
+             .HasForeignKey(v => v.UserId)
+             .OnDelete(DeleteBehavior.Cascade);
+        });
+
         // WatchLists
         mb.Entity<WatchList>(e =>
         {
@@ -116,5 +143,108 @@ public class AppDbContext : DbContext
 
             e.HasIndex(wi => new { wi.WatchListId, wi.Position }).IsUnique();
         });
+
+        // RefreshTokens
+        mb.Entity<RefreshToken>(e =>
+        {
+            e.HasKey(t => t.Id);
+            e.Property(t => t.TokenHash).HasMaxLength(64).IsRequired();
+            e.Property(t => t.CreatedAt).HasColumnType("datetime");
+            e.Property(t => t.ExpiresAt).HasColumnType("datetime");
+            e.Property(t => t.RevokedAt).HasColumnType("datetime");
+
+            e.HasOne(t => t.User)
+             .WithMany(u => u.RefreshTokens)
+             .HasForeignKey(t => t.UserId)
+             .OnDelete(DeleteBehavior.Cascade);
+
+            e.HasIndex(t => t.TokenHash).IsUnique();
+        });
+    }
+
+    /// <summary>
+    /// Guarda los cambios completando antes las columnas de búsqueda normalizadas.
+    /// </summary>
+    public override int SaveChanges(bool acceptAllChangesOnSuccess)
+    {
+        NormalizeSearchColumns();
+        return base.SaveChanges(acceptAllChangesOnSuccess);
+    }
+
+    /// <summary>
+    /// Guarda los cambios completando antes las columnas de búsqueda normalizadas.
+    /// </summary>
+    public override Task<int> SaveChangesAsync(bool acceptAllChangesOnSuccess, CancellationToken cancellationToken = default)
+    {
+        NormalizeSearchColumns();
+        return base.SaveChangesAsync(acceptAllChangesOnSuccess, cancellationToken);
+    }
+
+    /* Tablas y columnas agregadas después de la migración inicial, con la migración del README que las crea */
+    private static readonly (string Table, string Column, string Migration)[] RequiredSchema =
+    {
+        ("RefreshTokens", "TokenHash", "RefreshTokens"),
+        ("Movies", "AddedAt", "MovieAddedAt"),
+        ("HelpfulVotes", "RatingId", "HelpfulVotes"),
+        ("Ratings", "ContainsSpoilers", "RatingSpoilers"),
+        ("Movies", "NormalizedTitle", "SearchColumns"),
+        ("TeamMembers", "NormalizedName", "SearchColumns"),
+    };
+
+    /// <summary>
+    /// Verifica que la base tenga las tablas y columnas que agregaron las migraciones posteriores a la inicial.
+    /// </summary>
+    /// <remarks>
+    /// Las migraciones no se versionan (Migrations/ está en .gitignore); data/tppelis.db ya viene actualizada, pero con
+    /// una copia anterior la API fallaría recién en la primera consulta que use lo que falta. Así no arranca y el error
+    /// dice qué falta y qué migración lo agrega. Sólo aplica a SQLite.
+    /// </remarks>
+    /// <exception cref="InvalidOperationException">Si falta alguna tabla o columna.</exception>
+    public async Task EnsureSchemaAsync()
+    {
+        if (!Database.IsSqlite()) return;
+
+        var missing = new List<string>();
+        foreach (var table in RequiredSchema.GroupBy(r => r.Table))
+        {
+            var columns = await Database
+                .SqlQuery<string>($"SELECT name AS Value FROM pragma_table_info({table.Key})")
+                .ToListAsync(); // Vacía si la tabla no existe
+            missing.AddRange(table
+                .Where(r => !columns.Contains(r.Column, StringComparer.OrdinalIgnoreCase))
+                .Select(r => $"{r.Table}.{r.Column} (migración {r.Migration})"));
+        }
+
+        if (missing.Count > 0)
+            throw new InvalidOperationException(
+                $"La base de datos no está actualizada. Falta: {string.Join(", ", missing)}. " +
+                "Usá la data/tppelis.db del repositorio o aplicá las migraciones del README (backend/README.md).");
+    }
+
+    /// <summary>
+    /// Completa las columnas normalizadas de las filas anteriores a la migración SearchColumns.
+    /// </summary>
+    /// <remarks>
+    /// SQLite no sabe quitar tildes, así que no se puede hacer con SQL en la migración: se hace al iniciar la API
+    /// (sólo toca las filas con la columna vacía, así que después de la primera vez no hace nada).
+    /// </remarks>
+    public async Task BackfillSearchColumnsAsync()
+    {
+        var movies = await Movies.Where(m => m.NormalizedTitle == "").ToListAsync();
+        var members = await TeamMembers.Where(t => t.NormalizedName == "").ToListAsync();
+        if (movies.Count == 0 && members.Count == 0) return;
+
+        movies.ForEach(m => Entry(m).State = EntityState.Modified); // SaveChanges normaliza las modificadas
+        members.ForEach(t => Entry(t).State = EntityState.Modified);
+        await SaveChangesAsync();
+    }
+
+    /* Título y nombres normalizados (TextSearch.Normalize) de las películas y participaciones nuevas o modificadas */
+    private void NormalizeSearchColumns()
+    {
+        foreach (var e in ChangeTracker.Entries<Movie>().Where(e => e.State is EntityState.Added or EntityState.Modified))
+            e.Entity.NormalizedTitle = TextSearch.Normalize(e.Entity.Title);
+        foreach (var e in ChangeTracker.Entries<TeamMember>().Where(e => e.State is EntityState.Added or EntityState.Modified))
+            e.Entity.NormalizedName = TextSearch.Normalize(e.Entity.Name);
     }
 }
@@ -0,0 +1,32 @@
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace TPFinal.Api.Infrastructure;
+
+/// <summary>
+/// Filtro de Swagger que marca como requeridas las propiedades no anulables de los DTOs.
+/// </summary>
+/// <remarks>
+/// Sin esto todas las propiedades quedan opcionales en el documento OpenAPI y los tipos que el cliente
+/// genera a partir de él (frontend/src/lib/api-types.ts) no distinguen un campo ausente de uno con valor.
+/// Los parámetros con valor por defecto del constructor (p. ej. RegisterRequest.IsAdmin) siguen siendo opcionales.
+/// </remarks>
+public class RequiredPropertiesSchemaFilter : ISchemaFilter
+{
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (schema.Properties is null || schema.Properties.Count == 0) return;
+
+        var withDefault = context.Type.GetConstructors()
+            .SelectMany(c => c.GetParameters())
+            .Where(p => p.HasDefaultValue && p.Name is not null)
+            .Select(p => p.Name!)
+            .ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+        foreach (var (name, property) in schema.Properties)
+        {
+            if (property.Nullable || withDefault.Contains(name)) continue; // Anulable u opcional en el request
+            schema.Required.Add(name);
+        }
+    }
+}
@@ -42,6 +42,12 @@ builder.Services.AddSwaggerGen(c =>
             Array.Empty<string>()
         }
     });
+
+    // Anulabilidad y campos requeridos en los esquemas: de acá salen los tipos del cliente (npm run api:types)
+    c.SupportNonNullableReferenceTypes();
+    c.UseAllOfToExtendReferenceSchemas();
+    c.SchemaFilter<RequiredPropertiesSchemaFilter>();
+
     var xml = $"{Assembly.GetExecutingAssembly().GetName().Name}.xml";
     var xmlPath = Path.Combine(AppContext.BaseDirectory, xml);
     if (File.Exists(xmlPath))
@@ -64,7 +70,8 @@ builder.Services
             ValidateIssuerSigningKey = true,
             ValidIssuer = jwt["Issuer"],
             ValidAudience = jwt["Audience"],
-            IssuerSigningKey = signingKey
+            IssuerSigningKey = signingKey,
+            ClockSkew = TimeSpan.FromSeconds(30) // Tokens de corta duración: tolerancia mínima
         };
     });
 
@@ -77,6 +84,8 @@ builder.Services.AddScoped<IMovieService, MovieService>();
 builder.Services.AddScoped<IWatchlistService, WatchlistService>();
 builder.Services.AddScoped<IRatingService, RatingService>();
 builder.Services.AddScoped<IUserService, UserService>();
+builder.Services.AddScoped<IPersonService, PersonService>();
+builder.Services.AddScoped<IBrowseService, BrowseService>();
 
 
 // CORS para el front en Vite (5173)
@@ -98,6 +107,16 @@ builder.Services.AddDbContext<AppDbContext>(opts =>
 //    opts.UseSqlServer(builder.Configuration.GetConnectionString("Default")));
 
 var app = builder.Build();
+
+// Esquema de la base (falla con un mensaje claro si está desactualizada) y columnas de búsqueda normalizadas
+// de las filas que ya existían (ver AppDbContext.EnsureSchemaAsync y BackfillSearchColumnsAsync)
+using (var scope = app.Services.CreateScope())
+{
+    var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+    await db.EnsureSchemaAsync();
+    await db.BackfillSearchColumnsAsync();
+}
+
 app.UseStaticFiles(); // sirve wwwroot/*
 
 app.UseSwagger();
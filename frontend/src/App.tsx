@@ -4,8 +4,12 @@ import Home from "@/pages/Home";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import MovieDetail from "@/pages/MovieDetail";
+import Person from "@/pages/Person";
+import Genres from "@/pages/Genres";
+import Genre from "@/pages/Genre";
 import Watchlist from "@/pages/WatchList";
 import Profile from "@/pages/Profile";
+import MyRatings from "@/pages/MyRatings";
 import { Toaster } from "sonner";
 import {
   RequireAuth,
@@ -14,6 +18,9 @@ import {
 } from "@/components/RouteGuards";
 import AdminUsers from "./pages/AdminUsers";
 import NotFound from "./pages/NotFound";
+import ReloginDialog from "@/components/ReloginDialog";
+import SessionExpiryDialog from "@/components/SessionExpiryDialog";
+import OutboxSync from "@/components/OutboxSync";
 import { useAuth } from "./context/auth";
 
 /**
@@ -41,6 +48,9 @@ export default function App() {
           {/* Públicas */}
           <Route path="/" element={<Home />} />
           <Route path="/movies/:id" element={<MovieDetail />} />
+          <Route path="/people/:name" element={<Person />} />
+          <Route path="/genres" element={<Genres />} />
+          <Route path="/genres/:genre" element={<Genre />} />
 
           {/* Solo si NO hay sesión */}
           <Route element={<RequireAnon />}>
@@ -52,6 +62,7 @@ export default function App() {
           <Route element={<RequireAuth />}>
             <Route path="/watchlist" element={<Watchlist />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/ratings" element={<MyRatings />} />
           </Route>
 
           {/* Requiere admin */}
@@ -63,6 +74,9 @@ export default function App() {
           <Route path="*" element={<NotFound />} />
         </Routes>
       </main>
+      <ReloginDialog />
+      <SessionExpiryDialog />
+      <OutboxSync />
       <Toaster richColors closeButton />
     </div>
   );
@@ -0,0 +1,43 @@
+import { Link } from "react-router-dom";
+import { useAuth } from "@/context/auth";
+import { BrowseApi, SECTION_INFO, browseKeys } from "@/lib/browse";
+import { useQuery } from "@/lib/query";
+import MovieRow from "@/components/MovieRow";
+
+/**
+ * Portada de Home cuando no hay búsqueda: filas con scroll horizontal del catálogo local
+ * (mejor calificadas, calificadas recientemente, más agregadas a listas y nuevas en el catálogo)
+ * y, con sesión, recomendaciones a partir de la última película que el usuario calificó bien.
+ * Las filas vacías no se muestran; si la portada no carga, queda sólo el link a los géneros.
+ */
+export default function Discover() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const homeQ = useQuery(browseKeys.home(userId), (signal) => BrowseApi.home({ signal }), { staleTime: 60_000 });
+
+  const home = homeQ.data ?? null;
+  const sections = (home?.sections ?? []).filter((s) => s.movies.length > 0);
+  const because = home?.becauseYouRated;
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center text-sm text-gray-500">
+        Escribí al menos 2 caracteres para buscar, o{" "}
+        <Link to="/genres" className="underline">
+          explorá por género
+        </Link>
+        .
+      </div>
+
+      {homeQ.loading && <div className="text-center text-sm text-gray-400">Cargando recomendaciones…</div>}
+
+      {because && because.movies.length > 0 && (
+        <MovieRow title={`Porque calificaste «${because.title}»`} movies={because.movies} stat="imdbRating" />
+      )}
+      {sections.map((s) => {
+        const info = SECTION_INFO[s.key];
+        return <MovieRow key={s.key} title={info.title} movies={s.movies} stat={info.stat} />;
+      })}
+    </div>
+  );
+}
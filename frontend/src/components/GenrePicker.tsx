@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MoviesApi, movieKeys } from "@/lib/movies";
+import type { GenreMatch } from "@/lib/movies";
+import { useQuery } from "@/lib/query";
+import type { MovieSearchFilters } from "@/lib/search-params";
+import { Ban, Check } from "lucide-react";
+
+/* Cantidad de géneros visibles antes de "Ver todos" */
+const COLLAPSED = 12;
+
+type GenreFilters = Pick<MovieSearchFilters, "genres" | "genreMatch" | "excludeGenres">;
+
+/**
+ * Selector de géneros con chips.
+ * Cada chip alterna entre sin filtro → incluido → excluido; con varios incluidos se elige
+ * si la película tiene que tener alguno o todos.
+ * Los géneros (y su cantidad de películas) salen del catálogo: GET /movies/genres.
+ * @param value Géneros incluidos, excluidos y modo de combinación.
+ * @param onChange Aplica un cambio de filtros.
+ */
+export default function GenrePicker({
+  value,
+  onChange,
+}: {
+  value: GenreFilters;
+  onChange: (patch: Partial<GenreFilters>) => void;
+}) {
+  const genresQ = useQuery(movieKeys.genres, (signal) => MoviesApi.genres({ signal }), { staleTime: 5 * 60_000 });
+  const [expanded, setExpanded] = useState(false);
+
+  const { genres, genreMatch, excludeGenres } = value;
+  const counts = new Map((genresQ.data ?? []).map((g) => [g.name.toLowerCase(), g.count]));
+  // los géneros elegidos se muestran siempre, aunque no estén en el catálogo (ej. link viejo)
+  const names = [
+    ...(genresQ.data ?? []).map((g) => g.name),
+    ...[...genres, ...excludeGenres].filter((g) => !counts.has(g.toLowerCase())),
+  ];
+  const selected = (name: string) => genres.includes(name) || excludeGenres.includes(name);
+  const visible = expanded ? names : names.filter((n, i) => i < COLLAPSED || selected(n));
+
+  /* sin filtro → incluido → excluido → sin filtro */
+  function toggle(name: string) {
+    if (genres.includes(name)) {
+      onChange({ genres: genres.filter((g) => g !== name), excludeGenres: [...excludeGenres, name] });
+    } else if (excludeGenres.includes(name)) {
+      onChange({ excludeGenres: excludeGenres.filter((g) => g !== name) });
+    } else {
+      onChange({ genres: [...genres, name] });
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto w-full">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs text-gray-500">
+          Géneros <span className="text-gray-400">(clic: incluir · otro clic: excluir)</span>
+        </span>
+        <div className="flex items-center gap-1">
+          {genres.length > 1 && (
+            <div className="flex rounded-md border text-xs" role="group" aria-label="Combinación de géneros">
+              {(["any", "all"] as GenreMatch[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  aria-pressed={genreMatch === m}
+                  onClick={() => onChange({ genreMatch: m })}
+                  className={`px-2 py-1 first:rounded-l-md last:rounded-r-md ${genreMatch === m ? "bg-gray-900 text-white" : "hover:bg-gray-100"}`}
+                >
+                  {m === "any" ? "Alguno" : "Todos"}
+                </button>
+              ))}
+            </div>
+          )}
+          {(genres.length > 0 || excludeGenres.length > 0) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({ genres: [], excludeGenres: [], genreMatch: "any" })}>
+              Limpiar
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {genresQ.loading && names.length === 0 && <div className="text-xs text-gray-400">Cargando géneros…</div>}
+      {!!genresQ.error && names.length === 0 && (
+        <div className="text-xs text-gray-400">No se pudieron cargar los géneros.</div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {visible.map((name) => {
+          const included = genres.includes(name);
+          const excluded = excludeGenres.includes(name);
+          const count = counts.get(name.toLowerCase());
+          return (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggle(name)}
+              aria-label={`${name}: ${included ? "incluido" : excluded ? "excluido" : "sin filtro"}`}
+              className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+                included
+                  ? "border-gray-900 bg-gray-900 text-white"
+                  : excluded
+                    ? "border-red-300 bg-red-50 text-red-700 line-through"
+                    : "hover:bg-gray-100"
+              }`}
+            >
+              {included && <Check className="h-3 w-3" />}
+              {excluded && <Ban className="h-3 w-3" />}
+              {name}
+              {count !== undefined && <span className={included ? "text-gray-300" : "text-gray-400"}>{count}</span>}
+            </button>
+          );
+        })}
+        {names.length > COLLAPSED && (
+          <button type="button" className="px-2 text-xs underline text-gray-600" onClick={() => setExpanded((v) => !v)}>
+            {expanded ? "Ver menos" : `Ver todos (${names.length})`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { highlight } from "@/lib/text-match";
+
+/**
+ * Texto con las partes que coinciden con la búsqueda resaltadas (sin distinguir tildes y tolerando errores de tipeo).
+ * @param text Texto a mostrar (título o nombre).
+ * @param query Texto buscado; vacío = sin resaltar.
+ */
+export default function Highlight({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlight(text, query).map((s, i) =>
+        s.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-100 text-inherit">
+            {s.text}
+          </mark>
+        ) : (
+          s.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Pie de una lista paginada con scroll infinito.
+ * Carga la página siguiente cuando el pie se acerca a la pantalla (IntersectionObserver);
+ * el botón "Cargar más" queda como alternativa (sin soporte del observer, o si la carga automática falló).
+ * @param hasMore Si hay una página siguiente.
+ * @param loading Si se está cargando una página (evita pedir dos veces la misma).
+ * @param onLoadMore Carga la página siguiente.
+ */
+export default function LoadMore({
+  hasMore,
+  loading,
+  onLoadMore,
+}: {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}) {
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = sentinel.current;
+    if (!el || !hasMore || loading || typeof IntersectionObserver === "undefined") return;
+    // margen: empieza a cargar un poco antes de llegar al final
+    const observer = new IntersectionObserver((entries) => entries.some((e) => e.isIntersecting) && onLoadMore(), {
+      rootMargin: "400px 0px",
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinel} className="flex justify-center py-6">
+      <Button variant="outline" onClick={onLoadMore} disabled={loading}>
+        {loading ? "Cargando..." : "Cargar más"}
+      </Button>
+    </div>
+  );
+}
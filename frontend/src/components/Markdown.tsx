@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
+import { parseMarkdown } from "@/lib/markdown";
+import type { MdBlock, MdInline } from "@/lib/markdown";
+
+/* Spoiler en línea: borroso hasta hacer click (o Enter/Espacio); oculto también para lectores de pantalla */
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+
+  if (revealed) return <span className="rounded-sm bg-gray-100">{children}</span>;
+
+  function onKeyDown(e: KeyboardEvent<HTMLSpanElement>) {
+    if (e.key !== "Enter" && e.key !== " ") return;
+    e.preventDefault();
+    setRevealed(true);
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label="Spoiler oculto. Mostrar"
+      title="Spoiler: click para mostrar"
+      onClick={() => setRevealed(true)}
+      onKeyDown={onKeyDown}
+      className="cursor-pointer rounded-sm bg-gray-200 outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+    >
+      <span aria-hidden inert className="pointer-events-none select-none blur-sm">
+        {children}
+      </span>
+    </span>
+  );
+}
+
+/* Nodos en línea como elementos de React (el texto lo escapa React; no se usa HTML) */
+function renderInline(nodes: MdInline[]): ReactNode[] {
+  return nodes.map((n, i) => {
+    switch (n.type) {
+      case "text":
+        return n.text;
+      case "break":
+        return <br key={i} />;
+      case "strong":
+        return <strong key={i}>{renderInline(n.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(n.children)}</em>;
+      case "spoiler":
+        return <Spoiler key={i}>{renderInline(n.children)}</Spoiler>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={n.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow ugc"
+            className="text-blue-700 underline underline-offset-2 hover:text-blue-900"
+          >
+            {renderInline(n.children)}
+          </a>
+        );
+    }
+  });
+}
+
+/* Bloques como elementos de React */
+function renderBlocks(blocks: MdBlock[]): ReactNode[] {
+  return blocks.map((b, i) => {
+    switch (b.type) {
+      case "paragraph":
+        return <p key={i}>{renderInline(b.children)}</p>;
+      case "list": {
+        const items = b.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+        return b.ordered ? (
+          <ol key={i} className="list-decimal space-y-0.5 pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc space-y-0.5 pl-5">
+            {items}
+          </ul>
+        );
+      }
+      case "quote":
+        return (
+          <blockquote key={i} className="space-y-2 border-l-2 border-gray-300 pl-3 text-gray-600">
+            {renderBlocks(b.children)}
+          </blockquote>
+        );
+    }
+  });
+}
+
+/**
+ * Texto de una reseña en markdown (ver `lib/markdown.ts`).
+ * Se arma con elementos de React a partir del árbol parseado: nunca se inserta HTML, así que lo que
+ * no es una marca admitida se ve como texto; los enlaces abren en otra pestaña y los spoilers van borrosos.
+ * @param source Texto en markdown.
+ * @param className Clases del contenedor (tamaño y color del texto).
+ */
+export default function Markdown({ source, className = "" }: { source: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+}
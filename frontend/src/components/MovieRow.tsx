@@ -0,0 +1,88 @@
+import { useRef } from "react";
+import { Link } from "react-router-dom";
+import type { BrowseMovieDto, BrowseStat } from "@/lib/browse";
+import { Bookmark, ChevronLeft, ChevronRight, Star } from "lucide-react";
+
+/**
+ * Fila de pósters con scroll horizontal (secciones de las páginas de exploración).
+ * Las flechas desplazan casi un ancho de la fila; con el teclado o el trackpad se recorre igual.
+ * @param title Título de la sección.
+ * @param movies Películas de la sección.
+ * @param moreTo Link opcional a la búsqueda completa ("Ver todas").
+ * @param stat Dato de cada tarjeta: promedio de la comunidad, rating de IMDb, año o cantidad de listas.
+ */
+export default function MovieRow({
+  title,
+  movies,
+  moreTo,
+  stat = "imdbRating",
+}: {
+  title: string;
+  movies: BrowseMovieDto[];
+  moreTo?: string;
+  stat?: BrowseStat;
+}) {
+  const scroller = useRef<HTMLDivElement>(null);
+
+  function scroll(direction: 1 | -1) {
+    const el = scroller.current;
+    if (el) el.scrollBy({ left: direction * el.clientWidth * 0.9, behavior: "smooth" });
+  }
+
+  return (
+    <section>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <div className="flex items-center gap-1">
+          {moreTo && (
+            <Link to={moreTo} className="mr-2 text-sm text-gray-600 hover:underline">
+              Ver todas
+            </Link>
+          )}
+          <button type="button" className="rounded-full border p-1 hover:bg-gray-100" aria-label="Anteriores" onClick={() => scroll(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button type="button" className="rounded-full border p-1 hover:bg-gray-100" aria-label="Siguientes" onClick={() => scroll(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scroller} className="flex gap-4 overflow-x-auto scroll-smooth pb-2 snap-x">
+        {movies.map((m) => (
+          <Link key={m.imdbId} to={`/movies/${m.imdbId}`} className="w-36 flex-none snap-start group">
+            {m.poster && m.poster !== "N/A" ? (
+              <img
+                src={m.poster}
+                alt={m.title}
+                className="h-52 w-36 rounded-md object-cover shadow-sm transition-shadow group-hover:shadow-lg"
+                loading="lazy"
+              />
+            ) : (
+              <div className="flex h-52 w-36 items-center justify-center rounded-md bg-gray-100 text-xs text-gray-400">
+                Sin imagen
+              </div>
+            )}
+            <div className="mt-1.5 text-sm font-medium line-clamp-2 group-hover:underline">{m.title}</div>
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              {stat === "communityAverage" && m.communityAverage != null && (
+                <>
+                  <Star className="h-3 w-3 text-yellow-500 fill-yellow-500" />
+                  {m.communityAverage.toFixed(1)} <span className="text-gray-400">({m.ratingsCount})</span>
+                </>
+              )}
+              {stat === "imdbRating" && m.imdbRating != null && <>IMDb {m.imdbRating.toFixed(1)}</>}
+              {stat === "year" && (m.year ?? "—")}
+              {stat === "watchlistCount" && (
+                <>
+                  <Bookmark className="h-3 w-3" />
+                  {m.watchlistCount} lista{m.watchlistCount === 1 ? "" : "s"}
+                </>
+              )}
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -27,11 +27,14 @@ export default function Navbar() {
   return (
     <nav className="bg-white border-b">
       <div className="max-w-screen-2xl mx-auto w-full px-6 py-3 flex items-center justify-between">
-        {/* Izquierda: brand */}
+        {/* Izquierda: brand y exploración */}
         <div className="flex items-center gap-6">
           <Link to="/" className="font-semibold">
             Taller de Programación
           </Link>
+          <Link to="/genres" className="text-sm text-gray-600 hover:text-gray-900">
+            Géneros
+          </Link>
         </div> 
 
         {/* Derecha: auth / menú de usuario */}
@@ -71,6 +74,9 @@ export default function Navbar() {
                 <DropdownMenuItem onClick={() => nav("/watchlist")}>
                   Mi lista
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => nav("/ratings")}>
+                  Mis calificaciones
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 {user?.role === "administrator" && (
                   <DropdownMenuItem onClick={() => nav("/admin/users")}>
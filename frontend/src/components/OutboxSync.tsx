@@ -0,0 +1,83 @@
+import { useEffect } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/context/auth";
+import { Outbox, describeMutation, useOutbox } from "@/lib/outbox";
+import { CloudOff, RefreshCw } from "lucide-react";
+
+/**
+ * Sincronización del outbox offline.
+ * - Arranca el reenvío de cambios pendientes al iniciar sesión y al volver la conexión.
+ * - Muestra un indicador con la cantidad de cambios sin sincronizar.
+ * - Presenta los conflictos de a uno para que el usuario decida.
+ */
+export default function OutboxSync() {
+  const { user } = useAuth();
+  const { pending, conflicts, online, syncing } = useOutbox();
+  const conflict = conflicts[0];
+
+  useEffect(() => {
+    Outbox.start(user?.id ?? null);
+  }, [user?.id]);
+
+  if (!user) return null;
+
+  return (
+    <>
+      {(!online || pending > 0) && (
+        <div className="fixed bottom-4 left-4 z-40 flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-xs shadow">
+          {online ? (
+            <RefreshCw className={`h-3.5 w-3.5 ${syncing ? "animate-spin" : ""}`} />
+          ) : (
+            <CloudOff className="h-3.5 w-3.5 text-gray-500" />
+          )}
+          <span>
+            {!online && "Sin conexión"}
+            {!online && pending > 0 && " · "}
+            {pending > 0 && `${pending} cambio${pending === 1 ? "" : "s"} sin sincronizar`}
+          </span>
+        </div>
+      )}
+
+      <AlertDialog open={!!conflict}>
+        {conflict && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>No se pudo sincronizar un cambio</AlertDialogTitle>
+              <AlertDialogDescription>
+                <span className="block font-medium text-gray-800">
+                  {describeMutation(conflict.entry.mutation)}
+                </span>
+                <span className="mt-1 block">{conflict.message}</span>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              {conflict.resolvable ? (
+                <>
+                  <AlertDialogCancel onClick={() => void Outbox.resolve(conflict, false)}>
+                    Conservar la del servidor
+                  </AlertDialogCancel>
+                  <AlertDialogAction onClick={() => void Outbox.resolve(conflict, true)}>
+                    Usar la mía
+                  </AlertDialogAction>
+                </>
+              ) : (
+                <AlertDialogAction onClick={() => void Outbox.resolve(conflict, false)}>
+                  Entendido
+                </AlertDialogAction>
+              )}
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </>
+  );
+}
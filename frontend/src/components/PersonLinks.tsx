@@ -0,0 +1,22 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
+import { personPath } from "@/lib/people";
+
+/**
+ * Nombres de personas separados por coma, cada uno enlazado a su página (/people/:name).
+ * @param names Nombres a mostrar.
+ */
+export default function PersonLinks({ names }: { names: string[] }) {
+  return (
+    <>
+      {names.map((name, i) => (
+        <Fragment key={name}>
+          {i > 0 && ", "}
+          <Link to={personPath(name)} className="font-medium hover:underline">
+            {name}
+          </Link>
+        </Fragment>
+      ))}
+    </>
+  );
+}
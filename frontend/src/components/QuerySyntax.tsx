@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { QUERY_FIELDS } from "@/lib/query-language";
+import type { ParsedQuery } from "@/lib/query-language";
+import { CircleHelp } from "lucide-react";
+
+/* Colores por tipo de segmento */
+const TOKEN_CLASS = {
+  text: "text-gray-800",
+  field: "text-blue-700 font-medium",
+  negated: "text-red-700 font-medium",
+  error: "text-red-600 underline decoration-wavy decoration-red-500",
+};
+
+/**
+ * Ayuda del lenguaje de búsqueda de Home.
+ * Repite lo escrito con los campos resaltados y los errores subrayados (con su mensaje),
+ * y despliega la lista de campos admitidos.
+ * @param input Texto del buscador.
+ * @param parsed Resultado de parseQuery(input).
+ */
+export default function QuerySyntax({ input, parsed }: { input: string; parsed: ParsedQuery }) {
+  const [helpOpen, setHelpOpen] = useState(false);
+  const showEcho = parsed.hasFields || parsed.errors.length > 0;
+
+  // segmentos del texto original, con los espacios intermedios
+  const parts: { key: number; text: string; className?: string; title?: string }[] = [];
+  let cursor = 0;
+  for (const t of parsed.tokens) {
+    if (t.start > cursor) parts.push({ key: cursor, text: input.slice(cursor, t.start) });
+    parts.push({
+      key: t.start,
+      text: input.slice(t.start, t.end),
+      className: t.kind === "field" && t.negated ? TOKEN_CLASS.negated : TOKEN_CLASS[t.kind],
+      title: parsed.errors.find((e) => e.start === t.start)?.message,
+    });
+    cursor = t.end;
+  }
+
+  return (
+    <div className="max-w-xl mx-auto w-full text-xs">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 flex-1">
+          {showEcho && (
+            <div className="font-mono whitespace-pre-wrap break-words" aria-hidden>
+              {parts.map((p) => (
+                <span key={p.key} className={p.className} title={p.title}>
+                  {p.text}
+                </span>
+              ))}
+            </div>
+          )}
+          {parsed.errors.length > 0 && (
+            <ul className="mt-1 text-red-600" aria-live="polite">
+              {parsed.errors.map((e, i) => (
+                <li key={i}>
+                  {e.end - e.start < input.length && <span className="font-mono">{input.slice(e.start, e.end)}: </span>}
+                  {e.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button
+          type="button"
+          className="flex flex-none items-center gap-1 text-gray-500 hover:text-gray-800"
+          aria-expanded={helpOpen}
+          onClick={() => setHelpOpen((v) => !v)}
+        >
+          <CircleHelp className="h-3.5 w-3.5" />
+          Sintaxis
+        </button>
+      </div>
+
+      {helpOpen && (
+        <div className="mt-2 rounded-md border bg-white p-3 shadow-sm">
+          <p className="mb-2 text-gray-600">
+            Combiná texto libre con campos <span className="font-mono">campo:valor</span>. Los valores con espacios van entre
+            comillas; los campos escritos se suman a los filtros de abajo.
+          </p>
+          <table className="w-full">
+            <tbody>
+              {QUERY_FIELDS.map((f) => (
+                <tr key={f.name} className="align-top">
+                  <td className="py-0.5 pr-3 font-mono text-blue-700">{f.name}:</td>
+                  <td className="py-0.5 pr-3 text-gray-700">{f.help}</td>
+                  <td className="py-0.5 font-mono text-gray-500">{f.example}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 font-mono text-gray-500">director:nolan year:&gt;=2010 genre:drama -genre:horror rating:&gt;7.5</p>
+        </div>
+      )}
+    </div>
+  );
+}
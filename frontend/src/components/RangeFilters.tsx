@@ -0,0 +1,101 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { hasRangeFilters } from "@/lib/search-params";
+import type { MovieRangeFilter, MovieSearchFilters } from "@/lib/search-params";
+
+/* Los años y las duraciones son enteros */
+const whole = (v: number | null) => (v === null ? null : Math.round(v));
+
+/* Campo numérico que confirma el valor al salir del campo o con Enter (no busca en cada tecla) */
+function NumberFilter({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  placeholder,
+  onCommit,
+}: {
+  label: string;
+  value: number | null;
+  min: number;
+  max: number;
+  step?: number;
+  placeholder?: string;
+  onCommit: (value: number | null) => void;
+}) {
+  function commit(input: HTMLInputElement) {
+    const raw = input.value.trim();
+    const n = Number(raw);
+    const next = raw === "" ? null : Number.isFinite(n) ? Math.min(Math.max(n, min), max) : value;
+    if (next === value) {
+      input.value = value === null ? "" : String(value); // valor inválido: se vuelve al anterior
+      return;
+    }
+    onCommit(next);
+  }
+
+  return (
+    <label className="block">
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      <Input
+        // sin estado propio: `key` lo reinicia cuando el valor cambia desde afuera (atrás/adelante, limpiar)
+        key={value ?? "empty"}
+        type="number"
+        inputMode="decimal"
+        min={min}
+        max={max}
+        step={step}
+        placeholder={placeholder}
+        defaultValue={value ?? ""}
+        onBlur={(e) => commit(e.currentTarget)}
+        onKeyDown={(e) => e.key === "Enter" && commit(e.currentTarget)}
+      />
+    </label>
+  );
+}
+
+/**
+ * Filtros de rango de la búsqueda: años de estreno, rating mínimo de IMDb y duración.
+ * @param filters Filtros actuales.
+ * @param error Rango inválido (ej. año desde mayor que año hasta), o null.
+ * @param onChange Aplica un cambio de filtros.
+ */
+export default function RangeFilters({
+  filters,
+  error,
+  onChange,
+}: {
+  filters: MovieSearchFilters;
+  error: string | null;
+  onChange: (patch: Partial<Pick<MovieSearchFilters, MovieRangeFilter>>) => void;
+}) {
+  return (
+    <div className="max-w-3xl mx-auto w-full">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <NumberFilter label="Año desde" value={filters.yearFrom} min={1800} max={2200} placeholder="1990"
+          onCommit={(v) => onChange({ yearFrom: whole(v) })} />
+        <NumberFilter label="Año hasta" value={filters.yearTo} min={1800} max={2200} placeholder="2025"
+          onCommit={(v) => onChange({ yearTo: whole(v) })} />
+        <NumberFilter label="IMDb mínimo" value={filters.minImdbRating} min={0} max={10} step={0.1} placeholder="7.5"
+          onCommit={(v) => onChange({ minImdbRating: v })} />
+        <NumberFilter label="Duración mín. (min)" value={filters.runtimeMin} min={0} max={10_000} placeholder="90"
+          onCommit={(v) => onChange({ runtimeMin: whole(v) })} />
+        <NumberFilter label="Duración máx. (min)" value={filters.runtimeMax} min={0} max={10_000} placeholder="150"
+          onCommit={(v) => onChange({ runtimeMax: whole(v) })} />
+      </div>
+      <div className="mt-1 flex items-center justify-between gap-2 min-h-8">
+        <span className="text-xs text-red-600">{error}</span>
+        {hasRangeFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ yearFrom: null, yearTo: null, minImdbRating: null, runtimeMin: null, runtimeMax: null })}
+          >
+            Limpiar filtros
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { formatScore } from "@/lib/ratings";
+import type { MovieRatingSummaryDto } from "@/lib/ratings";
+import StarPicker from "@/components/StarPicker";
+
+/* Fila de la comparación: etiqueta, barra sobre 5 y valor */
+function CompareRow({ label, value, detail }: { label: string; value: number | null; detail?: string }) {
+  return (
+    <div className="grid grid-cols-[7rem_1fr_4.5rem] items-center gap-2 text-xs">
+      <span className="text-gray-600">{label}</span>
+      <div className="h-2 rounded bg-gray-100">
+        {value !== null && <div className="h-2 rounded bg-gray-500" style={{ width: `${(value / 5) * 100}%` }} />}
+      </div>
+      <span className="text-right tabular-nums">{value === null ? "—" : detail ?? `${formatScore(value)}/5`}</span>
+    </div>
+  );
+}
+
+/**
+ * Resumen de las calificaciones de la comunidad: promedio, mediana y puntaje ponderado,
+ * histograma por estrellas y comparación de mi calificación con la comunidad y con IMDb
+ * (el rating de IMDb va de 1 a 10: se compara dividido por 2).
+ * @param summary Resumen de la película (GET /ratings/movie/:id/summary).
+ * @param imdbRating Rating de IMDb (sobre 10), si lo tiene.
+ * @param myScore Mi calificación guardada (null si no la califiqué o no hay sesión).
+ */
+export default function RatingSummary({
+  summary,
+  imdbRating,
+  myScore,
+}: {
+  summary: MovieRatingSummaryDto;
+  imdbRating?: number | null;
+  myScore: number | null;
+}) {
+  const max = Math.max(...summary.distribution.map((b) => b.count), 1); // barra más larga
+  const buckets = [...summary.distribution].sort((a, b) => b.stars - a.stars); // 5 arriba
+  const community = summary.count > 0 ? summary.average : null;
+  const imdb = imdbRating ? imdbRating / 2 : null;
+
+  // diferencia de mi calificación con la comunidad (medio punto o más se menciona)
+  const diff = myScore !== null && community !== null ? myScore - community : null;
+  const diffText =
+    diff === null
+      ? null
+      : Math.abs(diff) < 0.5
+        ? "Coincidís con la comunidad."
+        : `Le diste ${formatScore(Math.abs(diff))} ${diff > 0 ? "más" : "menos"} que el promedio de la comunidad.`;
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-[auto_1fr]">
+      {/* Promedio */}
+      <div className="text-center sm:pr-4 sm:border-r">
+        <div className="text-4xl font-semibold">{community === null ? "—" : formatScore(community)}</div>
+        <div className="mt-1 flex justify-center">
+          <StarPicker value={community ?? 0} readOnly size={16} />
+        </div>
+        <div className="mt-1 text-xs text-gray-500">
+          {summary.count} voto{summary.count === 1 ? "" : "s"}
+        </div>
+        {summary.median != null && (
+          <div className="text-xs text-gray-500">Mediana {formatScore(summary.median)}</div>
+        )}
+        {summary.weightedScore != null && (
+          <div
+            className="text-xs text-gray-500"
+            title="Promedio ponderado: con pocos votos se acerca al promedio general del catálogo"
+          >
+            Ponderado {formatScore(summary.weightedScore)}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {/* Histograma */}
+        <div className="space-y-1" aria-label="Distribución de calificaciones">
+          {buckets.map((b) => (
+            <div key={b.stars} className="grid grid-cols-[2.5rem_1fr_2rem] items-center gap-2 text-xs">
+              <span className="text-gray-600">{b.stars} ★</span>
+              <div className="h-2.5 rounded bg-gray-100">
+                <div className="h-2.5 rounded bg-yellow-500" style={{ width: `${(b.count / max) * 100}%` }} />
+              </div>
+              <span className="text-right tabular-nums text-gray-600">{b.count}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Comparación */}
+        <div className="space-y-1">
+          <CompareRow label="Mi calificación" value={myScore} />
+          <CompareRow label="Comunidad" value={community} />
+          <CompareRow label="IMDb" value={imdb} detail={imdbRating ? `${formatScore(imdbRating)}/10` : undefined} />
+          {diffText && <div className="pt-1 text-xs text-gray-600">{diffText}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/auth";
+import { AuthApi } from "@/lib/auth";
+import { TokenStore } from "@/lib/tokens";
+import { setReloginHandler } from "@/lib/axios";
+import { SessionChannel } from "@/lib/session-channel";
+import { errorMessage } from "@/lib/api-error";
+
+// Esquema de validación con Zod
+const schema = z.object({
+  password: z.string().min(4, "Mínimo 4 caracteres"),
+});
+type FormData = z.infer<typeof schema>;
+
+/**
+ * Diálogo de re-login.
+ * Se abre cuando la sesión venció y no se pudo renovar con el refresh token.
+ * No navega ni recarga: la pantalla actual (y lo que el usuario estaba escribiendo) queda intacta,
+ * y las requests que fallaron se reenvían al volver a ingresar.
+ */
+export default function ReloginDialog() {
+  const { user } = useAuth(); // usuario de la sesión vencida
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resolver = useRef<((ok: boolean) => void) | null>(null); // resuelve la espera del interceptor
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: "" },
+  });
+
+  // registra el handler que usa el interceptor de axios
+  useEffect(
+    () =>
+      setReloginHandler(() => {
+        if (!user) return Promise.resolve(false); // sin sesión previa (ej. al iniciar) no hay nada que preservar
+        form.reset();
+        setError(null);
+        setOpen(true);
+        return new Promise<boolean>((resolve) => {
+          resolver.current = resolve;
+        });
+      }),
+    [user, form]
+  );
+
+  // si se volvió a ingresar con el mismo usuario en otra pestaña, el token nuevo ya está guardado
+  useEffect(
+    () =>
+      SessionChannel.subscribe((e) => {
+        if (e.type !== "login" || !resolver.current || e.userId !== user?.id) return;
+        resolver.current(true);
+        resolver.current = null;
+        setOpen(false);
+      }),
+    [user]
+  );
+
+  /* Cierra el diálogo y libera las requests en espera */
+  function finish(ok: boolean) {
+    resolver.current?.(ok);
+    resolver.current = null;
+    setOpen(false);
+  }
+
+  /* Vuelve a ingresar con el mismo usuario */
+  async function onSubmit(values: FormData) {
+    if (!user) return;
+    try {
+      const data = await AuthApi.login(user.username, values.password);
+      TokenStore.set(data);
+      SessionChannel.post({ type: "login", userId: user.id });
+      finish(true);
+    } catch (e) {
+      setError(errorMessage(e, "No se pudo iniciar sesión"));
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && finish(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tu sesión expiró</DialogTitle>
+          <DialogDescription>
+            Ingresá tu contraseña para continuar como <b>{user?.username}</b>. No vas a perder lo que
+            estabas haciendo.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contraseña</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => finish(false)}>
+                Cerrar sesión
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Ingresando..." : "Continuar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useId, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import Markdown from "@/components/Markdown";
+
+const MAX_COMMENT_LENGTH = 1024; // igual que RatingService.MaxCommentLength
+
+/**
+ * Comentario de una reseña: pestañas "Escribir" y "Vista previa" (el markdown renderizado como se va a ver)
+ * y la marca "Contiene spoilers".
+ * @param comment Texto en markdown.
+ * @param onCommentChange Cambio del texto.
+ * @param containsSpoilers Si la reseña cuenta detalles de la trama.
+ * @param onContainsSpoilersChange Cambio de la marca de spoilers.
+ * @param rows Alto del área de texto.
+ * @param placeholder Texto de ayuda del área de texto.
+ */
+export default function ReviewEditor({
+  comment,
+  onCommentChange,
+  containsSpoilers,
+  onContainsSpoilersChange,
+  rows = 3,
+  placeholder,
+}: {
+  comment: string;
+  onCommentChange: (v: string) => void;
+  containsSpoilers: boolean;
+  onContainsSpoilersChange: (v: boolean) => void;
+  rows?: number;
+  placeholder?: string;
+}) {
+  const [tab, setTab] = useState<"write" | "preview">("write");
+  const id = useId();
+
+  const tabClass = (active: boolean) =>
+    `rounded-sm px-2 py-1 text-xs outline-none focus-visible:ring-2 focus-visible:ring-yellow-400 ${
+      active ? "bg-gray-100 font-medium text-gray-900" : "text-gray-500 hover:text-gray-900"
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div role="tablist" aria-label="Comentario" className="flex gap-1">
+        <button
+          type="button"
+          role="tab"
+          id={`${id}-write-tab`}
+          aria-selected={tab === "write"}
+          aria-controls={`${id}-write`}
+          className={tabClass(tab === "write")}
+          onClick={() => setTab("write")}
+        >
+          Escribir
+        </button>
+        <button
+          type="button"
+          role="tab"
+          id={`${id}-preview-tab`}
+          aria-selected={tab === "preview"}
+          aria-controls={`${id}-preview`}
+          className={tabClass(tab === "preview")}
+          onClick={() => setTab("preview")}
+        >
+          Vista previa
+        </button>
+      </div>
+
+      {tab === "write" ? (
+        <div id={`${id}-write`} role="tabpanel" aria-labelledby={`${id}-write-tab`} className="space-y-1">
+          <Textarea
+            placeholder={placeholder}
+            value={comment}
+            onChange={(e) => onCommentChange(e.target.value)}
+            rows={rows}
+            maxLength={MAX_COMMENT_LENGTH}
+          />
+          <div className="flex justify-between gap-2 text-xs text-gray-500">
+            <span>
+              **negrita**, *cursiva*, listas (- ítem), citas (&gt; texto), [enlaces](https://…) y ||spoilers||
+            </span>
+            <span className="tabular-nums">
+              {comment.length}/{MAX_COMMENT_LENGTH}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div
+          id={`${id}-preview`}
+          role="tabpanel"
+          aria-labelledby={`${id}-preview-tab`}
+          className="min-h-[5rem] rounded-md border px-3 py-2"
+        >
+          {comment.trim() ? (
+            <Markdown source={comment} className="text-sm text-gray-700" />
+          ) : (
+            <div className="text-sm text-gray-400">Nada para previsualizar.</div>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={containsSpoilers}
+          onChange={(e) => onContainsSpoilersChange(e.target.checked)}
+        />
+        Contiene spoilers
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useId, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Input } from "@/components/ui/input";
+import { MoviesApi } from "@/lib/movies";
+import type { SuggestionsDto } from "@/lib/movies";
+import { ROLE_LABELS, personPath } from "@/lib/people";
+import { isCanceled } from "@/lib/axios";
+import { useLatest } from "@/lib/latest";
+import Highlight from "@/components/Highlight";
+import { Search, User } from "lucide-react";
+
+/* Espera entre teclas antes de pedir sugerencias (menor que el debounce de la búsqueda) */
+const SUGGEST_DELAY = 150;
+
+/* Opción navegable del listado: película o persona */
+type Option = { id: string; to: string; label: string };
+
+/**
+ * Buscador con sugerencias (combobox ARIA).
+ * Mientras se escribe muestra películas (póster, año, tipo) y personas del catálogo;
+ * flechas para recorrer, Enter para ir a la opción marcada (o buscar si no hay ninguna), Escape para cerrar.
+ * @param value Texto del buscador.
+ * @param suggestFor Texto para las sugerencias, si no es el texto completo (ej. sin los campos del lenguaje de búsqueda).
+ * @param onChange Cambio del texto.
+ * @param onSubmit Enter sin opción marcada (búsqueda normal).
+ * @param placeholder Texto de ayuda del input.
+ */
+export default function SearchCombobox({
+  value,
+  suggestFor,
+  onChange,
+  onSubmit,
+  placeholder,
+}: {
+  value: string;
+  suggestFor?: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+}) {
+  const navigate = useNavigate();
+  const listId = useId();
+  const latest = useLatest();
+  const [suggestions, setSuggestions] = useState<SuggestionsDto | null>(null);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1); // opción marcada con el teclado (-1 = ninguna)
+
+  const text = (suggestFor ?? value).trim();
+
+  // sugerencias del texto actual (la última gana)
+  useEffect(() => {
+    setActive(-1);
+    if (text.length < 2) {
+      latest.cancel();
+      setSuggestions(null);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      latest
+        .run((signal) => MoviesApi.suggest(text, 6, { signal, retry: false }))
+        .then(setSuggestions)
+        .catch((e) => {
+          if (!isCanceled(e)) setSuggestions(null); // las sugerencias son opcionales: sin aviso
+        });
+    }, SUGGEST_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [text, latest]);
+
+  const movies = suggestions?.movies ?? [];
+  const people = suggestions?.people ?? [];
+  const options: Option[] = [
+    ...movies.map((m) => ({ id: `${listId}-m-${m.imdbId}`, to: `/movies/${m.imdbId}`, label: m.title })),
+    ...people.map((p) => ({ id: `${listId}-p-${p.name}`, to: personPath(p.name), label: p.name })),
+  ];
+  const expanded = open && options.length > 0;
+
+  function go(option: Option) {
+    setOpen(false);
+    navigate(option.to);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setOpen(true);
+        if (options.length) setActive((i) => (i + 1) % options.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setOpen(true);
+        if (options.length) setActive((i) => (i <= 0 ? options.length - 1 : i - 1));
+        break;
+      case "Enter":
+        if (expanded && active >= 0 && options[active]) {
+          e.preventDefault();
+          go(options[active]);
+        } else {
+          setOpen(false);
+          onSubmit();
+        }
+        break;
+      case "Escape":
+        if (expanded) {
+          e.preventDefault();
+          setOpen(false);
+          setActive(-1);
+        }
+        break;
+    }
+  }
+
+  /* Props comunes de cada opción (índice dentro de `options`) */
+  const optionProps = (index: number) => ({
+    id: options[index].id,
+    role: "option" as const,
+    "aria-selected": index === active,
+    onMouseEnter: () => setActive(index),
+    onMouseDown: (e: React.MouseEvent) => e.preventDefault(), // no sacar el foco del input
+    onClick: () => go(options[index]),
+    className: `flex items-center gap-3 px-3 py-2 cursor-pointer ${index === active ? "bg-gray-100" : ""}`,
+  });
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded && active >= 0 ? options[active]?.id : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className="pl-10"
+      />
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+
+      <ul
+        id={listId}
+        role="listbox"
+        aria-label="Sugerencias"
+        hidden={!expanded}
+        className="absolute z-30 mt-1 w-full overflow-hidden rounded-md border bg-white text-sm shadow-lg"
+      >
+        {movies.length > 0 && (
+          <li role="presentation" className="px-3 pt-2 pb-1 text-xs text-gray-400">
+            Películas y series
+          </li>
+        )}
+        {movies.map((m, i) => (
+          <li key={m.imdbId} {...optionProps(i)}>
+            {m.poster && m.poster !== "N/A" ? (
+              <img src={m.poster} alt="" className="h-12 w-8 flex-none rounded object-cover" />
+            ) : (
+              <div className="h-12 w-8 flex-none rounded bg-gray-100" />
+            )}
+            <div className="min-w-0">
+              <div className="truncate font-medium">
+                <Highlight text={m.title} query={text} />
+              </div>
+              <div className="text-xs text-gray-500">
+                {m.year ?? "—"} · {m.type === "series" ? "Serie" : "Película"}
+              </div>
+            </div>
+          </li>
+        ))}
+
+        {people.length > 0 && (
+          <li role="presentation" className="px-3 pt-2 pb-1 text-xs text-gray-400">
+            Personas
+          </li>
+        )}
+        {people.map((p, i) => (
+          <li key={p.name} {...optionProps(movies.length + i)}>
+            <div className="flex h-8 w-8 flex-none items-center justify-center rounded-full bg-gray-100">
+              <User className="h-4 w-4 text-gray-500" />
+            </div>
+            <div className="min-w-0">
+              <div className="truncate font-medium">
+                <Highlight text={p.name} query={text} />
+              </div>
+              <div className="text-xs text-gray-500">
+                {p.roles.map((r) => ROLE_LABELS[r]).join(", ")} · {p.movieCount} título{p.movieCount === 1 ? "" : "s"}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
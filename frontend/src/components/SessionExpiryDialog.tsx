@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/context/auth";
+import { refreshSession } from "@/lib/axios";
+import { Activity } from "@/lib/activity";
+import { toast } from "sonner";
+
+const WARNING_MS = 2 * 60_000; // el aviso aparece 2 minutos antes del vencimiento
+
+/* Formatea milisegundos como m:ss */
+function formatRemaining(ms: number) {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Aviso previo al vencimiento de la sesión.
+ * - Si el usuario interactuó hace poco, renueva el token en silencio (no interrumpe a quien está usando la app).
+ * - Si está inactivo, muestra una cuenta regresiva con la opción de seguir conectado.
+ * Si el aviso queda sin respuesta, AuthProvider cierra la sesión al vencer el token (mientras está abierto
+ * no se registra actividad, así que sólo "Seguir conectado" la extiende).
+ */
+export default function SessionExpiryDialog() {
+  const { user, expiresAt, logout } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now()); // reloj de la cuenta regresiva
+  const [extending, setExtending] = useState(false);
+
+  // programa el aviso para cada token nuevo
+  useEffect(() => {
+    setOpen(false);
+    if (!user || !expiresAt) return;
+    const timer = setTimeout(() => {
+      if (Activity.isRecent()) {
+        void refreshSession(); // en uso: se renueva sin preguntar
+        return;
+      }
+      setNow(Date.now());
+      setOpen(true);
+    }, Math.max(0, expiresAt - WARNING_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [user, expiresAt]);
+
+  // cuenta regresiva mientras el aviso está abierto
+  useEffect(() => {
+    if (!open) return;
+    Activity.setPaused(true);
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(id);
+      Activity.setPaused(false);
+    };
+  }, [open]);
+
+  /* Renueva el token; el nuevo vencimiento cierra el aviso y reprograma los timers */
+  async function staySignedIn() {
+    setExtending(true);
+    const ok = await refreshSession();
+    setExtending(false);
+    if (!ok) {
+      toast.error("No se pudo extender la sesión");
+      return;
+    }
+    setOpen(false);
+  }
+
+  if (!user || !expiresAt) return null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Tu sesión está por expirar</AlertDialogTitle>
+          <AlertDialogDescription>
+            Por seguridad, la sesión se cerrará en{" "}
+            <b className="tabular-nums">{formatRemaining(Math.max(0, expiresAt - now))}</b>. ¿Querés
+            seguir conectado?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logout}>Cerrar sesión</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={extending}
+            onClick={(e) => {
+              e.preventDefault(); // el diálogo se cierra recién si la renovación funcionó
+              void staySignedIn();
+            }}
+          >
+            {extending ? "Renovando..." : "Seguir conectado"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,52 +1,201 @@
-import { useMemo } from "react";
+import { useMemo, useRef, useState } from "react";
+import type { KeyboardEvent, MouseEvent, PointerEvent } from "react";
+import { formatScore } from "@/lib/ratings";
+import { X } from "lucide-react";
 
-/** * Componente para seleccionar una calificación en estrellas.
- * @param value Calificación actual.
- * @param onChange Función llamada al cambiar la calificación.
+const STAR_PATH =
+  "M11.48 3.499a.562.562 0 011.04 0l2.08 4.216a.563.563 0 00.424.308l4.652.675c.497.072.696.684.336 1.034l-3.366 3.28a.563.563 0 00-.162.498l.794 4.624a.562.562 0 01-.815.592l-4.15-2.18a.562.562 0 00-.524 0l-4.15 2.18a.562.562 0 01-.815-.592l.794-4.624a.563.563 0 00-.162-.498L3.99 9.732a.563.563 0 01.336-1.034l4.652-.675a.563.563 0 00.424-.308l2.08-4.216z";
+
+/* Estrella con una parte rellena (fill de 0 a 1): contorno gris y, encima, la estrella llena recortada */
+function StarIcon({ fill, size }: { fill: number; size: number }) {
+  return (
+    <span className="relative block" style={{ width: size, height: size }}>
+      <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-gray-400">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d={STAR_PATH} />
+      </svg>
+      {fill > 0 && (
+        <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+          <svg width={size} height={size} viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" className="text-yellow-500">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d={STAR_PATH} />
+          </svg>
+        </span>
+      )}
+    </span>
+  );
+}
+
+/* "1 estrella", "3,5 estrellas" */
+const starsLabel = (n: number) => `${formatScore(n)} estrella${n === 1 ? "" : "s"}`;
+
+/**
+ * Calificación en estrellas.
+ * Editable es un grupo de radios: flechas para subir o bajar, Inicio/Fin para el mínimo y el máximo,
+ * Suprimir para quitar (si `clearable`); al pasar el mouse o deslizar el dedo se previsualiza el valor.
+ * Con `readOnly` sólo muestra el valor (admite fracciones, ej. un promedio) y se lee como imagen.
+ * @param value Calificación actual (0 = sin calificar).
+ * @param onChange Función llamada al cambiar la calificación (no hace falta con readOnly).
  * @param max Número máximo de estrellas (por defecto 5).
  * @param size Tamaño de las estrellas en píxeles (por defecto 24).
+ * @param allowHalf Permite medias estrellas (la mínima sigue siendo 1).
+ * @param clearable Muestra un botón para quitar la calificación (vuelve a 0).
+ * @param readOnly Sólo lectura.
+ * @param label Nombre accesible del grupo (por defecto "Calificación").
  */
 export default function StarPicker({
   value,
   onChange,
   max = 5,
   size = 24,
+  allowHalf = false,
+  clearable = false,
+  readOnly = false,
+  label = "Calificación",
 }: {
   value: number;
-  onChange: (v: number) => void;
+  onChange?: (v: number) => void;
   max?: number;
   size?: number;
+  allowHalf?: boolean;
+  clearable?: boolean;
+  readOnly?: boolean;
+  label?: string;
 }) {
+  const step = allowHalf ? 0.5 : 1;
   const stars = useMemo(() => Array.from({ length: max }, (_, i) => i + 1), [max]); // Array [1, 2, ..., max]
+  const options = useMemo(
+    () => Array.from({ length: (max - 1) / step + 1 }, (_, i) => 1 + i * step),
+    [max, step]
+  ); // valores posibles: 1, (1.5,) 2, ..., max
+  const [hover, setHover] = useState<number | null>(null); // previsualización (mouse o dedo)
+  const starRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const optionRefs = useRef(new Map<number, HTMLButtonElement>());
+
+  if (readOnly) {
+    return (
+      <div className="flex items-center gap-0.5" role="img" aria-label={`${starsLabel(value)} de ${max}`}>
+        {stars.map((n) => (
+          <StarIcon key={n} fill={Math.min(Math.max(value - (n - 1), 0), 1)} size={size} />
+        ))}
+      </div>
+    );
+  }
+
+  const shown = hover ?? value;
+  const tabbable = options.includes(value) ? value : options[0]; // foco con Tab: la opción marcada (o la primera)
+
+  /* Valor bajo el puntero: la estrella que lo contiene (y su mitad, con medias estrellas) */
+  function valueAt(x: number) {
+    for (const n of stars) {
+      const rect = starRefs.current[n - 1]?.getBoundingClientRect();
+      if (!rect) continue;
+      if (x < rect.right || n === max) {
+        const half = allowHalf && x < rect.left + rect.width / 2;
+        return Math.max(half ? n - 0.5 : n, 1);
+      }
+    }
+    return 1;
+  }
+
+  function select(v: number) {
+    onChange?.(v);
+    optionRefs.current.get(v)?.focus();
+  }
+
+  /* Teclado del grupo de radios */
+  function onKeyDown(e: KeyboardEvent<HTMLButtonElement>) {
+    const current = options.includes(value) ? value : 0;
+    let next: number | null = null;
+    switch (e.key) {
+      case "ArrowRight":
+      case "ArrowUp":
+        next = Math.min(Math.max(current + step, 1), max);
+        break;
+      case "ArrowLeft":
+      case "ArrowDown":
+        next = Math.max(current - step, 1);
+        break;
+      case "Home":
+        next = 1;
+        break;
+      case "End":
+        next = max;
+        break;
+      case "Delete":
+      case "Backspace":
+        if (clearable) onChange?.(0);
+        e.preventDefault();
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    select(next);
+  }
+
+  /* Click: con mouse o dedo toma la posición (el dedo pudo deslizarse); con teclado, la opción enfocada */
+  function onOptionClick(e: MouseEvent<HTMLButtonElement>, option: number) {
+    const fromPointer = e.detail > 0 && (e.clientX !== 0 || e.clientY !== 0);
+    select(fromPointer ? valueAt(e.clientX) : option);
+  }
+
+  /* Al soltar el dedo se confirma lo previsualizado (deslizar no siempre genera click) */
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    if (e.pointerType === "mouse") return;
+    select(valueAt(e.clientX));
+    setHover(null);
+  }
 
   return (
-    <div className="flex items-center gap-1">
-      {stars.map((n) => (
+    <div className="flex items-center gap-2">
+      <div
+        role="radiogroup"
+        aria-label={label}
+        className="flex touch-none items-center gap-1"
+        onPointerMove={(e) => setHover(valueAt(e.clientX))}
+        onPointerLeave={() => setHover(null)}
+        onPointerCancel={() => setHover(null)}
+        onPointerUp={onPointerUp}
+      >
+        {stars.map((n) => {
+          const halves = allowHalf && n > 1 ? [n - 0.5, n] : [n]; // la primera estrella es entera (mínimo 1)
+          return (
+            <span key={n} ref={(el) => void (starRefs.current[n - 1] = el)} className="relative">
+              <StarIcon fill={Math.min(Math.max(shown - (n - 1), 0), 1)} size={size} />
+              {halves.map((option, i) => (
+                <button
+                  key={option}
+                  ref={(el) => {
+                    if (el) optionRefs.current.set(option, el);
+                    else optionRefs.current.delete(option);
+                  }}
+                  type="button"
+                  role="radio"
+                  aria-checked={option === value}
+                  aria-label={starsLabel(option)}
+                  title={starsLabel(option)}
+                  tabIndex={option === tabbable ? 0 : -1}
+                  onClick={(e) => onOptionClick(e, option)}
+                  onKeyDown={onKeyDown}
+                  className={`absolute inset-y-0 rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-yellow-400 ${
+                    halves.length === 1 ? "inset-x-0" : i === 0 ? "left-0 w-1/2" : "right-0 w-1/2"
+                  }`}
+                />
+              ))}
+            </span>
+          );
+        })}
+      </div>
+      {clearable && value > 0 && (
         <button
-          key={n}
           type="button"
-          onClick={() => onChange(n)}
-          className="p-0"
-          aria-label={`Rate ${n}`}
-          title={`${n} estrella${n > 1 ? "s" : ""}`}
+          onClick={() => onChange?.(0)}
+          className="rounded-sm p-0.5 text-gray-400 outline-none hover:text-gray-700 focus-visible:ring-2 focus-visible:ring-yellow-400"
+          aria-label="Quitar calificación"
+          title="Quitar calificación"
         >
-          <svg
-            width={size}
-            height={size}
-            viewBox="0 0 24 24"
-            fill={n <= value ? "currentColor" : "none"}
-            stroke="currentColor"
-            className={n <= value ? "text-yellow-500" : "text-gray-400"}
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="1.5"
-              d="M11.48 3.499a.562.562 0 011.04 0l2.08 4.216a.563.563 0 00.424.308l4.652.675c.497.072.696.684.336 1.034l-3.366 3.28a.563.563 0 00-.162.498l.794 4.624a.562.562 0 01-.815.592l-4.15-2.18a.562.562 0 00-.524 0l-4.15 2.18a.562.562 0 01-.815-.592l.794-4.624a.563.563 0 00-.162-.498L3.99 9.732a.563.563 0 01.336-1.034l4.652-.675a.563.563 0 00.424-.308l2.08-4.216z"
-            />
-          </svg>
+          <X className="h-4 w-4" />
         </button>
-      ))}
+      )}
     </div>
   );
 }
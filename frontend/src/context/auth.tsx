@@ -1,5 +1,12 @@
 import { createContext, useContext, useEffect, useState } from "react";
-import { api } from "@/lib/axios";
+import { AuthApi } from "@/lib/auth";
+import { UsersApi } from "@/lib/users";
+import { clearQueries, invalidateQueries } from "@/lib/query";
+import { ratingKeys } from "@/lib/ratings";
+import { TokenStore } from "@/lib/tokens";
+import { onSessionExpired, refreshSession } from "@/lib/axios";
+import { Activity } from "@/lib/activity";
+import { SessionChannel } from "@/lib/session-channel";
 import { toast } from "sonner";
 
 /** Tipo que representa al usuario autenticado o null si no hay sesión */
@@ -15,14 +22,15 @@ type User = {
 type AuthContextType = {
   user: User;
   loading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<void>; // rechaza con ApiError si falla
   register: (
     username: string,
     fullname: string,
     password: string
-  ) => Promise<boolean>;
+  ) => Promise<void>; // rechaza con ApiError si falla (los formularios muestran los errores por campo)
   logout: () => void;
   refreshMe: () => Promise<void>;
+  expiresAt: number | null; // vencimiento del token actual (ms desde epoch)
   firstUser: boolean | null;
   bootLoading: boolean;
 };
@@ -35,11 +43,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User>(null);
   const [loading, setLoading] = useState(true);
   const [firstUser, setFirstUser] = useState<boolean | null>(null); // null = no checkeado aún
+  const [expiresAt, setExpiresAt] = useState<number | null>(() => TokenStore.getExpiresAt());
+
+  // el vencimiento se recalcula con cada token nuevo (login, refresh, otra pestaña)
+  useEffect(() => TokenStore.subscribe(() => setExpiresAt(TokenStore.getExpiresAt())), []);
+
+  // al vencer el access token: con actividad reciente se renueva con el refresh token (sin esperar un 401);
+  // si el usuario está inactivo (o ignoró el aviso de SessionExpiryDialog) la sesión se cierra
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      if (!Activity.isRecent()) {
+        endSession(); // cierre por inactividad: también se revoca el refresh token
+        toast.info("Cerramos tu sesión por inactividad. Ingresá nuevamente.");
+        return;
+      }
+      if ((await refreshSession()) || cancelled) return;
+      endSession(false); // el refresh token ya no es válido: no hay nada que revocar
+      toast.info("Tu sesión expiró. Ingresá nuevamente.");
+    }, Math.max(0, expiresAt - Date.now()));
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, expiresAt]);
 
   async function checkFirstUser() {
     try {
-      const { data } = await api.get<{ exists: boolean }>("/users/exists");
-      setFirstUser(!data.exists); // true si NO hay usuarios
+      const exists = await UsersApi.exists();
+      setFirstUser(!exists); // true si NO hay usuarios
     } catch {
       setFirstUser(false); // si falla, asumimos que sí hay usuarios
     }
@@ -50,43 +83,82 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkFirstUser(); // consulta al montar el proveedor
   }, []);
 
-  async function fetchMe() {
-    setLoading(true);
-    const token = localStorage.getItem("token");
+  // no se pudo renovar la sesión ni re-ingresar desde el diálogo
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        clearQueries();
+        setUser(null);
+        SessionChannel.post({ type: "logout" }); // los tokens compartidos ya no sirven en ninguna pestaña
+        toast.info("Tu sesión expiró. Ingresá nuevamente.");
+      }),
+    []
+  );
+
+  // cambios de sesión hechos en otras pestañas (los tokens se comparten vía localStorage)
+  useEffect(
+    () =>
+      SessionChannel.subscribe((e) => {
+        switch (e.type) {
+          case "login":
+            clearQueries(); // pudo haber ingresado otro usuario
+            void fetchMe(true);
+            break;
+          case "logout":
+            clearQueries();
+            setUser(null); // los guards redirigen si la ruta requiere sesión
+            break;
+          case "profile":
+            void fetchMe(true);
+            void invalidateQueries(ratingKeys.all); // las reseñas muestran nombre y avatar
+            break;
+        }
+      }),
+    []
+  );
+
+  /**
+   * Carga el usuario de la sesión actual.
+   * @param silent true = no pasa por el estado de carga (no desmonta la pantalla actual)
+   */
+  async function fetchMe(silent = false) {
+    if (!silent) setLoading(true);
+    const token = TokenStore.getAccess();
     if (!token) {
       setUser(null);
       setLoading(false);
-      return; // no hay token, no hay sesión
+      return null; // no hay token, no hay sesión
     }
     try {
-      const { data } = await api.get("/auth/me"); // obtiene datos del usuario
+      const data = await AuthApi.me(); // obtiene datos del usuario
       setUser({
         id: data.id,
         username: data.username,
-        fullname: data.fullname ?? data.fullName ?? "", // soporte camelCase y PascalCase
+        fullname: data.fullName ?? "",
         role: data.role,
         avatarUrl: data.avatarUrl ?? null,
       }); // actualiza estado de usuario
+      return data;
     } catch {
       setUser(null); // si hay error, no hay sesión
+      return null;
     } finally {
       setLoading(false); // ya no está cargando
     }
   }
 
-  const refreshMe = () => fetchMe(); // función para refrescar datos del usuario
+  /* Refresca los datos del usuario y avisa a las otras pestañas */
+  async function refreshMe() {
+    await fetchMe();
+    SessionChannel.post({ type: "profile" });
+  }
 
   async function login(username: string, password: string) {
-    try {
-      const { data } = await api.post("/auth/login", { username, password });
-      localStorage.setItem("token", data.token);
-      await fetchMe();
-      return true;
-    } catch (e: any) {
-      const msg = e?.response?.data?.error ?? "No se pudo iniciar sesión";
-      toast.error(msg);
-      return false;
-    }
+    const data = await AuthApi.login(username, password);
+    TokenStore.set(data);
+    clearQueries(); // descarta datos cacheados de otra sesión
+    const me = await fetchMe();
+    if (me) SessionChannel.post({ type: "login", userId: me.id });
   } // función para iniciar sesión
 
   async function register(
@@ -94,21 +166,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     fullname: string,
     password: string
   ) {
-    try {
-      await api.post("/auth/register", { username, fullname, password });
-      toast.success("Cuenta creada");
-      setFirstUser(false);
-      return await login(username, password);
-    } catch (e: any) {
-      const msg = e?.response?.data?.error ?? "No se pudo registrar";
-      toast.error(msg);
-      return false;
-    }
+    await AuthApi.register(username, fullname, password);
+    setFirstUser(false);
+    await login(username, password);
   } // función para registrar usuario
 
-  function logout() {
-    localStorage.removeItem("token");
+  /**
+   * Cierra la sesión local y avisa a las otras pestañas.
+   * @param revoke true = también revoca el refresh token en el servidor (cierre de sesión pedido por el usuario)
+   */
+  function endSession(revoke = true) {
+    const refreshToken = TokenStore.getRefresh();
+    if (revoke && refreshToken) void AuthApi.logout(refreshToken).catch(() => undefined); // revoca en el servidor
+    TokenStore.clear();
+    clearQueries(); // descarta watchlist, calificaciones y resumen del usuario
     setUser(null);
+    SessionChannel.post({ type: "logout" });
+  }
+
+  function logout() {
+    endSession();
     toast.success("Sesión cerrada");
   } // función para cerrar sesión
 
@@ -123,6 +200,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         register,
         logout,
         refreshMe,
+        expiresAt,
         firstUser,
         bootLoading,
       }}
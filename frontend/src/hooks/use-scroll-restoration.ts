@@ -0,0 +1,35 @@
+import { useEffect, useLayoutEffect, useRef } from "react";
+import { useLocation } from "react-router-dom";
+
+/**
+ * Guarda la posición de scroll de la entrada actual del historial y la restaura al volver
+ * (ej. Home → detalle → atrás). La posición se guarda en sessionStorage por `location.key`.
+ * @param ready true cuando el contenido ya está renderizado (si no, no hay a dónde scrollear).
+ */
+export function useScrollRestoration(ready: boolean) {
+  const { key } = useLocation();
+  const storageKey = `scroll:${key}`;
+  const restored = useRef(false);
+
+  // guarda la posición mientras se scrollea (una vez por frame)
+  useEffect(() => {
+    let frame = 0;
+    const save = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => sessionStorage.setItem(storageKey, String(window.scrollY)));
+    };
+    window.addEventListener("scroll", save, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", save);
+      cancelAnimationFrame(frame);
+    };
+  }, [storageKey]);
+
+  // restaura una sola vez, antes de pintar, cuando el contenido está listo
+  useLayoutEffect(() => {
+    if (!ready || restored.current) return;
+    restored.current = true;
+    const y = Number(sessionStorage.getItem(storageKey));
+    if (y > 0) window.scrollTo(0, y);
+  }, [ready, storageKey]);
+}
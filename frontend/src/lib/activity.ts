@@ -0,0 +1,28 @@
+/** Sin interacción durante este tiempo = usuario inactivo */
+export const IDLE_MS = 5 * 60_000;
+
+let lastActivity = Date.now(); // última interacción (click, toque o tecla)
+let paused = false;
+
+if (typeof window !== "undefined") {
+  const mark = () => {
+    if (!paused) lastActivity = Date.now();
+  };
+  window.addEventListener("pointerdown", mark);
+  window.addEventListener("keydown", mark);
+}
+
+/** Actividad del usuario en esta pestaña (decide si la sesión se renueva sola o se cierra al vencer) */
+export const Activity = {
+  /** true si hubo interacción en los últimos `ms` */
+  isRecent(ms = IDLE_MS): boolean {
+    return Date.now() - lastActivity < ms;
+  },
+  /**
+   * Deja de registrar interacciones mientras `value` es true (aviso de vencimiento abierto: sólo cuenta
+   * la respuesta explícita, no un click suelto en el diálogo).
+   */
+  setPaused(value: boolean) {
+    paused = value;
+  },
+};
@@ -0,0 +1,137 @@
+import axios from "axios";
+import { toast } from "sonner";
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+
+/**
+ * Tipo de falla:
+ * - http: el servidor respondió con un estado de error
+ * - network: la request no llegó al servidor (sin conexión, servidor caído, CORS)
+ * - timeout: el servidor no respondió a tiempo
+ * - canceled: se abortó la request (AbortController); no es un error a mostrar
+ * - unknown: error que no vino de axios
+ */
+export type ApiErrorKind = "http" | "network" | "timeout" | "canceled" | "unknown";
+
+/* Cuerpos de error que devuelve el backend */
+type ErrorBody = { error?: string };
+type ProblemDetails = { title?: string; detail?: string; status?: number; errors?: Record<string, string[]> };
+
+/* "Username" → "username", "$.fullName" → "fullName" (ProblemDetails usa el nombre de la propiedad C# o el path JSON) */
+const fieldName = (key: string) => {
+  const name = key.replace(/^\$\.?/, "");
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+/**
+ * Error normalizado de la API: lo produce el interceptor de lib/axios.ts para toda request fallida.
+ * Entiende `{ error }` (controladores), ProblemDetails / ValidationProblemDetails (validación de ASP.NET),
+ * errores de red, timeouts y cancelaciones.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null; // estado HTTP (sólo kind "http")
+  readonly serverMessage: string | null; // mensaje legible enviado por el servidor
+  readonly fieldErrors: Record<string, string[]>; // errores por campo (camelCase, como los DTOs del frontend)
+  readonly data: unknown; // cuerpo crudo de la respuesta
+
+  constructor(
+    kind: ApiErrorKind,
+    init: { status?: number | null; serverMessage?: string | null; fieldErrors?: Record<string, string[]>; data?: unknown; cause?: unknown } = {}
+  ) {
+    super(init.serverMessage ?? kind, { cause: init.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = init.status ?? null;
+    this.serverMessage = init.serverMessage ?? null;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.data = init.data;
+  }
+
+  /** Convierte cualquier error (de axios o no) en ApiError; si ya lo es, lo devuelve igual */
+  static from(e: unknown): ApiError {
+    if (e instanceof ApiError) return e;
+    if (axios.isCancel(e)) return new ApiError("canceled", { cause: e });
+    if (!axios.isAxiosError(e)) return new ApiError("unknown", { cause: e });
+
+    if (!e.response) {
+      const timedOut = e.code === "ECONNABORTED" || e.code === "ETIMEDOUT";
+      return new ApiError(timedOut ? "timeout" : "network", { cause: e });
+    }
+
+    const data = e.response.data as unknown;
+    const fieldErrors: Record<string, string[]> = {};
+    let serverMessage: string | null = null;
+
+    if (typeof data === "string" && data.trim()) {
+      serverMessage = data; // algunos endpoints devuelven texto plano
+    } else if (data && typeof data === "object") {
+      const body = data as ErrorBody & ProblemDetails;
+      for (const [key, messages] of Object.entries(body.errors ?? {})) {
+        if (Array.isArray(messages) && messages.length) fieldErrors[fieldName(key)] = messages;
+      }
+      serverMessage =
+        body.error ?? body.detail ?? Object.values(fieldErrors)[0]?.[0] ?? (body.errors ? null : body.title ?? null);
+    }
+
+    return new ApiError("http", { status: e.response.status, serverMessage, fieldErrors, data, cause: e });
+  }
+
+  /** true si hay errores asociados a campos (ValidationProblemDetails) */
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /** Mensaje para mostrar al usuario; `fallback` describe la acción que falló */
+  describe(fallback: string): string {
+    switch (this.kind) {
+      case "network":
+        return "No se pudo conectar con el servidor. Revisá tu conexión.";
+      case "timeout":
+        return "El servidor tardó demasiado en responder. Probá de nuevo.";
+      case "http":
+        return this.status !== null && this.status >= 500
+          ? this.serverMessage ?? "Error del servidor. Probá de nuevo más tarde."
+          : this.serverMessage ?? fallback;
+      default:
+        return fallback;
+    }
+  }
+}
+
+/** Mensaje legible de cualquier error */
+export function errorMessage(e: unknown, fallback: string): string {
+  return ApiError.from(e).describe(fallback);
+}
+
+/**
+ * Toast de error uniforme para toda la app. Las cancelaciones se ignoran.
+ * El id evita apilar el mismo aviso cuando varias requests fallan a la vez (ej. sin conexión).
+ */
+export function toastError(e: unknown, fallback: string) {
+  const err = ApiError.from(e);
+  if (err.kind === "canceled") return;
+  const message = err.describe(fallback);
+  toast.error(message, { id: err.kind === "http" ? undefined : `api-${err.kind}` });
+}
+
+/**
+ * Muestra los errores de validación del servidor en los campos de un formulario de react-hook-form.
+ * Los errores que no corresponden a un campo del formulario (o los que no son de validación)
+ * se muestran con toastError.
+ * @returns true si se marcó al menos un campo.
+ */
+export function applyFormErrors<T extends FieldValues>(form: UseFormReturn<T>, e: unknown, fallback: string): boolean {
+  const err = ApiError.from(e);
+  const fields = Object.keys(form.getValues());
+  let applied = false;
+
+  for (const [name, messages] of Object.entries(err.fieldErrors)) {
+    const field = fields.find((f) => f.toLowerCase() === name.toLowerCase()); // ej. "fullName" del DTO → "fullname"
+    if (!field) continue;
+    form.setError(field as Path<T>, { type: "server", message: messages[0] }, { shouldFocus: !applied });
+    applied = true;
+  }
+
+  if (!applied) toastError(err, fallback);
+  return applied;
+}
@@ -0,0 +1,28 @@
+import { api } from "@/lib/axios";
+import type { Narrow, Schema } from "@/lib/schemas";
+
+/** Respuesta del login y del refresh (LoginResponse) */
+export type LoginResponse = Schema<"LoginResponse">;
+
+/** Datos del usuario autenticado (MeResponse) */
+export type MeResponse = Narrow<Schema<"MeResponse">, { role: "administrator" | "user" }>;
+
+/** API de autenticación */
+export const AuthApi = {
+  async login(username: string, password: string): Promise<LoginResponse> {
+    const { data } = await api.post<LoginResponse>("/auth/login", { username, password });
+    return data;
+  },
+  async register(username: string, fullName: string, password: string): Promise<MeResponse> {
+    const { data } = await api.post<MeResponse>("/auth/register", { username, fullName, password });
+    return data;
+  },
+  /** Revoca el refresh token en el servidor (cerrar sesión) */
+  async logout(refreshToken: string): Promise<void> {
+    await api.post("/auth/logout", { refreshToken });
+  },
+  async me(): Promise<MeResponse> {
+    const { data } = await api.get<MeResponse>("/auth/me");
+    return data;
+  },
+};
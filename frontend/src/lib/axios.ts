@@ -1,33 +1,236 @@
-import axios from "axios";
+import axios, { CanceledError } from "axios";
+import type { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from "axios";
+import { TokenStore } from "@/lib/tokens";
+import type { TokenPair } from "@/lib/tokens";
+import { withSessionLock } from "@/lib/session-channel";
+import { ApiError } from "@/lib/api-error";
 
+/** Aviso de reintento: se llama antes de esperar cada nuevo intento */
+export type RetryInfo = {
+  attempt: number; // número de reintento (1 = primer reintento)
+  maxAttempts: number;
+  delayMs: number; // espera antes del reintento
+};
 
-/** Instancia de Axios preconfigurada */
-export const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL ?? "http://localhost:5080/api",
-});
+/** Opciones por llamada aceptadas por los métodos del SDK */
+export type RequestOptions = {
+  signal?: AbortSignal; // permite cancelar la request (ver lib/latest.ts)
+  retry?: boolean; // false = no reintentar esta request aunque sea idempotente
+  onRetry?: (info: RetryInfo) => void; // para mostrar "Reintentando…"
+};
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    retry?: boolean; // ver RequestOptions
+    idempotent?: boolean; // true = PUT/DELETE que se puede reintentar sin efectos duplicados
+    onRetry?: (info: RetryInfo) => void;
+  }
+}
+
+/** true si el error proviene de una request cancelada (AbortController) */
+export function isCanceled(e: unknown): boolean {
+  return ApiError.from(e).kind === "canceled";
+}
+
+/** true si la request no llegó al servidor (sin conexión, servidor caído, timeout); no incluye cancelaciones */
+export function isNetworkError(e: unknown): boolean {
+  const { kind } = ApiError.from(e);
+  return kind === "network" || kind === "timeout";
+}
+
+const baseURL = import.meta.env.VITE_API_URL ?? "http://localhost:5080/api";
+
+/*
+ * Con VITE_MOCK_API=true las requests las atiende el mock backend en memoria (src/mocks).
+ * El import dinámico deja el mock fuera del bundle cuando la variable no está activa.
+ */
+const mockAdapter: AxiosAdapter | null =
+  import.meta.env.VITE_MOCK_API === "true"
+    ? (config) => import("@/mocks/adapter").then((m) => m.mockAdapter(config))
+    : null;
+const defaults = { baseURL, ...(mockAdapter ? { adapter: mockAdapter } : {}) };
+
+/** Instancia de Axios preconfigurada; sus errores llegan como ApiError (ver lib/api-error.ts) */
+export const api = axios.create({ ...defaults, timeout: 30_000 });
+
+/* Cliente sin interceptores: sólo para renovar la sesión (evita reentrar en el manejo de 401) */
+const bare = axios.create(defaults);
+
+/* Endpoints donde un 401 significa credenciales inválidas, no sesión vencida */
+const AUTH_PATHS = ["/auth/login", "/auth/register", "/auth/refresh", "/auth/logout"];
+const isAuthCall = (config?: InternalAxiosRequestConfig) =>
+  AUTH_PATHS.some((p) => config?.url?.startsWith(p));
 
+/** Muestra el diálogo de re-login; resuelve true si el usuario volvió a ingresar */
+export type ReloginHandler = () => Promise<boolean>;
 
-/* Request: agregar token si existe en localStorage */
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem("token");
+let reloginHandler: ReloginHandler | null = null;
+const expiredListeners = new Set<() => void>();
+
+/**
+ * Registra el diálogo de re-login (lo hace ReloginDialog al montarse).
+ * Devuelve la función para quitarlo.
+ */
+export function setReloginHandler(handler: ReloginHandler): () => void {
+  reloginHandler = handler;
+  return () => {
+    if (reloginHandler === handler) reloginHandler = null;
+  };
+}
+
+/** Se suscribe al fin de sesión (no se pudo renovar ni re-ingresar) */
+export function onSessionExpired(listener: () => void): () => void {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+}
+
+/**
+ * Renueva el access token con el refresh token guardado; true si se pudo.
+ * Serializado entre pestañas: si otra pestaña ya lo renovó mientras se esperaba el lock, se usa ese.
+ */
+export async function refreshSession(): Promise<boolean> {
+  const seen = TokenStore.getRefresh();
+  return withSessionLock(async () => {
+    const refreshToken = TokenStore.getRefresh();
+    if (!refreshToken) return false;
+    if (refreshToken !== seen) return true; // renovado por otra pestaña
+    try {
+      const { data } = await bare.post<TokenPair>("/auth/refresh", { refreshToken });
+      TokenStore.set(data);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/* Renovación en curso: todas las requests que reciben 401 mientras tanto esperan esta misma promesa */
+let renewing: Promise<boolean> | null = null;
+
+function renewSession(): Promise<boolean> {
+  renewing ??= (async () => {
+    if (await refreshSession()) return true;
+    // el refresh falló: re-login en un diálogo, sin salir de la pantalla actual
+    if (reloginHandler && (await reloginHandler())) return true;
+    TokenStore.clear();
+    expiredListeners.forEach((l) => l());
+    return false;
+  })().finally(() => {
+    renewing = null;
+  });
+  return renewing;
+}
+
+/* Request: esperar una renovación en curso y agregar el token si existe */
+api.interceptors.request.use(async (config) => {
+  if (renewing && !isAuthCall(config)) await renewing;
+  const token = TokenStore.getAccess();
   if (token) config.headers.Authorization = `Bearer ${token}`;
   return config;
 });
 
-/* Response: manejar 401 globalmente */
+/* Marca para reintentar una request una sola vez */
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/* Response: ante un 401 con sesión, renovar el token y reenviar la request */
 api.interceptors.response.use(
   (res) => res,
-  (err) => {
-    const status = err?.response?.status;
-    const hadToken = !!localStorage.getItem("token");
-    const path = window.location.pathname;
-
-    if (status === 401 && hadToken && path !== "/login" && path !== "/register") {
-      localStorage.removeItem("token");
-      // opcional: toast acá si querés
-      setTimeout(() => { window.location.href = "/login"; }, 300);
+  async (err: AxiosError) => {
+    const config = err.config as RetriableConfig | undefined;
+    const hadToken = !!TokenStore.getAccess();
+
+    if (err.response?.status !== 401 || !config || config._retried || !hadToken || isAuthCall(config)) {
+      return Promise.reject(err);
     }
-    return Promise.reject(err);
+
+    config._retried = true;
+    // si otra request ya renovó el token mientras ésta viajaba, alcanza con reenviarla
+    const sentWith = String(config.headers.Authorization ?? "");
+    if (sentWith === `Bearer ${TokenStore.getAccess()}` && !(await renewSession())) return Promise.reject(err);
+    return api(config); // el interceptor de request agrega el token nuevo
+  }
+);
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 400;
+const MAX_DELAY_MS = 10_000;
+
+/* Estado de reintentos de la request (el mismo config se reenvía en cada intento) */
+type RetryConfig = InternalAxiosRequestConfig & { _retryCount?: number };
+
+/* GET/HEAD/OPTIONS siempre; PUT/DELETE sólo si la llamada se declaró idempotente */
+function canRetry(config: RetryConfig) {
+  if (config.retry === false) return false;
+  const method = (config.method ?? "get").toLowerCase();
+  if (["get", "head", "options"].includes(method)) return true;
+  return !!config.idempotent && (method === "put" || method === "delete");
+}
+
+/* Fallas transitorias: sin respuesta (red, timeout), 5xx o 429 */
+function isTransient(err: AxiosError) {
+  if (err.code === "ERR_CANCELED") return false;
+  if (!err.response && typeof navigator !== "undefined" && !navigator.onLine) return false; // sin conexión: no tiene sentido insistir
+  const status = err.response?.status;
+  return status === undefined || status >= 500 || status === 429;
+}
+
+/* Espera pedida por el servidor en Retry-After (segundos o fecha HTTP), en ms */
+function retryAfterMs(err: AxiosError): number | null {
+  const header = err.response?.headers?.["retry-after"] as string | undefined;
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/* Backoff exponencial con jitter: entre la mitad y el total de BASE·2^(n-1), con tope */
+const backoffMs = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+/* Espera cancelable con la misma señal de la request */
+function wait(ms: number, config: RetryConfig) {
+  const signal = config.signal as AbortSignal | undefined;
+  return new Promise<void>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      const canceled = new CanceledError();
+      canceled.config = config;
+      reject(canceled);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancel);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancel();
+    else signal?.addEventListener("abort", cancel, { once: true });
+  });
+}
+
+/* Response: reintentar requests idempotentes ante fallas transitorias */
+api.interceptors.response.use(
+  (res) => res,
+  async (err: unknown) => {
+    // los ApiError ya vienen de un reintento anidado (ej. tras renovar el token)
+    if (!axios.isAxiosError(err)) return Promise.reject(err);
+    const config = err.config as RetryConfig | undefined;
+    if (!config || !canRetry(config) || !isTransient(err)) return Promise.reject(err);
+
+    const attempt = (config._retryCount ?? 0) + 1;
+    if (attempt > MAX_RETRIES) return Promise.reject(err);
+    config._retryCount = attempt;
+
+    const delayMs = Math.min(MAX_DELAY_MS, retryAfterMs(err) ?? backoffMs(attempt));
+    config.onRetry?.({ attempt, maxAttempts: MAX_RETRIES, delayMs });
+    await wait(delayMs, config);
+    return api(config);
   }
 );
 
+/* Último paso: toda request fallida se rechaza con un ApiError normalizado */
+api.interceptors.response.use(
+  (res) => res,
+  (err: unknown) => Promise.reject(ApiError.from(err))
+);
@@ -0,0 +1,81 @@
+import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { MovieKind, MovieSort } from "@/lib/movies";
+import type { Narrow, Schema } from "@/lib/schemas";
+import { readSearchState, writeSearchState } from "@/lib/search-params";
+
+/**
+ * Película de una sección (BrowseMovieDto): `communityAverage` null = sin calificaciones y
+ * `watchlistCount` es en cuántas listas de seguimiento está
+ */
+export type BrowseMovieDto = Narrow<Schema<"BrowseMovieDto">, { type: MovieKind }>;
+
+/** Género con su cantidad de películas y hasta 4 pósters para el mosaico (GenreSummaryDto) */
+export type GenreSummaryDto = Schema<"GenreSummaryDto">;
+
+/** Secciones de los géneros y de la portada (espejo de BrowseSection) */
+export type BrowseSectionKey = "topRated" | "imdbTop" | "newest" | "mostWatchlisted" | "recentlyReviewed" | "newInCatalog";
+
+/** Sección de películas (BrowseSectionDto) */
+export type BrowseSectionDto = Narrow<Schema<"BrowseSectionDto">, { key: BrowseSectionKey; movies: BrowseMovieDto[] }>;
+
+/** Género con sus secciones (GenreBrowseDto) */
+export type GenreBrowseDto = Narrow<Schema<"GenreBrowseDto">, { sections: BrowseSectionDto[] }>;
+
+/** Películas parecidas a una que el usuario calificó bien (BecauseYouRatedDto) */
+export type BecauseYouRatedDto = Narrow<Schema<"BecauseYouRatedDto">, { movies: BrowseMovieDto[] }>;
+
+/** Secciones de la portada (HomeBrowseDto; `becauseYouRated` sólo con sesión) */
+export type HomeBrowseDto = Narrow<
+  Schema<"HomeBrowseDto">,
+  { sections: BrowseSectionDto[]; becauseYouRated?: BecauseYouRatedDto | null }
+>;
+
+/** Dato que se muestra debajo de cada póster de una sección */
+export type BrowseStat = "communityAverage" | "imdbRating" | "year" | "watchlistCount";
+
+/**
+ * Título de cada sección, el dato de sus tarjetas y el orden de la búsqueda equivalente (para "Ver todas").
+ * "En más listas" y las secciones de la portada por fecha no tienen un orden de búsqueda.
+ */
+export const SECTION_INFO: Record<BrowseSectionKey, { title: string; stat: BrowseStat; sort?: MovieSort }> = {
+  topRated: { title: "Mejor calificadas por la comunidad", stat: "communityAverage", sort: "average" },
+  imdbTop: { title: "Mejor rating de IMDb", stat: "imdbRating", sort: "imdbRating" },
+  newest: { title: "Estrenos más recientes", stat: "year", sort: "year" },
+  mostWatchlisted: { title: "Las más agregadas a listas", stat: "watchlistCount" },
+  recentlyReviewed: { title: "Calificadas recientemente", stat: "communityAverage" },
+  newInCatalog: { title: "Nuevas en el catálogo", stat: "imdbRating" },
+};
+
+/** Ruta de la página de un género */
+export const genrePath = (name: string) => `/genres/${encodeURIComponent(name)}`;
+
+/** Link a la búsqueda de Home con un género y un orden */
+export function genreSearchPath(name: string, sort: MovieSort) {
+  const params = writeSearchState({ ...readSearchState(new URLSearchParams()), genres: [name], sort });
+  return `/?${params}`;
+}
+
+/** Claves de caché de la exploración */
+export const browseKeys = {
+  all: ["browse"] as const,
+  home: (userId: string | null) => ["browse", "home", userId ?? ""] as const, // las recomendaciones dependen del usuario
+  genres: ["browse", "genres"] as const,
+  genre: (name: string) => ["browse", "genres", name.toLowerCase()] as const,
+};
+
+/** API para explorar el catálogo local (sin búsqueda) */
+export const BrowseApi = {
+  async home(opts?: RequestOptions): Promise<HomeBrowseDto> {
+    const { data } = await api.get<HomeBrowseDto>("/browse/home", opts);
+    return data;
+  },
+  async genres(opts?: RequestOptions): Promise<GenreSummaryDto[]> {
+    const { data } = await api.get<GenreSummaryDto[]>("/browse/genres", opts);
+    return data;
+  },
+  async genre(name: string, opts?: RequestOptions): Promise<GenreBrowseDto> {
+    const { data } = await api.get<GenreBrowseDto>(`/browse/genres/${encodeURIComponent(name)}`, opts);
+    return data;
+  },
+};
@@ -0,0 +1,65 @@
+const DB_NAME = "tp-offline";
+const DB_VERSION = 1;
+
+/** Object stores de la base local */
+export type StoreName =
+  | "outbox" // mutaciones pendientes de enviar (clave autoincremental)
+  | "snapshots"; // última copia conocida de datos del servidor (clave explícita)
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/* Abre (una sola vez) la base y crea los stores en la primera ejecución */
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("outbox")) {
+        db.createObjectStore("outbox", { keyPath: "id", autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains("snapshots")) db.createObjectStore("snapshots");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    dbPromise = null; // permite reintentar (ej. IndexedDB bloqueada momentáneamente)
+    throw e;
+  });
+  return dbPromise;
+}
+
+/* Ejecuta una operación en su propia transacción y resuelve cuando la transacción se confirma */
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  op: (s: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Acceso mínimo a IndexedDB con promesas.
+ * Si el navegador no la soporta (o está deshabilitada), las operaciones rechazan.
+ */
+export const idb = {
+  get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return run<T | undefined>(store, "readonly", (s) => s.get(key));
+  },
+  getAll<T>(store: StoreName): Promise<T[]> {
+    return run<T[]>(store, "readonly", (s) => s.getAll());
+  },
+  /** Inserta o reemplaza; devuelve la clave (la generada, en stores autoincrementales) */
+  put(store: StoreName, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> {
+    return run<IDBValidKey>(store, "readwrite", (s) => s.put(value, key));
+  },
+  delete(store: StoreName, key: IDBValidKey): Promise<void> {
+    return run<void>(store, "readwrite", (s) => s.delete(key));
+  },
+};
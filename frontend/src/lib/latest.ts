@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { CanceledError } from "axios";
+
+/** Ejecutor "el último gana": cada llamada a run() cancela la anterior */
+export type LatestRunner = {
+  run<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T>;
+  cancel(): void;
+};
+
+/**
+ * Crea un ejecutor "el último gana".
+ * Cada run() aborta la request previa (vía AbortSignal) y, si igualmente llegara a resolverse,
+ * descarta su resultado rechazando con CanceledError. Usar isCanceled() para ignorar esos rechazos.
+ */
+export function createLatest(): LatestRunner {
+  let current: AbortController | null = null;
+
+  return {
+    async run<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+      current?.abort();
+      const ctrl = new AbortController();
+      current = ctrl;
+
+      const result = await fn(ctrl.signal);
+      if (ctrl.signal.aborted) throw new CanceledError(); // la reemplazó una llamada más nueva
+      return result;
+    },
+    cancel() {
+      current?.abort();
+      current = null;
+    },
+  };
+}
+
+/**
+ * Hook que devuelve un ejecutor "el último gana" ligado al componente.
+ * Cancela la request pendiente al desmontar.
+ */
+export function useLatest(): LatestRunner {
+  const ref = useRef<LatestRunner | null>(null);
+  if (!ref.current) ref.current = createLatest();
+
+  useEffect(() => {
+    const runner = ref.current;
+    return () => runner?.cancel();
+  }, []);
+
+  return ref.current;
+}
@@ -0,0 +1,223 @@
+/*
+ * Markdown de las reseñas: un subconjunto seguro que se convierte en un árbol (nunca en HTML).
+ * Bloques: párrafos, listas (- item / 1. item) y citas (> texto).
+ * En línea: **negrita**, *cursiva*, [enlaces](https://…) y ||spoilers||; con \ se escapa un signo.
+ * El HTML crudo se muestra como texto y los enlaces sólo admiten http, https y mailto.
+ */
+
+/** Nodo en línea */
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MdInline[] }
+  | { type: "em"; children: MdInline[] }
+  | { type: "spoiler"; children: MdInline[] }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "break" };
+
+/** Nodo de bloque */
+export type MdBlock =
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "list"; ordered: boolean; items: MdInline[][] }
+  | { type: "quote"; children: MdBlock[] };
+
+const MAX_INLINE_DEPTH = 5; // anidamiento máximo de negrita, cursiva, spoilers y enlaces
+const MAX_QUOTE_DEPTH = 3; // citas dentro de citas
+const ESCAPABLE = "\\*_|[]()>-+.#`!";
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+const WORD = /[\p{L}\p{N}]/u;
+
+const UNORDERED = /^\s{0,3}[-*+]\s+(.*)$/;
+const ORDERED = /^\s{0,3}\d{1,9}[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+
+/** Devuelve la URL normalizada si es absoluta y de un protocolo permitido (si no, null) */
+export function safeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null; // relativa o inválida
+  }
+}
+
+/* Posición del cierre `delim` a partir de `from` (saltea escapes; con `*` o `_` sueltos, los dobles); -1 si no hay */
+function findCloser(src: string, from: number, delim: string): number {
+  for (let i = from; i < src.length; i++) {
+    if (src[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (delim.length === 1 && src.startsWith(delim + delim, i)) {
+      i++; // un ** dentro de *cursiva* no la cierra
+      continue;
+    }
+    if (src.startsWith(delim, i)) return i;
+  }
+  return -1;
+}
+
+/* Posición del corchete o paréntesis que cierra el abierto en `open` (con anidamiento); -1 si no hay */
+function findMatching(src: string, open: number, openChar: string, closeChar: string): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (src[i] === openChar) depth++;
+    else if (src[i] === closeChar && --depth === 0) return i;
+  }
+  return -1;
+}
+
+type Span = { node: MdInline; end: number };
+
+/* Negrita, cursiva o spoiler que empieza en `at` */
+function matchDelimited(src: string, at: number, depth: number, inLink: boolean): Span | null {
+  const delims: [string, "strong" | "em" | "spoiler"][] = [
+    ["||", "spoiler"],
+    ["**", "strong"],
+    ["__", "strong"],
+    ["*", "em"],
+    ["_", "em"],
+  ];
+  for (const [delim, type] of delims) {
+    if (!src.startsWith(delim, at)) continue;
+    const start = at + delim.length;
+    const close = findCloser(src, start, delim);
+    if (close <= start) continue; // sin cierre o vacío
+    const inner = src.slice(start, close);
+    if (type !== "spoiler" && (/^\s/.test(inner) || /\s$/.test(inner))) continue; // "2 * 3 * 4" no es cursiva
+    if (delim[0] === "_" && (WORD.test(src[at - 1] ?? "") || WORD.test(src[close + delim.length] ?? ""))) {
+      continue; // snake_case no es cursiva
+    }
+    return { node: { type, children: parseInline(inner, depth + 1, inLink) }, end: close + delim.length };
+  }
+  return null;
+}
+
+/* Enlace [texto](url) que empieza en `at`; con una URL no permitida queda como texto */
+function matchLink(src: string, at: number, depth: number): Span | null {
+  if (src[at] !== "[") return null;
+  const closeText = findMatching(src, at, "[", "]");
+  if (closeText < 0 || src[closeText + 1] !== "(") return null;
+  const closeUrl = findMatching(src, closeText + 1, "(", ")");
+  if (closeUrl < 0) return null;
+  const href = safeUrl(src.slice(closeText + 2, closeUrl));
+  if (!href) return null;
+  const children = parseInline(src.slice(at + 1, closeText), depth + 1, true);
+  return { node: { type: "link", href, children }, end: closeUrl + 1 };
+}
+
+/**
+ * Convierte un texto en nodos en línea.
+ * Lo que no forma una marca válida (delimitadores sin cerrar, enlaces inseguros, HTML) queda como texto.
+ */
+function parseInline(src: string, depth = 0, inLink = false): MdInline[] {
+  const out: MdInline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ type: "text", text });
+    text = "";
+  };
+
+  for (let i = 0; i < src.length; ) {
+    const c = src[i];
+    if (c === "\\" && ESCAPABLE.includes(src[i + 1] ?? "")) {
+      text += src[i + 1]; // signo escapado: literal
+      i += 2;
+      continue;
+    }
+    if (c === "\n") {
+      flush();
+      out.push({ type: "break" });
+      i++;
+      continue;
+    }
+    const span =
+      depth < MAX_INLINE_DEPTH
+        ? (matchDelimited(src, i, depth, inLink) ?? (inLink ? null : matchLink(src, i, depth)))
+        : null;
+    if (span) {
+      flush();
+      out.push(span.node);
+      i = span.end;
+      continue;
+    }
+    text += c;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+/* Bloques de un conjunto de líneas */
+function parseLines(lines: string[], quoteDepth: number): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // cita: líneas seguidas que empiezan con >
+    if (QUOTE.test(line) && quoteDepth < MAX_QUOTE_DEPTH) {
+      const inner: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) inner.push(lines[i].replace(QUOTE, "$1"));
+      blocks.push({ type: "quote", children: parseLines(inner, quoteDepth + 1) });
+      continue;
+    }
+
+    // lista: ítems del mismo tipo; una línea sin marca continúa el ítem anterior
+    const ordered = ORDERED.test(line);
+    if (ordered || UNORDERED.test(line)) {
+      const marker = ordered ? ORDERED : UNORDERED;
+      const items: string[] = [];
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const m = marker.exec(lines[i]);
+        if (m) items.push(m[1]);
+        else if (QUOTE.test(lines[i]) || (ordered ? UNORDERED : ORDERED).test(lines[i])) break;
+        else items[items.length - 1] += "\n" + lines[i].trim();
+      }
+      blocks.push({ type: "list", ordered, items: items.map((item) => parseInline(item)) });
+      continue;
+    }
+
+    // párrafo: hasta una línea vacía, una cita o una lista
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim(); i++) {
+      if (paragraph.length > 0 && (QUOTE.test(lines[i]) || UNORDERED.test(lines[i]) || ORDERED.test(lines[i]))) break;
+      paragraph.push(lines[i].trim());
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+  return blocks;
+}
+
+/** Convierte el markdown de una reseña en bloques (ver el subconjunto admitido arriba) */
+export function parseMarkdown(source: string): MdBlock[] {
+  return parseLines(source.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+/** Texto plano de los nodos en línea (los spoilers se reemplazan para no revelarlos) */
+function inlineText(nodes: MdInline[]): string {
+  return nodes
+    .map((n) =>
+      n.type === "text" ? n.text : n.type === "break" ? " " : n.type === "spoiler" ? "[spoiler]" : inlineText(n.children)
+    )
+    .join("");
+}
+
+/* Texto plano de un bloque */
+function blockText(b: MdBlock): string {
+  if (b.type === "paragraph") return inlineText(b.children);
+  if (b.type === "list") return b.items.map(inlineText).join(" · ");
+  return b.children.map(blockText).join(" ");
+}
+
+/** Texto plano de un markdown, sin marcas y sin revelar los spoilers (para vistas de una línea) */
+export function markdownToText(source: string): string {
+  return parseMarkdown(source).map(blockText).join(" ");
+}
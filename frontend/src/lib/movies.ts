@@ -0,0 +1,110 @@
+import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { PageParams, PagedResult } from "@/lib/paged";
+import type { Narrow, Schema } from "@/lib/schemas";
+
+/** Tipo de contenido tal como lo serializa el backend */
+export type MovieKind = "movie" | "series";
+
+/** Ítem resumido de película (MovieListItemDto) */
+export type MovieListItemDto = Narrow<Schema<"MovieListItemDto">, { type: MovieKind }>;
+
+/**
+ * Detalle completo de película (MovieDetailDto): `released` es "yyyy-MM-dd" y los integrantes vienen
+ * unidos por ", " y también como listas (para enlazar a /people/:name)
+ */
+export type MovieDetailDto = Narrow<Schema<"MovieDetailDto">, { type: MovieKind }>;
+
+/**
+ * Orden de la búsqueda (espejo de MovieSort): la relevancia ordena por parecido con el título buscado
+ * (sin título, igual que "title"), el título ordena A-Z y el resto de mayor a menor
+ * (las películas sin el dato quedan al final)
+ */
+export type MovieSort = "relevance" | "title" | "year" | "imdbRating" | "average" | "mostRated";
+
+/** Película sugerida en el buscador (MovieSuggestionDto) */
+export type MovieSuggestionDto = Narrow<Schema<"MovieSuggestionDto">, { type: MovieKind }>;
+
+/** Rol de una persona en una película */
+export type PersonRole = "director" | "writer" | "cast";
+
+/** Persona sugerida en el buscador (PersonSuggestionDto) */
+export type PersonSuggestionDto = Narrow<Schema<"PersonSuggestionDto">, { roles: PersonRole[] }>;
+
+/** Sugerencias del buscador (SuggestionsDto) */
+export type SuggestionsDto = Narrow<
+  Schema<"SuggestionsDto">,
+  { movies: MovieSuggestionDto[]; people: PersonSuggestionDto[] }
+>;
+
+/** Combinación de varios géneros: alguno ("any") o todos ("all") */
+export type GenreMatch = "any" | "all";
+
+/** Género del catálogo con su cantidad de películas (GenreCountDto) */
+export type GenreCountDto = Schema<"GenreCountDto">;
+
+/** Filtros de búsqueda aceptados por GET /movies/search */
+export type MovieSearchParams = PageParams & {
+  imdbId?: string;
+  title?: string;
+  genre?: string;
+  type?: MovieKind;
+  genres?: string[]; // coincidencia exacta de cada género
+  genreMatch?: GenreMatch; // por defecto "any"
+  excludeGenres?: string[];
+  yearFrom?: number; // años de estreno, inclusive
+  yearTo?: number;
+  minImdbRating?: number; // 0..10
+  runtimeMin?: number; // minutos, inclusive
+  runtimeMax?: number;
+  director?: string; // integrantes del equipo (contiene)
+  writer?: string;
+  actor?: string;
+  sort?: MovieSort; // por defecto "relevance"
+};
+
+/** Tamaño de página de la búsqueda (máximo del backend: 100) */
+export const SEARCH_PAGE_SIZE = 20;
+
+/** Claves de caché de películas */
+export const movieKeys = {
+  all: ["movies"] as const,
+  detail: (imdbId: string) => ["movies", "detail", imdbId] as const,
+  search: (filters: object) => ["movies", "search", filters] as const,
+  genres: ["movies", "genres"] as const,
+};
+
+/* Respuesta de GET /movies/search según su esquema (se devuelve como PagedResult) */
+type SearchPage = Narrow<Schema<"MovieListItemDtoPagedResult">, { items: MovieListItemDto[] }>;
+
+/* Lista → "a,b,c" (vacía → no se manda) */
+const csv = (list?: string[]) => (list?.length ? list.join(",") : undefined);
+
+/** API para consultar películas */
+export const MoviesApi = {
+  async search(params: MovieSearchParams, opts?: RequestOptions): Promise<PagedResult<MovieListItemDto>> {
+    const { data } = await api.get<SearchPage>("/movies/search", {
+      params: {
+        pageSize: SEARCH_PAGE_SIZE,
+        ...params,
+        genres: csv(params.genres), // el backend recibe las listas separadas por comas
+        excludeGenres: csv(params.excludeGenres),
+      },
+      ...opts,
+    });
+    return data;
+  },
+  /** Sugerencias mientras se escribe (sólo catálogo local; con menos de 2 caracteres vienen vacías) */
+  async suggest(q: string, limit = 6, opts?: RequestOptions): Promise<SuggestionsDto> {
+    const { data } = await api.get<SuggestionsDto>("/movies/suggest", { params: { q, limit }, ...opts });
+    return data;
+  },
+  async genres(opts?: RequestOptions): Promise<GenreCountDto[]> {
+    const { data } = await api.get<GenreCountDto[]>("/movies/genres", opts);
+    return data;
+  },
+  async get(imdbId: string, opts?: RequestOptions): Promise<MovieDetailDto> {
+    const { data } = await api.get<MovieDetailDto>(`/movies/${imdbId}`, opts);
+    return data;
+  },
+};
@@ -0,0 +1,149 @@
+import { idb } from "@/lib/idb";
+import { isNetworkError } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import { Outbox } from "@/lib/outbox";
+import type { OutboxMutation } from "@/lib/outbox";
+import { WatchlistApi } from "@/lib/watchlist";
+import type { WatchlistItemDto } from "@/lib/watchlist";
+import { RatingsApi } from "@/lib/ratings";
+import type { RateUpsertDto, RatingDto } from "@/lib/ratings";
+
+/* Carga desde el servidor y guarda una copia local; sin conexión devuelve la última copia guardada */
+async function withSnapshot<T>(name: string, load: () => Promise<T>): Promise<T> {
+  try {
+    const data = await load();
+    void idb.put("snapshots", data, name).catch(() => undefined);
+    return data;
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    const saved = await idb.get<T>("snapshots", name).catch(() => undefined);
+    if (saved === undefined) throw e; // nunca se cargó con conexión
+    return saved;
+  }
+}
+
+/** Aplica una mutación pendiente sobre la watchlist (posiciones 1..N) */
+export function applyToWatchlist(list: WatchlistItemDto[], m: OutboxMutation): WatchlistItemDto[] {
+  switch (m.kind) {
+    case "watchlist.add":
+      if (list.some((i) => i.imdbId === m.imdbId)) return list;
+      return [...list, { imdbId: m.imdbId, title: m.title, poster: m.poster, position: list.length + 1 }];
+    case "watchlist.remove":
+      return list.filter((i) => i.imdbId !== m.imdbId).map((i, idx) => ({ ...i, position: idx + 1 }));
+    case "watchlist.reorder": {
+      const idx = list.findIndex((i) => i.imdbId === m.imdbId);
+      if (idx === -1) return list;
+      const next = [...list];
+      const [item] = next.splice(idx, 1);
+      next.splice(Math.min(Math.max(m.newPosition - 1, 0), next.length), 0, item);
+      return next.map((i, k) => ({ ...i, position: k + 1 }));
+    }
+    default:
+      return list;
+  }
+}
+
+/** Aplica una mutación pendiente sobre mis calificaciones */
+export function applyToMyRatings(list: RatingDto[], m: OutboxMutation): RatingDto[] {
+  switch (m.kind) {
+    case "rating.upsert": {
+      const prev = list.find((r) => r.imdbId === m.imdbId);
+      const next: RatingDto = {
+        id: prev?.id ?? `local-${m.imdbId}`,
+        imdbId: m.imdbId,
+        title: m.title,
+        genre: prev?.genre ?? null,
+        poster: prev?.poster ?? null,
+        qualification: m.rating.qualification,
+        comment: m.rating.comment ?? null,
+        containsSpoilers: m.rating.containsSpoilers ?? false,
+        date: prev?.date ?? new Date().toISOString(), // sólo para mostrarla: la base de conflictos la lleva el outbox
+        username: m.username,
+        fullname: m.fullname,
+        avatarUrl: prev?.avatarUrl ?? null,
+        helpfulCount: prev?.helpfulCount ?? 0, // los votos se conservan al editarla
+        helpfulByMe: false, // no se puede votar la propia
+      };
+      return prev ? list.map((r) => (r.imdbId === m.imdbId ? next : r)) : [next, ...list];
+    }
+    case "rating.delete":
+      return list.filter((r) => r.imdbId !== m.imdbId);
+    default:
+      return list;
+  }
+}
+
+/**
+ * Watchlist con soporte offline.
+ * La lista se guarda en IndexedDB en cada carga y se sirve desde ahí sin conexión;
+ * las mutaciones pendientes del outbox se aplican encima.
+ */
+export const OfflineWatchlist = {
+  async list(userId: string, opts?: RequestOptions): Promise<WatchlistItemDto[]> {
+    const list = await withSnapshot(`watchlist:${userId}`, () => WatchlistApi.list(opts));
+    return (await Outbox.pending(userId)).reduce(applyToWatchlist, list);
+  },
+  add(userId: string, item: { imdbId: string; title: string; poster?: string | null }) {
+    return Outbox.submit(userId, { kind: "watchlist.add", ...item });
+  },
+  remove(userId: string, imdbId: string, title: string) {
+    return Outbox.submit(userId, { kind: "watchlist.remove", imdbId, title });
+  },
+  reorder(userId: string, imdbId: string, title: string, newPosition: number) {
+    return Outbox.submit(userId, { kind: "watchlist.reorder", imdbId, title, newPosition });
+  },
+};
+
+/** Autor de una calificación encolada (para mostrarla antes de sincronizar) */
+type RatingAuthor = { id: string; username: string; fullname: string };
+
+/**
+ * Mis calificaciones con soporte offline (mismo esquema que OfflineWatchlist).
+ * `baseDate` es la fecha de mi calificación en el servidor al editarla: permite detectar
+ * si cambió desde otro dispositivo antes de sincronizar.
+ */
+export const OfflineRatings = {
+  async mine(userId: string, opts?: RequestOptions): Promise<RatingDto[]> {
+    const list = await withSnapshot(`ratings:${userId}`, () => RatingsApi.mine(opts));
+    return (await Outbox.pending(userId)).reduce(applyToMyRatings, list);
+  },
+  upsert(author: RatingAuthor, rating: RateUpsertDto, title: string, baseDate: string | null) {
+    return Outbox.submit(author.id, {
+      kind: "rating.upsert",
+      imdbId: rating.imdbId,
+      title,
+      rating,
+      username: author.username,
+      fullname: author.fullname,
+      baseDate,
+    });
+  },
+  remove(userId: string, imdbId: string, title: string, baseDate: string | null) {
+    return Outbox.submit(userId, { kind: "rating.delete", imdbId, title, baseDate });
+  },
+  /** Borra varias calificaciones en orden; queued = true si alguna quedó pendiente */
+  async removeMany(userId: string, ratings: RatingDto[]): Promise<{ queued: boolean }> {
+    let queued = false;
+    for (const r of ratings) {
+      if ((await OfflineRatings.remove(userId, r.imdbId, r.title, r.date)).queued) queued = true;
+    }
+    return { queued };
+  },
+  /**
+   * Vuelve a crear calificaciones recién borradas ("Deshacer"): mismo puntaje, comentario y marca de spoilers,
+   * con la fecha del momento en que se restauran.
+   */
+  async restore(author: RatingAuthor, ratings: RatingDto[]): Promise<{ queued: boolean }> {
+    let queued = false;
+    for (const r of ratings) {
+      const rating = {
+        imdbId: r.imdbId,
+        qualification: r.qualification,
+        comment: r.comment ?? null,
+        containsSpoilers: r.containsSpoilers,
+      };
+      if ((await OfflineRatings.upsert(author, rating, r.title, null)).queued) queued = true;
+    }
+    return { queued };
+  },
+};
@@ -0,0 +1,314 @@
+import { useSyncExternalStore } from "react";
+import { idb } from "@/lib/idb";
+import { isNetworkError } from "@/lib/axios";
+import { ApiError, errorMessage } from "@/lib/api-error";
+import { withSessionLock } from "@/lib/session-channel";
+import { invalidateQueries } from "@/lib/query";
+import { WatchlistApi, watchlistKeys } from "@/lib/watchlist";
+import { RatingsApi, formatScore, ratingKeys } from "@/lib/ratings";
+import type { RateUpsertDto, RatingDto } from "@/lib/ratings";
+import { userKeys } from "@/lib/users";
+import { browseKeys } from "@/lib/browse";
+
+/** Mutaciones que se pueden encolar sin conexión (`title` sólo se usa para mostrarlas) */
+export type OutboxMutation =
+  | { kind: "watchlist.add"; imdbId: string; title: string; poster?: string | null }
+  | { kind: "watchlist.remove"; imdbId: string; title: string }
+  | { kind: "watchlist.reorder"; imdbId: string; title: string; newPosition: number }
+  | {
+      kind: "rating.upsert";
+      imdbId: string;
+      title: string;
+      rating: RateUpsertDto;
+      username: string;
+      fullname: string;
+      baseDate: string | null; // fecha de mi calificación en el servidor al editarla (null = no tenía)
+    }
+  | { kind: "rating.delete"; imdbId: string; title: string; baseDate: string | null };
+
+/* Mutaciones sobre mi calificación de una película (llevan la base para detectar conflictos) */
+type RatingMutation = Extract<OutboxMutation, { kind: "rating.upsert" | "rating.delete" }>;
+
+const isRatingMutation = (m: OutboxMutation): m is RatingMutation =>
+  m.kind === "rating.upsert" || m.kind === "rating.delete";
+
+/** Entrada persistida en el outbox */
+export type OutboxEntry = {
+  id?: number; // autoincremental: define el orden de envío
+  userId: string; // sólo se reenvía con la sesión del mismo usuario
+  createdAt: number;
+  mutation: OutboxMutation;
+  force?: boolean; // true = se envía aunque mi calificación haya cambiado en el servidor
+};
+
+/** Mutación rechazada por el servidor o que choca con cambios hechos desde otro dispositivo */
+export type OutboxConflict = {
+  entry: OutboxEntry;
+  message: string;
+  resolvable: boolean; // true = el usuario puede elegir reenviar su versión
+};
+
+/** Estado observable del outbox */
+export type OutboxState = {
+  pending: number; // mutaciones en cola del usuario actual
+  conflicts: OutboxConflict[];
+  online: boolean;
+  syncing: boolean;
+};
+
+let currentUser: string | null = null;
+let state: OutboxState = {
+  pending: 0,
+  conflicts: [],
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  syncing: false,
+};
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<OutboxState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+}
+
+/** Texto legible de una mutación (para avisos y conflictos) */
+export function describeMutation(m: OutboxMutation): string {
+  switch (m.kind) {
+    case "watchlist.add":
+      return `Agregar «${m.title}» a tu lista`;
+    case "watchlist.remove":
+      return `Quitar «${m.title}» de tu lista`;
+    case "watchlist.reorder":
+      return `Mover «${m.title}» a la posición ${m.newPosition}`;
+    case "rating.upsert":
+      return `Calificar «${m.title}» con ${formatScore(m.rating.qualification)}/5`;
+    case "rating.delete":
+      return `Borrar tu calificación de «${m.title}»`;
+  }
+}
+
+/*
+ * Envía una mutación al servidor.
+ * Las de calificaciones devuelven la fecha que quedó en el servidor (null = borrada); las demás, undefined.
+ */
+async function send(m: OutboxMutation): Promise<string | null | undefined> {
+  switch (m.kind) {
+    case "watchlist.add":
+      await WatchlistApi.add(m.imdbId);
+      return undefined;
+    case "watchlist.remove":
+      await WatchlistApi.remove(m.imdbId);
+      return undefined;
+    case "watchlist.reorder":
+      await WatchlistApi.reorder(m.imdbId, m.newPosition);
+      return undefined;
+    case "rating.upsert":
+      return (await RatingsApi.upsert(m.rating)).date;
+    case "rating.delete":
+      await RatingsApi.remove(m.imdbId);
+      return null;
+  }
+}
+
+/* Errores que no se resuelven reintentando: el servidor rechazó la mutación */
+function isRejected(e: unknown) {
+  const status = ApiError.from(e).status ?? 0;
+  return status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+}
+
+/* Entradas en cola de un usuario, en orden de creación */
+async function entriesOf(userId: string): Promise<OutboxEntry[]> {
+  const all = await idb.getAll<OutboxEntry>("outbox");
+  return all.filter((e) => e.userId === userId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+async function refreshPending() {
+  if (!currentUser) return setState({ pending: 0 });
+  try {
+    setState({ pending: (await entriesOf(currentUser)).length });
+  } catch {
+    setState({ pending: 0 }); // sin IndexedDB no hay cola
+  }
+}
+
+function addConflict(conflict: OutboxConflict) {
+  setState({ conflicts: [...state.conflicts, conflict] });
+}
+
+/* Pasa a `baseDate` (la fecha que devolvió el servidor) la base de los cambios de la misma película que siguen en cola */
+async function rebase(entries: OutboxEntry[], imdbId: string, baseDate: string | null) {
+  for (const entry of entries) {
+    const m = entry.mutation;
+    if (!isRatingMutation(m) || m.imdbId !== imdbId) continue;
+    m.baseDate = baseDate;
+    await idb.put("outbox", entry);
+  }
+}
+
+/*
+ * Base de un cambio nuevo: si ya hay cambios de la misma calificación en cola, la de ellos.
+ * La fecha que se ve mientras tanto es la que asignó applyToMyRatings con el reloj local, no la del servidor.
+ */
+function withQueuedBase(queue: OutboxEntry[], m: OutboxMutation): OutboxMutation {
+  if (!isRatingMutation(m)) return m;
+  const queued = queue
+    .map((e) => e.mutation)
+    .filter((q): q is RatingMutation => isRatingMutation(q) && q.imdbId === m.imdbId)
+    .at(-1);
+  return queued ? { ...m, baseDate: queued.baseDate } : m;
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Reenvía las mutaciones en cola, en orden.
+ * - Un error de red corta el envío (se reintenta al volver la conexión).
+ * - Un rechazo del servidor (4xx) descarta la mutación y se informa como conflicto.
+ * - Si mi calificación cambió en el servidor desde que la edité sin conexión, no se pisa:
+ *   queda como conflicto para que el usuario elija. Se compara contra fechas del servidor: al enviar un cambio,
+ *   los que siguen en cola para la misma película toman como base la fecha que devolvió.
+ * Serializado entre pestañas para no enviar dos veces la misma entrada.
+ */
+function flush(): Promise<void> {
+  flushing ??= withSessionLock(async () => {
+    const userId = currentUser;
+    if (!userId || !navigator.onLine) return;
+
+    const entries = await entriesOf(userId);
+    if (entries.length === 0) return;
+
+    setState({ syncing: true });
+    let serverRatings: RatingDto[] | null = null; // mis calificaciones actuales en el servidor
+    const checked = new Set<string>(); // películas cuya calificación ya se validó en esta pasada
+    try {
+      for (const [index, entry] of entries.entries()) {
+        const m = entry.mutation;
+        try {
+          if (isRatingMutation(m) && !entry.force && !checked.has(m.imdbId)) {
+            serverRatings ??= await RatingsApi.mine();
+            const current = serverRatings.find((r) => r.imdbId === m.imdbId);
+            checked.add(m.imdbId);
+            if ((current?.date ?? null) !== m.baseDate) {
+              await idb.delete("outbox", entry.id!);
+              addConflict({
+                entry,
+                message: current
+                  ? `Tu calificación de «${m.title}» cambió desde otro dispositivo (${formatScore(current.qualification)}/5).`
+                  : `Tu calificación de «${m.title}» fue borrada desde otro dispositivo.`,
+                resolvable: true,
+              });
+              continue;
+            }
+          }
+          const serverDate = await send(m);
+          await idb.delete("outbox", entry.id!);
+          if (isRatingMutation(m) && serverDate !== undefined) {
+            checked.add(m.imdbId); // serverRatings puede ser anterior a este envío
+            await rebase(entries.slice(index + 1), m.imdbId, serverDate);
+          }
+        } catch (e) {
+          if (!isRejected(e)) break; // sin conexión, servidor caído o sesión vencida: se reintenta después
+          await idb.delete("outbox", entry.id!);
+          addConflict({ entry, message: errorMessage(e, "El servidor rechazó el cambio."), resolvable: false });
+        }
+      }
+    } finally {
+      setState({ syncing: false });
+      await refreshPending();
+      void invalidateQueries(watchlistKeys.all);
+      void invalidateQueries(ratingKeys.all);
+      void invalidateQueries(userKeys.summary);
+      void invalidateQueries(browseKeys.all);
+    }
+  }, "tp-outbox-flush")
+    .catch(() => undefined) // IndexedDB no disponible
+    .finally(() => {
+      flushing = null;
+    });
+  return flushing;
+}
+
+/* Guarda una mutación en la cola */
+async function enqueue(userId: string, mutation: OutboxMutation, force = false) {
+  const entry: OutboxEntry = { userId, createdAt: Date.now(), mutation, ...(force ? { force } : {}) };
+  await idb.put("outbox", entry);
+  await refreshPending();
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => {
+    setState({ online: true });
+    void flush();
+  });
+  window.addEventListener("offline", () => setState({ online: false }));
+}
+
+/** Outbox de mutaciones offline (persistido en IndexedDB) */
+export const Outbox = {
+  /** Fija el usuario de la sesión (null = sin sesión) y reenvía lo que haya quedado en cola */
+  start(userId: string | null) {
+    currentUser = userId;
+    setState({ conflicts: [] });
+    void refreshPending().then(flush);
+  },
+
+  /**
+   * Envía la mutación ahora si hay conexión; si no (o si ya hay cambios en cola, para respetar el orden),
+   * la encola. Los rechazos del servidor se propagan como siempre.
+   * Sin IndexedDB (ej. navegación privada) no hay cola: se envía directo y, si no hay conexión,
+   * rechaza con un ApiError de red.
+   * @returns queued = true si quedó pendiente de sincronizar.
+   */
+  async submit(userId: string, mutation: OutboxMutation): Promise<{ queued: boolean }> {
+    const queue = await entriesOf(userId).catch(() => [] as OutboxEntry[]);
+    let failure: unknown = null; // error de red del envío directo
+    if (navigator.onLine && queue.length === 0) {
+      try {
+        await send(mutation);
+        return { queued: false };
+      } catch (e) {
+        if (!isNetworkError(e)) throw e;
+        failure = e;
+      }
+    }
+    try {
+      await enqueue(userId, withQueuedBase(queue, mutation));
+    } catch (e) {
+      throw failure === null ? new ApiError("network", { cause: e }) : ApiError.from(failure);
+    }
+    void flush(); // por si la conexión ya volvió
+    return { queued: true };
+  },
+
+  /** Mutaciones en cola del usuario (para aplicarlas sobre los datos del servidor) */
+  async pending(userId: string): Promise<OutboxMutation[]> {
+    try {
+      return (await entriesOf(userId)).map((e) => e.mutation);
+    } catch {
+      return [];
+    }
+  },
+
+  /** Resuelve un conflicto: `keepMine` reenvía mi versión pisando la del servidor */
+  async resolve(conflict: OutboxConflict, keepMine: boolean) {
+    setState({ conflicts: state.conflicts.filter((c) => c !== conflict) });
+    if (keepMine) {
+      await enqueue(conflict.entry.userId, conflict.entry.mutation, true);
+      await flush();
+    }
+  },
+
+  flush,
+};
+
+/** Estado del outbox (pendientes, conflictos, conexión) */
+export function useOutbox(): OutboxState {
+  return useSyncExternalStore(
+    (cb) => {
+      listeners.add(cb);
+      return () => {
+        listeners.delete(cb);
+      };
+    },
+    () => state
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Página de resultados (PagedResult<T> del backend; `page` empieza en 1).
+ * El documento OpenAPI tiene un esquema por cada T (p. ej. MovieListItemDtoPagedResult): cada endpoint tipa
+ * la respuesta con el suyo y, al devolverla como PagedResult<T>, TypeScript verifica que coincidan.
+ */
+export type PagedResult<T> = {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number; // total de coincidencias
+  totalPages: number;
+  hasMore: boolean; // true si hay una página siguiente
+};
+
+/** Parámetros de paginación aceptados por los endpoints paginados */
+export type PageParams = {
+  page?: number; // por defecto 1
+  pageSize?: number;
+};
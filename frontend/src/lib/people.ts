@@ -0,0 +1,43 @@
+import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { MovieKind, PersonRole } from "@/lib/movies";
+import type { Narrow, Schema } from "@/lib/schemas";
+
+/** Participación de una persona en una película (PersonCreditDto; `communityAverage` null = sin calificaciones) */
+export type PersonCreditDto = Narrow<Schema<"PersonCreditDto">, { type: MovieKind; role: PersonRole }>;
+
+/** Persona que trabajó con otra (CollaboratorDto) */
+export type CollaboratorDto = Narrow<Schema<"CollaboratorDto">, { roles: PersonRole[] }>;
+
+/**
+ * Persona con su filmografía en el catálogo (PersonDto): `averageRating` promedia todas las calificaciones
+ * de sus películas y `collaborators` son los que más películas comparten
+ */
+export type PersonDto = Narrow<
+  Schema<"PersonDto">,
+  { credits: PersonCreditDto[]; collaborators: CollaboratorDto[] }
+>;
+
+/** Etiquetas de los roles */
+export const ROLE_LABELS: Record<PersonRole, string> = {
+  director: "Dirección",
+  writer: "Guion",
+  cast: "Actuación",
+};
+
+/** Ruta de la página de una persona */
+export const personPath = (name: string) => `/people/${encodeURIComponent(name)}`;
+
+/** Claves de caché de personas */
+export const peopleKeys = {
+  all: ["people"] as const,
+  detail: (name: string) => ["people", name.toLowerCase()] as const,
+};
+
+/** API para consultar personas (directores, guionistas y actores) */
+export const PeopleApi = {
+  async get(name: string, opts?: RequestOptions): Promise<PersonDto> {
+    const { data } = await api.get<PersonDto>(`/people/${encodeURIComponent(name)}`, opts);
+    return data;
+  },
+};
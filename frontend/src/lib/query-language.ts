@@ -0,0 +1,270 @@
+import type { MovieKind, MovieSort } from "@/lib/movies";
+
+/*
+ * Lenguaje de búsqueda de Home: texto libre + campos, ej.
+ *   director:nolan year:>=2010 genre:drama -genre:horror rating:>7.5 type:movie
+ * Los valores con espacios van entre comillas: actor:"tom hanks".
+ */
+
+/** Filtros que se pueden escribir en el buscador */
+export type QueryFilters = {
+  genres: string[]; // genre:drama (si hay varios, tienen que estar todos)
+  excludeGenres: string[]; // -genre:horror
+  type?: MovieKind;
+  yearFrom?: number;
+  yearTo?: number;
+  minImdbRating?: number;
+  runtimeMin?: number;
+  runtimeMax?: number;
+  director?: string;
+  writer?: string;
+  actor?: string;
+  sort?: MovieSort;
+};
+
+/** Segmento del texto para resaltarlo (posiciones en el texto original) */
+export type QueryToken = {
+  start: number;
+  end: number;
+  kind: "text" | "field" | "error";
+  field?: string; // nombre canónico del campo (kind "field")
+  negated?: boolean;
+};
+
+/** Error de sintaxis de un segmento */
+export type QueryError = { start: number; end: number; message: string };
+
+/** Resultado de interpretar el texto del buscador */
+export type ParsedQuery = {
+  text: string; // texto libre (se busca por título)
+  filters: QueryFilters;
+  tokens: QueryToken[];
+  errors: QueryError[];
+  hasFields: boolean; // true si hay al menos un campo válido
+};
+
+/** Campos admitidos, con sus alias y la ayuda que se muestra en Home */
+export const QUERY_FIELDS = [
+  { name: "title", aliases: ["titulo", "título"], example: 'title:"el padrino"', help: "Texto del título (igual que escribir sin campo)" },
+  { name: "director", aliases: ["dir", "direccion", "dirección"], example: "director:nolan", help: "Director (contiene)" },
+  { name: "writer", aliases: ["guion", "guión", "escritor"], example: "writer:sorkin", help: "Guionista (contiene)" },
+  { name: "actor", aliases: ["cast", "elenco", "actriz"], example: 'actor:"tom hanks"', help: "Integrante del elenco (contiene)" },
+  { name: "genre", aliases: ["genero", "género"], example: "genre:drama -genre:horror", help: "Género; con - se excluye. Varios: tienen que estar todos" },
+  { name: "type", aliases: ["tipo"], example: "type:series", help: "movie / pelicula o series / serie" },
+  { name: "year", aliases: ["año", "anio"], example: "year:>=2010  year:1990..1999", help: "Año de estreno: exacto, >, >=, <, <= o rango a..b" },
+  { name: "rating", aliases: ["imdb"], example: "rating:>7.5", help: "Rating mínimo de IMDb (0 a 10): >, >= o un número" },
+  { name: "runtime", aliases: ["duracion", "duración"], example: "runtime:<=120", help: "Duración en minutos: exacta, >, >=, <, <= o rango a..b" },
+  { name: "sort", aliases: ["orden"], example: "sort:year", help: "Orden: relevance, title, year, rating, average o mostRated" },
+] as const;
+
+type FieldName = (typeof QUERY_FIELDS)[number]["name"];
+
+/* alias (en minúsculas) → nombre canónico */
+const FIELD_BY_ALIAS = new Map<string, FieldName>(
+  QUERY_FIELDS.flatMap((f) => [[f.name, f.name] as const, ...f.aliases.map((a) => [a, f.name] as const)])
+);
+
+const SORTS: Record<string, MovieSort> = {
+  relevance: "relevance",
+  relevancia: "relevance",
+  title: "title",
+  titulo: "title",
+  year: "year",
+  año: "year",
+  rating: "imdbRating",
+  imdb: "imdbRating",
+  imdbrating: "imdbRating",
+  average: "average",
+  promedio: "average",
+  mostrated: "mostRated",
+  calificaciones: "mostRated",
+};
+
+/* Rango numérico: "2010", ">=2010", "<120", "1990..1999" */
+type NumberRange = { min?: number; max?: number; minExclusive?: boolean; maxExclusive?: boolean };
+
+function parseRange(value: string): NumberRange | null {
+  const between = /^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/.exec(value);
+  if (between) return { min: Number(between[1]), max: Number(between[2]) };
+  const cmp = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/.exec(value);
+  if (!cmp) return null;
+  const n = Number(cmp[2]);
+  switch (cmp[1]) {
+    case ">":
+      return { min: n, minExclusive: true };
+    case ">=":
+      return { min: n };
+    case "<":
+      return { max: n, maxExclusive: true };
+    case "<=":
+      return { max: n };
+    default:
+      return { min: n, max: n };
+  }
+}
+
+/* Rango de enteros con límites inclusivos (">2010" → desde 2011) */
+function integerRange(value: string, lo: number, hi: number): { from?: number; to?: number } | string {
+  const r = parseRange(value);
+  if (!r) return "Valor inválido: usá un número, >, >=, <, <= o un rango a..b.";
+  const from = r.min === undefined ? undefined : r.minExclusive ? Math.floor(r.min) + 1 : Math.ceil(r.min);
+  const to = r.max === undefined ? undefined : r.maxExclusive ? Math.ceil(r.max) - 1 : Math.floor(r.max);
+  if ((from !== undefined && (from < lo || from > hi)) || (to !== undefined && (to < lo || to > hi)))
+    return `El valor tiene que estar entre ${lo} y ${hi}.`;
+  if (from !== undefined && to !== undefined && from > to) return "El rango está invertido.";
+  return { from, to };
+}
+
+/* Lee el siguiente segmento desde `i`: [-]campo:valor, [-]"texto", o palabra */
+function readSegment(input: string, i: number) {
+  const start = i;
+  let negated = false;
+  if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+    negated = true;
+    i++;
+  }
+  let field: string | null = null;
+  const name = /^([\p{L}_]+):/u.exec(input.slice(i));
+  if (name) {
+    field = name[1];
+    i += name[0].length;
+  }
+  let value = "";
+  let unterminated = false;
+  if (input[i] === '"') {
+    const close = input.indexOf('"', i + 1);
+    unterminated = close === -1;
+    const end = unterminated ? input.length : close;
+    value = input.slice(i + 1, end);
+    i = unterminated ? end : end + 1;
+  } else {
+    const rest = /^\S*/.exec(input.slice(i))![0];
+    value = rest;
+    i += rest.length;
+  }
+  return { start, end: i, negated, field, value: value.trim(), unterminated };
+}
+
+/**
+ * Interpreta el texto del buscador.
+ * Los campos desconocidos o con valores inválidos se marcan como error y no filtran;
+ * "palabra:" sin valor (ej. "Star Wars: Episode") se toma como texto.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const filters: QueryFilters = { genres: [], excludeGenres: [] };
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+  const text: string[] = [];
+  let hasFields = false;
+
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const seg = readSegment(input, i);
+    i = Math.max(seg.end, i + 1);
+
+    const fail = (message: string) => {
+      tokens.push({ start: seg.start, end: seg.end, kind: "error" });
+      errors.push({ start: seg.start, end: seg.end, message });
+    };
+
+    if (seg.unterminated) {
+      fail("Falta cerrar las comillas.");
+      continue;
+    }
+
+    const field = seg.field ? FIELD_BY_ALIAS.get(seg.field.toLowerCase()) : undefined;
+    if (!seg.field || (!field && !seg.value)) {
+      // texto libre (un "-" inicial o "palabra:" sin valor son parte del título)
+      const raw = input.slice(seg.start, seg.end).replace(/^"|"$/g, "");
+      if (raw) text.push(raw);
+      tokens.push({ start: seg.start, end: seg.end, kind: "text" });
+      continue;
+    }
+    if (!field) {
+      fail(`Campo desconocido «${seg.field}». Campos: ${QUERY_FIELDS.map((f) => f.name).join(", ")}.`);
+      continue;
+    }
+    if (!seg.value) {
+      fail(`Falta el valor de ${field}:`);
+      continue;
+    }
+    if (seg.negated && field !== "genre") {
+      fail("Sólo se pueden excluir géneros (-genre:...).");
+      continue;
+    }
+
+    let error: string | null = null;
+    switch (field) {
+      case "title":
+        text.push(seg.value);
+        break;
+      case "director":
+      case "writer":
+      case "actor":
+        filters[field] = seg.value;
+        break;
+      case "genre":
+        (seg.negated ? filters.excludeGenres : filters.genres).push(seg.value);
+        break;
+      case "type": {
+        const v = seg.value.toLowerCase();
+        if (v === "movie" || v === "pelicula" || v === "película") filters.type = "movie";
+        else if (v === "series" || v === "serie") filters.type = "series";
+        else error = "El tipo puede ser movie o series.";
+        break;
+      }
+      case "year":
+      case "runtime": {
+        const r = field === "year" ? integerRange(seg.value, 1800, 2200) : integerRange(seg.value, 0, 10_000);
+        if (typeof r === "string") error = r;
+        else if (field === "year") {
+          if (r.from !== undefined) filters.yearFrom = r.from;
+          if (r.to !== undefined) filters.yearTo = r.to;
+        } else {
+          if (r.from !== undefined) filters.runtimeMin = r.from;
+          if (r.to !== undefined) filters.runtimeMax = r.to;
+        }
+        break;
+      }
+      case "rating": {
+        const r = parseRange(seg.value);
+        if (!r || r.min === undefined || (r.max !== undefined && r.max !== r.min))
+          error = "El rating sólo admite un mínimo: rating:>7.5, rating:>=8 o rating:8.";
+        else if (r.min < 0 || r.min > 10) error = "El rating tiene que estar entre 0 y 10.";
+        else filters.minImdbRating = r.minExclusive ? Math.min(10, Math.round(r.min * 10 + 1) / 10) : r.min; // una décima, como IMDb
+        break;
+      }
+      case "sort": {
+        const sort = SORTS[seg.value.toLowerCase()];
+        if (sort) filters.sort = sort;
+        else error = "Orden inválido: relevance, title, year, rating, average o mostRated.";
+        break;
+      }
+    }
+
+    if (error) {
+      fail(error);
+      continue;
+    }
+    hasFields = true;
+    tokens.push({ start: seg.start, end: seg.end, kind: "field", field, negated: seg.negated || undefined });
+  }
+
+  // rangos invertidos entre dos campos (ej. year:>2010 year:<2000): no filtran
+  if (filters.yearFrom !== undefined && filters.yearTo !== undefined && filters.yearFrom > filters.yearTo) {
+    errors.push({ start: 0, end: input.length, message: "El año desde no puede ser mayor que el año hasta." });
+    delete filters.yearFrom;
+    delete filters.yearTo;
+  }
+  if (filters.runtimeMin !== undefined && filters.runtimeMax !== undefined && filters.runtimeMin > filters.runtimeMax) {
+    errors.push({ start: 0, end: input.length, message: "La duración mínima no puede ser mayor que la máxima." });
+    delete filters.runtimeMin;
+    delete filters.runtimeMax;
+  }
+
+  return { text: text.join(" ").trim(), filters, tokens, errors, hasFields };
+}
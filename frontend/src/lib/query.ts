@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+
+/** Clave de consulta: segmentos serializables, del más general al más específico (ej. ["ratings", "movie", id]) */
+export type QueryKey = readonly unknown[];
+
+/** Estado de una consulta dentro de la caché */
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number; // 0 = nunca cargada o invalidada
+  fetching: boolean;
+};
+
+/** Opciones de useQuery */
+export type QueryOptions = {
+  enabled?: boolean; // false = no dispara la carga (ej. consultas que requieren sesión)
+  staleTime?: number; // ms durante los que el dato se considera fresco
+};
+
+/** Función de carga: recibe una señal que se aborta si la carga deja de ser necesaria */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/* Entrada interna de la caché */
+type Entry = {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  promise: Promise<unknown> | null; // carga en curso (deduplicación)
+  abort: AbortController | null; // controlador de la carga en curso
+  seq: number; // descarta respuestas de cargas reemplazadas
+  fetcher: QueryFetcher<unknown> | null; // último fetcher registrado (para revalidar)
+  staleTime: number;
+  listeners: Set<() => void>;
+};
+
+const DEFAULT_STALE_TIME = 30_000;
+const EMPTY_STATE: QueryState<unknown> = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  fetching: false,
+};
+
+const cache = new Map<string, Entry>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+/* Obtiene (o crea) la entrada de una clave */
+function getEntry(key: QueryKey): Entry {
+  const h = hashKey(key);
+  let entry = cache.get(h);
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      promise: null,
+      abort: null,
+      seq: 0,
+      fetcher: null,
+      staleTime: DEFAULT_STALE_TIME,
+      listeners: new Set(),
+    };
+    cache.set(h, entry);
+  }
+  return entry;
+}
+
+/* Reemplaza el estado (inmutable) y notifica a los suscriptores */
+function setState(entry: Entry, patch: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((l) => l());
+}
+
+function isStale(entry: Entry) {
+  return entry.state.updatedAt === 0 || Date.now() - entry.state.updatedAt > entry.staleTime;
+}
+
+/* true si `key` empieza con los segmentos de `prefix` */
+function matches(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+/* Descarta (y aborta) la carga en curso de una entrada */
+function discard(entry: Entry) {
+  entry.seq++;
+  entry.abort?.abort();
+  entry.abort = null;
+  entry.promise = null;
+}
+
+/* Ejecuta el fetcher de una entrada, reutilizando la carga en curso salvo que se fuerce */
+function run<T>(entry: Entry, fetcher: QueryFetcher<T>, force = false): Promise<T> {
+  entry.fetcher = fetcher;
+  if (entry.promise && !force) return entry.promise as Promise<T>;
+
+  discard(entry);
+  const seq = entry.seq;
+  const ctrl = new AbortController();
+  const promise = fetcher(ctrl.signal).then(
+    (data) => {
+      if (seq === entry.seq) setState(entry, { data, error: undefined, updatedAt: Date.now(), fetching: false });
+      return data;
+    },
+    (error) => {
+      if (seq === entry.seq) setState(entry, { error, fetching: false });
+      throw error;
+    }
+  );
+  promise
+    .catch(() => undefined)
+    .finally(() => {
+      if (seq === entry.seq) {
+        entry.promise = null;
+        entry.abort = null;
+      }
+    });
+
+  entry.promise = promise;
+  entry.abort = ctrl;
+  setState(entry, { fetching: true });
+  return promise;
+}
+
+/**
+ * Carga una consulta fuera de React.
+ * Devuelve el dato en caché si está fresco; si ya hay una carga en curso para la misma clave, la reutiliza.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+  const entry = getEntry(key);
+  if (!isStale(entry)) return Promise.resolve(entry.state.data as T);
+  return run(entry, fetcher);
+}
+
+/** Devuelve el dato en caché de una clave (sin disparar cargas) */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return cache.get(hashKey(key))?.state.data as T | undefined;
+}
+
+/** Escribe el dato de una clave (útil para actualizaciones optimistas) */
+export function setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)) {
+  const entry = getEntry(key);
+  const prev = entry.state.data as T | undefined;
+  const data = typeof updater === "function" ? (updater as (p: T | undefined) => T)(prev) : updater;
+  discard(entry); // una carga en curso ya no debe pisar este valor
+  setState(entry, { data, error: undefined, updatedAt: Date.now(), fetching: false });
+}
+
+/**
+ * Invalida todas las consultas cuya clave empieza con `prefix`.
+ * Las que tienen componentes suscriptos se recargan en segundo plano (se sigue mostrando el dato anterior);
+ * el resto se recarga la próxima vez que se usen.
+ */
+export function invalidateQueries(prefix: QueryKey): Promise<void> {
+  const pending: Promise<unknown>[] = [];
+  cache.forEach((entry) => {
+    if (!matches(entry.key, prefix)) return;
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      pending.push(run(entry, entry.fetcher, true).catch(() => undefined));
+    } else {
+      discard(entry);
+      setState(entry, { fetching: false });
+    }
+  });
+  return Promise.all(pending).then(() => undefined);
+}
+
+/** Vacía la caché completa (ej. al cerrar sesión, para no mostrar datos de otro usuario) */
+export function clearQueries() {
+  cache.forEach((entry) => {
+    discard(entry);
+    entry.state = EMPTY_STATE;
+    entry.listeners.forEach((l) => l());
+  });
+}
+
+/* Revalida las consultas activas y vencidas cuando la pestaña vuelve a tener foco */
+function revalidateActive() {
+  cache.forEach((entry) => {
+    if (entry.listeners.size > 0 && entry.fetcher && isStale(entry)) {
+      void run(entry, entry.fetcher).catch(() => undefined);
+    }
+  });
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("focus", revalidateActive);
+  window.addEventListener("online", revalidateActive);
+}
+
+/**
+ * Hook de consulta con caché compartida.
+ * - Deduplica cargas simultáneas de la misma clave.
+ * - Stale-while-revalidate: devuelve el dato en caché al instante y lo revalida si está vencido.
+ * - Se recarga sola cuando la clave se invalida con invalidateQueries.
+ * - Si ningún componente sigue usando la clave (ej. se navegó a otra película), aborta la carga en curso.
+ *
+ * @param key Clave de la consulta.
+ * @param fetcher Función que obtiene el dato desde la API.
+ * @param options enabled / staleTime.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: QueryOptions = {}) {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options;
+  const h = hashKey(key);
+  const entry = useMemo(() => getEntry(JSON.parse(h) as QueryKey), [h]);
+
+  // siempre usamos el fetcher del último render
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (cb: () => void) => {
+      entry.listeners.add(cb);
+      return () => {
+        entry.listeners.delete(cb);
+        // diferido: un re-montaje inmediato (StrictMode, cambio de clave ida y vuelta) no cancela
+        setTimeout(() => {
+          if (entry.listeners.size === 0 && entry.promise) {
+            discard(entry);
+            setState(entry, { fetching: false });
+          }
+        }, 0);
+      };
+    },
+    [entry]
+  );
+  const state = useSyncExternalStore(subscribe, () => entry.state) as QueryState<T>;
+
+  // al montar (o cambiar de clave) se reintenta aunque la última carga haya fallado;
+  // después, un error no dispara nuevas cargas automáticas
+  const activeEntry = useRef<Entry | null>(null);
+  useEffect(() => {
+    if (!enabled) {
+      activeEntry.current = null;
+      return;
+    }
+    const firstRun = activeEntry.current !== entry;
+    activeEntry.current = entry;
+    entry.staleTime = staleTime;
+    const fetchLatest: QueryFetcher<T> = (signal) => fetcherRef.current(signal);
+    entry.fetcher = fetchLatest;
+    if (isStale(entry) && !entry.promise && (firstRun || state.error === undefined)) {
+      void run(entry, fetchLatest).catch(() => undefined);
+    }
+  }, [entry, enabled, staleTime, state]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: enabled && state.data === undefined && (state.fetching || state.error === undefined),
+    fetching: state.fetching,
+    refetch: () => run(entry, (signal) => fetcherRef.current(signal), true),
+  };
+}
@@ -0,0 +1,79 @@
+import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { PagedResult } from "@/lib/paged";
+import type { Schema } from "@/lib/schemas";
+
+/**
+ * Calificación de una película (RatingDto): `qualification` va de 1 a 5 en pasos de 0.5,
+ * `comment` es markdown (ver lib/markdown.ts) y `helpfulByMe` es false sin sesión
+ */
+export type RatingDto = Schema<"RatingDto">;
+
+/** Orden de las reseñas de una película (espejo de RatingSort) */
+export type RatingSort = "newest" | "oldest" | "highest" | "lowest" | "helpful";
+
+/** Orden y filtros de las reseñas de una película (espejo de RatingsQuery) */
+export type RatingsQuery = {
+  sort: RatingSort;
+  withComment: boolean; // sólo las que tienen comentario
+  stars: number | null; // 1..5 (4 incluye 4,5); null = todas
+};
+
+/** Votos de "útil" de una reseña (HelpfulDto) */
+export type HelpfulDto = Schema<"HelpfulDto">;
+
+/** Cantidad de calificaciones con esas estrellas (RatingBucketDto; 4,5 cuenta en 4) */
+export type RatingBucketDto = Schema<"RatingBucketDto">;
+
+/**
+ * Resumen de calificaciones de una película (MovieRatingSummaryDto): `distribution` va de 1 a 5 estrellas;
+ * `median` y `weightedScore` (promedio bayesiano) son null sin calificaciones
+ */
+export type MovieRatingSummaryDto = Schema<"MovieRatingSummaryDto">;
+
+/** Cuerpo para crear o actualizar mi calificación (RateUpsertDto; `comment` en markdown, hasta 1024 caracteres) */
+export type RateUpsertDto = Schema<"RateUpsertDto">;
+
+/** Calificación como texto ("4", "3,5") */
+export function formatScore(n: number): string {
+  return n.toLocaleString("es-AR", { maximumFractionDigits: 1 });
+}
+
+/** Claves de caché de calificaciones */
+export const ratingKeys = {
+  all: ["ratings"] as const,
+  movie: (imdbId: string) => ["ratings", "movie", imdbId] as const, // prefijo: reseñas + resumen
+  byMovie: (imdbId: string, q: RatingsQuery) =>
+    ["ratings", "movie", imdbId, "list", q.sort, q.withComment, q.stars ?? "all"] as const,
+  summary: (imdbId: string) => ["ratings", "movie", imdbId, "summary"] as const,
+  mine: ["ratings", "me"] as const,
+};
+
+/** API para gestionar calificaciones */
+export const RatingsApi = {
+  async upsert(req: RateUpsertDto): Promise<RatingDto> {
+    const { data } = await api.post<RatingDto>("/ratings", req);
+    return data;
+  },
+  async remove(imdbId: string): Promise<void> {
+    await api.delete(`/ratings/${imdbId}`, { idempotent: true }); // borrar una calificación inexistente no hace nada
+  },
+  async byMovie(imdbId: string, q: RatingsQuery, page = 1, opts?: RequestOptions): Promise<PagedResult<RatingDto>> {
+    const params = { sort: q.sort, withComment: q.withComment || undefined, stars: q.stars ?? undefined, page };
+    const { data } = await api.get<Schema<"RatingDtoPagedResult">>(`/ratings/movie/${imdbId}`, { params, ...opts });
+    return data;
+  },
+  async setHelpful(ratingId: string, helpful: boolean): Promise<HelpfulDto> {
+    const url = `/ratings/${ratingId}/helpful`;
+    const { data } = helpful ? await api.post<HelpfulDto>(url) : await api.delete<HelpfulDto>(url);
+    return data;
+  },
+  async summary(imdbId: string, opts?: RequestOptions): Promise<MovieRatingSummaryDto> {
+    const { data } = await api.get<MovieRatingSummaryDto>(`/ratings/movie/${imdbId}/summary`, opts);
+    return data;
+  },
+  async mine(opts?: RequestOptions): Promise<RatingDto[]> {
+    const { data } = await api.get<RatingDto[]>("/ratings/me", opts);
+    return Array.isArray(data) ? data : [];
+  },
+};
@@ -0,0 +1,10 @@
+import type { components } from "@/lib/api-types";
+
+/**
+ * DTO del backend tal como lo describe su documento OpenAPI.
+ * `api-types.ts` se genera con `npm run api:types` (no se edita a mano) y `npm run api:check` falla si quedó desactualizado.
+ */
+export type Schema<K extends keyof components["schemas"]> = components["schemas"][K];
+
+/** Un DTO con algunos campos acotados (p. ej. un `string` del backend que el cliente conoce como unión) */
+export type Narrow<T, U extends { [P in keyof U]: P extends keyof T ? unknown : never }> = Omit<T, keyof U> & U;
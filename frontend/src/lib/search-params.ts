@@ -0,0 +1,166 @@
+import type { GenreMatch, MovieKind, MovieSearchParams, MovieSort } from "@/lib/movies";
+import { parseQuery } from "@/lib/query-language";
+import type { QueryFilters } from "@/lib/query-language";
+
+/** Órdenes disponibles en Home, con su etiqueta */
+export const SORT_OPTIONS: { value: MovieSort; label: string }[] = [
+  { value: "relevance", label: "Relevancia" },
+  { value: "title", label: "Título (A-Z)" },
+  { value: "year", label: "Más nuevas" },
+  { value: "imdbRating", label: "Rating de IMDb" },
+  { value: "average", label: "Promedio de la comunidad" },
+  { value: "mostRated", label: "Más calificadas" },
+];
+
+/** Filtros de búsqueda de Home */
+export type MovieSearchFilters = {
+  title: string; // texto del buscador (recortado); puede incluir campos del lenguaje de búsqueda
+  genres: string[]; // géneros incluidos ([] = todos)
+  genreMatch: GenreMatch; // alguno o todos los incluidos
+  excludeGenres: string[]; // géneros excluidos
+  type: "" | MovieKind; // "" = todos
+  yearFrom: number | null; // null = sin límite
+  yearTo: number | null;
+  minImdbRating: number | null;
+  runtimeMin: number | null; // minutos
+  runtimeMax: number | null;
+  sort: MovieSort;
+};
+
+/** Filtros de rango (se muestran juntos y se limpian juntos) */
+export type MovieRangeFilter = "yearFrom" | "yearTo" | "minImdbRating" | "runtimeMin" | "runtimeMax";
+
+export const RANGE_FILTERS: MovieRangeFilter[] = ["yearFrom", "yearTo", "minImdbRating", "runtimeMin", "runtimeMax"];
+
+/** Estado de búsqueda de Home tal como se comparte en la URL (?q=&genres=&match=&exclude=&type=&yearFrom=&...&sort=&page=) */
+export type MovieSearchState = MovieSearchFilters & {
+  page: number; // páginas cargadas (scroll infinito); al recargar se vuelven a traer
+};
+
+/* Número dentro de [min, max]; vacío o inválido → null */
+function readNumber(params: URLSearchParams, key: string, min: number, max: number, integer = true): number | null {
+  const raw = params.get(key)?.trim();
+  if (!raw) return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || (integer && !Number.isInteger(n)) || n < min || n > max) return null;
+  return n;
+}
+
+/* "Drama,Crime" → ["Drama", "Crime"] (sin vacíos ni repetidos) */
+function readList(params: URLSearchParams, key: string): string[] {
+  const values = (params.get(key) ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  return [...new Set(values)];
+}
+
+/** Lee el estado de búsqueda de los query params (valores inválidos → sin filtro) */
+export function readSearchState(params: URLSearchParams): MovieSearchState {
+  const type = params.get("type");
+  const sort = params.get("sort");
+  const page = Number(params.get("page"));
+  return {
+    title: params.get("q")?.trim() ?? "",
+    genres: readList(params, params.has("genres") ? "genres" : "genre"), // ?genre= de links viejos (un solo género)
+    genreMatch: params.get("match") === "all" ? "all" : "any",
+    excludeGenres: readList(params, "exclude"),
+    type: type === "movie" || type === "series" ? type : "",
+    yearFrom: readNumber(params, "yearFrom", 1800, 2200),
+    yearTo: readNumber(params, "yearTo", 1800, 2200),
+    minImdbRating: readNumber(params, "minImdbRating", 0, 10, false),
+    runtimeMin: readNumber(params, "runtimeMin", 0, 10_000),
+    runtimeMax: readNumber(params, "runtimeMax", 0, 10_000),
+    sort: SORT_OPTIONS.some((o) => o.value === sort) ? (sort as MovieSort) : "relevance",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+/** Escribe el estado de búsqueda en query params; los valores por defecto se omiten para que el link quede corto */
+export function writeSearchState(state: MovieSearchState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.title) params.set("q", state.title);
+  if (state.genres.length) params.set("genres", state.genres.join(","));
+  if (state.genres.length > 1 && state.genreMatch === "all") params.set("match", "all"); // con uno solo da igual
+  if (state.excludeGenres.length) params.set("exclude", state.excludeGenres.join(","));
+  if (state.type) params.set("type", state.type);
+  for (const key of RANGE_FILTERS) {
+    const value = state[key];
+    if (value !== null) params.set(key, String(value));
+  }
+  if (state.sort !== "relevance") params.set("sort", state.sort);
+  if (state.page > 1) params.set("page", String(state.page));
+  return params;
+}
+
+/** true si hay algún filtro de rango activo */
+export function hasRangeFilters(f: MovieSearchFilters): boolean {
+  return RANGE_FILTERS.some((key) => f[key] !== null);
+}
+
+/**
+ * Filtros efectivos: los de la UI combinados con los escritos en el buscador (lenguaje de búsqueda).
+ * El texto libre es el título; los campos del buscador pisan a la UI (tipo, rangos, orden),
+ * los géneros se suman (si el buscador agrega alguno, tienen que estar todos) y las personas sólo se escriben.
+ */
+export function effectiveFilters(f: MovieSearchFilters): MovieSearchFilters & Pick<QueryFilters, "director" | "writer" | "actor"> {
+  const { text, filters: q } = parseQuery(f.title);
+  const union = (a: string[], b: string[]) => [...new Map([...a, ...b].map((g) => [g.toLowerCase(), g])).values()];
+  return {
+    title: text,
+    genres: union(f.genres, q.genres),
+    genreMatch: q.genres.length ? "all" : f.genreMatch,
+    excludeGenres: union(f.excludeGenres, q.excludeGenres),
+    type: q.type ?? f.type,
+    yearFrom: q.yearFrom ?? f.yearFrom,
+    yearTo: q.yearTo ?? f.yearTo,
+    minImdbRating: q.minImdbRating ?? f.minImdbRating,
+    runtimeMin: q.runtimeMin ?? f.runtimeMin,
+    runtimeMax: q.runtimeMax ?? f.runtimeMax,
+    sort: q.sort ?? f.sort,
+    director: q.director,
+    writer: q.writer,
+    actor: q.actor,
+  };
+}
+
+/** true si se puede buscar: texto de al menos 2 caracteres o algún filtro (de la UI o del buscador) */
+export function isSearchable(f: MovieSearchFilters): boolean {
+  const e = effectiveFilters(f);
+  return (
+    (e.title.length >= 2 ||
+      e.genres.length > 0 ||
+      e.excludeGenres.length > 0 ||
+      e.type.length > 0 ||
+      hasRangeFilters(e) ||
+      !!(e.director || e.writer || e.actor)) &&
+    !rangeError(e)
+  );
+}
+
+/** Rangos invertidos (el servidor los rechaza con 400): mensaje para mostrar, o null si son válidos */
+export function rangeError(f: MovieSearchFilters): string | null {
+  if (f.yearFrom !== null && f.yearTo !== null && f.yearFrom > f.yearTo)
+    return "El año desde no puede ser mayor que el año hasta.";
+  if (f.runtimeMin !== null && f.runtimeMax !== null && f.runtimeMin > f.runtimeMax)
+    return "La duración mínima no puede ser mayor que la máxima.";
+  return null;
+}
+
+/** Filtros de Home → parámetros de GET /movies/search (incluye lo escrito en el buscador; los vacíos no se mandan) */
+export function toSearchParams(f: MovieSearchFilters): MovieSearchParams {
+  const e = effectiveFilters(f);
+  return {
+    title: e.title,
+    genres: e.genres,
+    genreMatch: e.genres.length > 1 && e.genreMatch === "all" ? "all" : undefined,
+    excludeGenres: e.excludeGenres,
+    type: e.type || undefined,
+    yearFrom: e.yearFrom ?? undefined,
+    yearTo: e.yearTo ?? undefined,
+    minImdbRating: e.minImdbRating ?? undefined,
+    runtimeMin: e.runtimeMin ?? undefined,
+    runtimeMax: e.runtimeMax ?? undefined,
+    director: e.director,
+    writer: e.writer,
+    actor: e.actor,
+    sort: e.sort === "relevance" ? undefined : e.sort,
+  };
+}
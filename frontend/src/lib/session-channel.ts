@@ -0,0 +1,60 @@
+/** Eventos de sesión que se comparten entre pestañas */
+export type SessionEvent =
+  | { type: "login"; userId: string } // se inició sesión (posiblemente con otro usuario)
+  | { type: "logout" } // se cerró la sesión o expiró
+  | { type: "profile" }; // cambiaron los datos del perfil (nombre, avatar)
+
+const CHANNEL_NAME = "tp-session";
+const STORAGE_KEY = "tp-session-event"; // fallback para navegadores sin BroadcastChannel
+
+const listeners = new Set<(e: SessionEvent) => void>();
+const emit = (e: SessionEvent) => listeners.forEach((l) => l(e));
+
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (msg: MessageEvent<SessionEvent>) => emit(msg.data);
+} else if (typeof window !== "undefined") {
+  // el evento "storage" sólo llega a las otras pestañas, igual que BroadcastChannel
+  window.addEventListener("storage", (e) => {
+    if (e.key !== STORAGE_KEY || !e.newValue) return;
+    try {
+      emit((JSON.parse(e.newValue) as { event: SessionEvent }).event);
+    } catch {
+      // valor ajeno o corrupto: se ignora
+    }
+  });
+}
+
+/**
+ * Canal de sesión entre pestañas del mismo navegador.
+ * Los eventos publicados se reciben en las demás pestañas, nunca en la que los publica.
+ */
+export const SessionChannel = {
+  post(event: SessionEvent) {
+    if (channel) {
+      channel.postMessage(event);
+      return;
+    }
+    // `at` fuerza un valor distinto aunque se repita el mismo evento
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ event, at: Date.now() }));
+  },
+  /** Se suscribe a los eventos de otras pestañas; devuelve la función para desuscribirse */
+  subscribe(listener: (e: SessionEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+/**
+ * Ejecuta `fn` con un lock exclusivo entre pestañas (Web Locks API).
+ * Por defecto protege la renovación del token: evita que dos pestañas usen a la vez el mismo
+ * refresh token (el backend lo rota y trataría el segundo uso como reutilización).
+ * Sin soporte de locks, ejecuta directamente.
+ */
+export function withSessionLock<T>(fn: () => Promise<T>, name = "tp-session-refresh"): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return fn();
+  return navigator.locks.request(name, fn);
+}
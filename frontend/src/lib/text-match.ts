@@ -0,0 +1,96 @@
+/*
+ * Coincidencias de texto sin tildes y tolerantes a errores de tipeo (espejo de TextSearch en la API).
+ * Se usan para resaltar en los resultados qué parte del título o del nombre coincide con lo buscado.
+ */
+
+/** Tramo de un texto: coincide con la búsqueda o no */
+export type TextSegment = { text: string; match: boolean };
+
+const MIN_SIMILARITY = 0.5; // igual que TextSearch.MinScore
+const LETTER_OR_DIGIT = /[\p{L}\p{N}]/u;
+const MARK = /\p{M}/u;
+
+/**
+ * Normaliza un texto (minúsculas, sin tildes y con los signos convertidos en espacios simples)
+ * y guarda, para cada carácter normalizado, su posición en el texto original.
+ */
+function normalizeWithMap(text: string): { norm: string; map: number[] } {
+  let norm = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (const c of text[i].normalize("NFD")) {
+      if (MARK.test(c)) continue; // tilde suelta
+      if (LETTER_OR_DIGIT.test(c)) {
+        for (const lower of c.toLowerCase()) {
+          norm += lower;
+          map.push(i);
+        }
+      } else if (norm && !norm.endsWith(" ")) {
+        norm += " ";
+        map.push(i);
+      }
+    }
+  }
+  if (norm.endsWith(" ")) {
+    norm = norm.slice(0, -1);
+    map.pop();
+  }
+  return { norm, map };
+}
+
+/** Normaliza un texto: minúsculas, sin tildes (é → e, ñ → n) y con los signos convertidos en espacios */
+function normalizeText(text: string): string {
+  return normalizeWithMap(text).norm;
+}
+
+/** Trigramas de una palabra normalizada ("  m", " ma", "mat", ..., "ix ") */
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const set = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) set.add(padded.slice(i, i + 3));
+  return set;
+}
+
+/** Proporción de trigramas de la palabra buscada que aparecen en la palabra del texto (0 a 1) */
+function similarity(wanted: string, word: string): number {
+  const a = trigrams(wanted);
+  const b = trigrams(word);
+  let found = 0;
+  for (const t of a) if (b.has(t)) found++;
+  return found / a.size;
+}
+
+/**
+ * Divide un texto en tramos que coinciden o no con la búsqueda.
+ * Si el texto contiene la búsqueda (sin tildes ni mayúsculas) se marcan esas apariciones;
+ * si no, se marcan las palabras parecidas a alguna palabra buscada ("interstelar" marca "Interstellar").
+ * Sin búsqueda o sin coincidencias devuelve el texto entero sin marcar.
+ */
+export function highlight(text: string, query: string): TextSegment[] {
+  const q = normalizeText(query);
+  const { norm, map } = normalizeWithMap(text);
+  if (!q || !norm) return [{ text, match: false }];
+
+  const ranges: [number, number][] = []; // [inicio, fin) en el texto normalizado
+  for (let at = norm.indexOf(q); at >= 0; at = norm.indexOf(q, at + q.length)) ranges.push([at, at + q.length]);
+  if (ranges.length === 0) {
+    const wanted = q.split(" ").filter((w) => w.length >= 3); // las palabras cortas coinciden con cualquier cosa
+    for (const m of norm.matchAll(/\S+/g)) {
+      if (wanted.some((w) => similarity(w, m[0]) >= MIN_SIMILARITY)) ranges.push([m.index, m.index + m[0].length]);
+    }
+  }
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const [start, end] of ranges) {
+    const from = map[start];
+    let to = map[end - 1] + 1;
+    while (to < text.length && MARK.test(text[to])) to++; // incluye las tildes sueltas de la última letra
+    if (from > last) segments.push({ text: text.slice(last, from), match: false });
+    segments.push({ text: text.slice(from, to), match: true });
+    last = to;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
@@ -0,0 +1,73 @@
+import type { Schema } from "@/lib/schemas";
+
+/** Par de tokens emitido por /auth/login y /auth/refresh (LoginResponse): JWT de corta duración y refresh token */
+export type TokenPair = Schema<"LoginResponse">;
+
+const ACCESS_KEY = "token";
+const REFRESH_KEY = "refreshToken";
+
+/** Claims del JWT que usa el cliente */
+export type JwtClaims = {
+  sub?: string; // username
+  uid?: string; // id del usuario
+  exp?: number; // vencimiento (segundos desde epoch)
+};
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((l) => l());
+
+// otra pestaña renovó o borró los tokens (localStorage es compartido)
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key === ACCESS_KEY || e.key === REFRESH_KEY || e.key === null) notify();
+  });
+}
+
+/** Decodifica el payload de un JWT (sin verificar la firma; sólo para leer claims) */
+export function decodeJwt(token: string): JwtClaims | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const bin = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(bin, (c) => c.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes)) as JwtClaims;
+  } catch {
+    return null; // token malformado
+  }
+}
+
+/**
+ * Almacenamiento de los tokens de sesión (localStorage).
+ * Único punto de lectura/escritura: el resto de la app no toca las claves directamente.
+ */
+export const TokenStore = {
+  getAccess(): string | null {
+    return localStorage.getItem(ACCESS_KEY);
+  },
+  getRefresh(): string | null {
+    return localStorage.getItem(REFRESH_KEY);
+  },
+  /** Vencimiento del access token (ms desde epoch) o null si no hay token o no tiene `exp` */
+  getExpiresAt(): number | null {
+    const token = localStorage.getItem(ACCESS_KEY);
+    const exp = token ? decodeJwt(token)?.exp : undefined;
+    return typeof exp === "number" ? exp * 1000 : null;
+  },
+  set(pair: TokenPair) {
+    localStorage.setItem(ACCESS_KEY, pair.token);
+    localStorage.setItem(REFRESH_KEY, pair.refreshToken);
+    notify();
+  },
+  clear() {
+    localStorage.removeItem(ACCESS_KEY);
+    localStorage.removeItem(REFRESH_KEY);
+    notify();
+  },
+  /** Se suscribe a los cambios de tokens (de esta u otras pestañas); devuelve la función para desuscribirse */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -1,13 +1,9 @@
 import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { Narrow, Schema } from "@/lib/schemas";
 
-/** Tipo que representa una fila de usuario */
-export type UserRow = {
-  id: string;
-  username: string;
-  fullname: string;
-  role: "administrator" | "user";
-  avatarUrl?: string | null;
-};
+/** Tipo que representa una fila de usuario (UserDetailDto) */
+export type UserRow = Narrow<Schema<"UserDetailDto">, { role: "administrator" | "user" }>;
 
 /** Tipo para crear un usuario */
 export type CreateUserReq = {
@@ -17,10 +13,18 @@ export type CreateUserReq = {
   isAdmin: boolean;
 };
 
+/** Métricas de actividad del usuario autenticado (UserSummaryDto) */
+export type UserSummaryDto = Schema<"UserSummaryDto">;
+
+/** Claves de caché de usuarios */
+export const userKeys = {
+  summary: ["users", "me", "summary"] as const,
+};
+
 /** API para gestionar usuarios */
 export const UsersApi = {
-  async list(q?: string): Promise<UserRow[]> {
-    const { data } = await api.get("/users", { params: q ? { q } : undefined });
+  async list(q?: string, opts?: RequestOptions): Promise<UserRow[]> {
+    const { data } = await api.get("/users", { params: q ? { q } : undefined, ...opts });
     return Array.isArray(data) ? data : [];
   },
   async create(req: CreateUserReq): Promise<UserRow> {
@@ -35,4 +39,23 @@ export const UsersApi = {
   async remove(id: string): Promise<void> {
     await api.delete(`/users/${id}`);
   },
+  async exists(): Promise<boolean> {
+    const { data } = await api.get<Schema<"UserExistsDto">>("/users/exists");
+    return !!data?.exists;
+  },
+  async summary(opts?: RequestOptions): Promise<UserSummaryDto> {
+    const { data } = await api.get<UserSummaryDto>("/users/me/summary", opts);
+    return data;
+  },
+  async updateMe(fullname: string): Promise<void> {
+    await api.patch("/users/me", { fullname });
+  },
+  async uploadAvatar(file: File): Promise<string | null> {
+    const fd = new FormData();
+    fd.append("file", file);
+    const { data } = await api.post<Schema<"UpdateAvatarDto">>("/users/me/avatar", fd, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+    return data?.avatarUrl ?? null;
+  },
 };
@@ -6,9 +6,10 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 
-/** Genera URL absoluta para un archivo relativo */
+/** Genera URL absoluta para un archivo relativo (las URLs absolutas, blob: y data: se devuelven tal cual) */
 export function fileUrl(rel?: string | null) {
   if (!rel) return null;
+  if (/^(https?:|blob:|data:)/i.test(rel)) return rel;
   const api = (import.meta.env.VITE_API_URL ?? "http://localhost:5080/api")
     .replace(/\/+$/, "");
   const origin = api.replace(/\/api$/, "");
@@ -0,0 +1,28 @@
+import { api } from "@/lib/axios";
+import type { RequestOptions } from "@/lib/axios";
+import type { Schema } from "@/lib/schemas";
+
+/** Ítem de la watchlist (WatchlistItemDto) */
+export type WatchlistItemDto = Schema<"WatchlistItemDto">;
+
+/** Claves de caché de la watchlist */
+export const watchlistKeys = {
+  all: ["watchlist"] as const,
+};
+
+/** API para gestionar mi watchlist */
+export const WatchlistApi = {
+  async list(opts?: RequestOptions): Promise<WatchlistItemDto[]> {
+    const { data } = await api.get<WatchlistItemDto[]>("/watchlist", opts);
+    return Array.isArray(data) ? [...data].sort((a, b) => a.position - b.position) : [];
+  },
+  async add(imdbId: string, position?: number): Promise<void> {
+    await api.post("/watchlist", { imdbId, position });
+  },
+  async remove(imdbId: string): Promise<void> {
+    await api.delete(`/watchlist/${imdbId}`, { idempotent: true }); // quitar algo que ya no está no hace nada
+  },
+  async reorder(imdbId: string, newPosition: number): Promise<void> {
+    await api.patch("/watchlist/reorder", { imdbId, newPosition });
+  },
+};
@@ -0,0 +1,114 @@
+import { AxiosError, AxiosHeaders, CanceledError } from "axios";
+import type { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { MockRouter, fail } from "./router";
+import { userFromAuthHeader } from "./tokens";
+import { registerAuth } from "./handlers/auth";
+import { registerUsers } from "./handlers/users";
+import { registerMovies } from "./handlers/movies";
+import { registerRatings } from "./handlers/ratings";
+import { registerWatchlist } from "./handlers/watchlist";
+import { registerPeople } from "./handlers/people";
+import { registerBrowse } from "./handlers/browse";
+
+export { resetMockDb } from "./db";
+
+const router = new MockRouter();
+registerAuth(router);
+registerUsers(router);
+registerMovies(router);
+registerRatings(router);
+registerWatchlist(router);
+registerPeople(router);
+registerBrowse(router);
+
+const DELAY_MS = Number(import.meta.env.VITE_MOCK_DELAY ?? 250); // latencia media simulada
+const FAIL_RATE = Number(import.meta.env.VITE_MOCK_FAIL_RATE ?? 0); // 0..1: proporción de 500 simulados en /movies (OMDb inestable)
+
+/* Espera la latencia simulada (±50%); se corta si la request se cancela */
+function delay(signal?: InternalAxiosRequestConfig["signal"]) {
+  const ms = DELAY_MS * (0.5 + Math.random());
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort); // la señal puede durar más que la request
+      resolve();
+    }, ms);
+    signal?.addEventListener?.("abort", onAbort);
+  });
+}
+
+/* Query string de la URL más config.params (los null/undefined se omiten, como hace axios) */
+function queryOf(url: URL, params: unknown) {
+  const query = new URLSearchParams(url.search);
+  if (params && typeof params === "object") {
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null) query.append(key, String(value));
+    }
+  }
+  return query;
+}
+
+/* Cuerpo ya transformado por axios: JSON serializado o FormData */
+function bodyOf(data: unknown) {
+  if (typeof data !== "string") return data ?? null;
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Adapter de axios que atiende las requests con el mock backend en memoria.
+ * Se conecta desde lib/axios.ts cuando VITE_MOCK_API=true; también sirve para pruebas
+ * (`axios.create({ adapter: mockAdapter })` + `resetMockDb()` entre casos).
+ */
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  try {
+    await delay(config.signal);
+  } catch {
+    const canceled = new CanceledError(); // el constructor real es (message, config), distinto del tipado
+    canceled.config = config;
+    throw canceled;
+  }
+
+  // "Sin conexión" del navegador (DevTools → Offline) también corta el mock
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+  }
+
+  const url = new URL(config.url ?? "/", "http://mock");
+  const omdbFailure = FAIL_RATE > 0 && /^\/movies\//i.test(url.pathname) && Math.random() < FAIL_RATE;
+  const res = omdbFailure
+    ? fail(500, "Error consultando OMDb")
+    : await router.handle({
+        method: (config.method ?? "get").toUpperCase(),
+        path: url.pathname,
+        query: queryOf(url, config.params),
+        body: bodyOf(config.data),
+        user: userFromAuthHeader(AxiosHeaders.from(config.headers).get("Authorization")?.toString()),
+      });
+
+  const response: AxiosResponse = {
+    // copia: quien recibe la respuesta nunca comparte objetos con la base en memoria
+    data: res.data === undefined ? "" : (JSON.parse(JSON.stringify(res.data)) as unknown),
+    status: res.status,
+    statusText: String(res.status),
+    headers: new AxiosHeaders(res.headers),
+    config,
+  };
+
+  const validate = config.validateStatus;
+  if (!validate || validate(res.status)) return response;
+  throw new AxiosError(
+    `Request failed with status code ${res.status}`,
+    res.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    response
+  );
+}
@@ -0,0 +1,39 @@
+import { HELPFUL_VOTES, MOVIES, RATINGS, USERS, WATCHLIST } from "./fixtures";
+import type { MockHelpfulVote, MockMovie, MockRating, MockUser, MockWatchItem } from "./fixtures";
+
+/** Estado en memoria del mock backend (equivalente a las tablas de AppDbContext) */
+export type MockDb = {
+  movies: MockMovie[];
+  users: MockUser[];
+  ratings: MockRating[];
+  helpfulVotes: MockHelpfulVote[];
+  watchlist: MockWatchItem[];
+  revokedRefresh: Set<string>; // jti de refresh tokens revocados o ya rotados
+  refreshCutoff: Map<string, number>; // userId → refresh tokens emitidos antes de este instante quedan inválidos
+};
+
+/* Copia profunda de los fixtures: las mutaciones nunca tocan los datos originales */
+function seed(empty: boolean): MockDb {
+  return {
+    movies: structuredClone(MOVIES),
+    users: empty ? [] : structuredClone(USERS),
+    ratings: empty ? [] : structuredClone(RATINGS),
+    helpfulVotes: empty ? [] : structuredClone(HELPFUL_VOTES),
+    watchlist: empty ? [] : structuredClone(WATCHLIST),
+    revokedRefresh: new Set(),
+    refreshCutoff: new Map(),
+  };
+}
+
+/** Base en memoria. VITE_MOCK_SEED=empty arranca sin usuarios (para probar el alta del primer administrador) */
+export const db: MockDb = seed(import.meta.env.VITE_MOCK_SEED === "empty");
+
+/** Vuelve la base al estado inicial (útil entre pruebas) */
+export function resetMockDb(options: { empty?: boolean } = {}) {
+  Object.assign(db, seed(!!options.empty));
+}
+
+/** Genera un id con formato Guid */
+export function newId(): string {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,156 @@
+/* Datos iniciales del mock backend (películas, usuarios, calificaciones y watchlists) */
+
+/** Película tal como la guarda el backend (entidad Movie + TeamMembers) */
+export type MockMovie = {
+  imdbId: string;
+  title: string;
+  type: "movie" | "series";
+  genre: string; // separado por comas, como lo devuelve OMDb
+  released: string | null; // "yyyy-MM-dd"
+  runtime: number | null; // minutos
+  poster: string | null;
+  country: string | null;
+  ratingImdb: number | null;
+  directors: string[];
+  writers: string[];
+  cast: string[];
+  addedAt: string; // ISO 8601: cuándo entró al catálogo local
+};
+
+/** Usuario (entidad User; la contraseña se guarda en claro: es sólo para desarrollo) */
+export type MockUser = {
+  id: string;
+  username: string;
+  fullname: string;
+  password: string;
+  role: "administrator" | "baseuser"; // UserType.ToString().ToLower()
+  avatarUrl: string | null;
+};
+
+/** Calificación (entidad Rating) */
+export type MockRating = {
+  id: string;
+  userId: string;
+  imdbId: string;
+  qualification: number;
+  comment: string | null; // markdown
+  containsSpoilers: boolean;
+  date: string; // ISO 8601
+};
+
+/** Voto de "útil" de un usuario sobre la reseña de otro (entidad HelpfulVote) */
+export type MockHelpfulVote = {
+  ratingId: string;
+  userId: string;
+  date: string; // ISO 8601
+};
+
+/** Ítem de watchlist (entidad WatchListItem) */
+export type MockWatchItem = {
+  userId: string;
+  imdbId: string;
+  position: number; // 1..N sin huecos
+};
+
+/* Póster SVG generado (evita depender de imágenes externas) */
+function poster(title: string, hue: number) {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="450">` +
+    `<rect width="300" height="450" fill="hsl(${hue},45%,35%)"/>` +
+    `<text x="150" y="225" fill="white" font-family="sans-serif" font-size="22" text-anchor="middle">${title}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/* Fecha de alta en el catálogo: en el orden de la lista, un día por película */
+let lastAdded = Date.parse("2025-01-01T12:00:00Z");
+const nextAddedAt = () => new Date((lastAdded += 86_400_000)).toISOString();
+
+function movie(
+  imdbId: string,
+  title: string,
+  type: "movie" | "series",
+  genre: string,
+  released: string,
+  runtime: number,
+  country: string,
+  ratingImdb: number,
+  directors: string[],
+  writers: string[],
+  cast: string[],
+  hue: number
+): MockMovie {
+  return {
+    imdbId,
+    title,
+    type,
+    genre,
+    released,
+    runtime,
+    poster: poster(title, hue),
+    country,
+    ratingImdb,
+    directors,
+    writers,
+    cast,
+    addedAt: nextAddedAt(),
+  };
+}
+
+export const MOVIES: MockMovie[] = [
+  movie("tt0111161", "The Shawshank Redemption", "movie", "Drama", "1994-10-14", 142, "United States", 9.3,
+    ["Frank Darabont"], ["Stephen King", "Frank Darabont"], ["Tim Robbins", "Morgan Freeman", "Bob Gunton"], 210),
+  movie("tt0068646", "The Godfather", "movie", "Crime, Drama", "1972-03-24", 175, "United States", 9.2,
+    ["Francis Ford Coppola"], ["Mario Puzo", "Francis Ford Coppola"], ["Marlon Brando", "Al Pacino", "James Caan"], 20),
+  movie("tt0468569", "The Dark Knight", "movie", "Action, Crime, Drama", "2008-07-18", 152, "United States, United Kingdom", 9.0,
+    ["Christopher Nolan"], ["Jonathan Nolan", "Christopher Nolan"], ["Christian Bale", "Heath Ledger", "Aaron Eckhart"], 230),
+  movie("tt1375666", "Inception", "movie", "Action, Adventure, Sci-Fi", "2010-07-16", 148, "United States, United Kingdom", 8.8,
+    ["Christopher Nolan"], ["Christopher Nolan"], ["Leonardo DiCaprio", "Joseph Gordon-Levitt", "Elliot Page"], 190),
+  movie("tt0816692", "Interstellar", "movie", "Adventure, Drama, Sci-Fi", "2014-11-07", 169, "United States, United Kingdom, Canada", 8.7,
+    ["Christopher Nolan"], ["Jonathan Nolan", "Christopher Nolan"], ["Matthew McConaughey", "Anne Hathaway", "Jessica Chastain"], 250),
+  movie("tt0133093", "The Matrix", "movie", "Action, Sci-Fi", "1999-03-31", 136, "United States, Australia", 8.7,
+    ["Lana Wachowski", "Lilly Wachowski"], ["Lilly Wachowski", "Lana Wachowski"], ["Keanu Reeves", "Laurence Fishburne", "Carrie-Anne Moss"], 130),
+  movie("tt0110912", "Pulp Fiction", "movie", "Crime, Drama", "1994-10-14", 154, "United States", 8.9,
+    ["Quentin Tarantino"], ["Quentin Tarantino", "Roger Avary"], ["John Travolta", "Uma Thurman", "Samuel L. Jackson"], 45),
+  movie("tt0245429", "Spirited Away", "movie", "Animation, Adventure, Family", "2001-07-20", 125, "Japan", 8.6,
+    ["Hayao Miyazaki"], ["Hayao Miyazaki"], ["Rumi Hiiragi", "Miyu Irino", "Mari Natsuki"], 170),
+  movie("tt1305806", "El secreto de sus ojos", "movie", "Drama, Mystery, Romance", "2009-08-13", 129, "Argentina, Spain", 8.2,
+    ["Juan José Campanella"], ["Eduardo Sacheri", "Juan José Campanella"], ["Ricardo Darín", "Soledad Villamil", "Pablo Rago"], 0),
+  movie("tt3011894", "Relatos salvajes", "movie", "Comedy, Drama, Thriller", "2014-08-21", 122, "Argentina, Spain", 8.1,
+    ["Damián Szifron"], ["Damián Szifron"], ["Darío Grandinetti", "María Marull", "Mónica Villa"], 30),
+  movie("tt0903747", "Breaking Bad", "series", "Crime, Drama, Thriller", "2008-01-20", 49, "United States", 9.5,
+    [], ["Vince Gilligan"], ["Bryan Cranston", "Aaron Paul", "Anna Gunn"], 90),
+  movie("tt0944947", "Game of Thrones", "series", "Action, Adventure, Drama", "2011-04-17", 57, "United States, United Kingdom", 9.2,
+    [], ["David Benioff", "D.B. Weiss"], ["Peter Dinklage", "Lena Headey", "Emilia Clarke"], 0),
+  movie("tt0386676", "The Office", "series", "Comedy", "2005-03-24", 22, "United States", 9.0,
+    [], ["Greg Daniels", "Ricky Gervais", "Stephen Merchant"], ["Steve Carell", "Jenna Fischer", "John Krasinski"], 200),
+  movie("tt4574334", "Stranger Things", "series", "Drama, Fantasy, Horror", "2016-07-15", 51, "United States", 8.7,
+    [], ["Matt Duffer", "Ross Duffer"], ["Millie Bobby Brown", "Finn Wolfhard", "Winona Ryder"], 350),
+];
+
+/* Ids fijos: un token guardado sigue siendo válido después de recargar la página */
+export const USERS: MockUser[] = [
+  { id: "00000000-0000-4000-8000-000000000001", username: "admin", fullname: "Administrador", password: "admin123", role: "administrator", avatarUrl: null },
+  { id: "00000000-0000-4000-8000-000000000002", username: "ana", fullname: "Ana Gómez", password: "ana123", role: "baseuser", avatarUrl: null },
+  { id: "00000000-0000-4000-8000-000000000003", username: "juan", fullname: "Juan Pérez", password: "juan123", role: "baseuser", avatarUrl: null },
+];
+
+export const RATINGS: MockRating[] = [
+  { id: "10000000-0000-4000-8000-000000000001", userId: USERS[1].id, imdbId: "tt0111161", qualification: 5, comment: "Una obra maestra. **Morgan Freeman** y Tim Robbins, enormes.", containsSpoilers: false, date: "2025-03-02T21:15:00Z" },
+  { id: "10000000-0000-4000-8000-000000000002", userId: USERS[2].id, imdbId: "tt0111161", qualification: 4, comment: null, containsSpoilers: false, date: "2025-03-10T18:40:00Z" },
+  { id: "10000000-0000-4000-8000-000000000003", userId: USERS[1].id, imdbId: "tt1305806", qualification: 5, comment: "Darín impecable. El final ||con Morales y su prisionero|| no se olvida.", containsSpoilers: true, date: "2025-04-01T23:05:00Z" },
+  { id: "10000000-0000-4000-8000-000000000004", userId: USERS[2].id, imdbId: "tt1375666", qualification: 3, comment: "Entretenida, pero confusa:\n- los *niveles* del sueño\n- el trompo", containsSpoilers: false, date: "2025-04-12T20:00:00Z" },
+  { id: "10000000-0000-4000-8000-000000000005", userId: USERS[0].id, imdbId: "tt0903747", qualification: 5, comment: null, containsSpoilers: false, date: "2025-05-20T22:30:00Z" },
+];
+
+export const HELPFUL_VOTES: MockHelpfulVote[] = [
+  { ratingId: RATINGS[0].id, userId: USERS[2].id, date: "2025-03-11T10:00:00Z" },
+  { ratingId: RATINGS[0].id, userId: USERS[0].id, date: "2025-03-12T09:30:00Z" },
+  { ratingId: RATINGS[1].id, userId: USERS[0].id, date: "2025-03-12T09:31:00Z" },
+];
+
+export const WATCHLIST: MockWatchItem[] = [
+  { userId: USERS[1].id, imdbId: "tt0816692", position: 1 },
+  { userId: USERS[1].id, imdbId: "tt0245429", position: 2 },
+  { userId: USERS[1].id, imdbId: "tt3011894", position: 3 },
+];
@@ -0,0 +1,66 @@
+import { db, newId } from "../db";
+import type { MockUser } from "../fixtures";
+import { bodyOf, fail, noContent, ok, requiredErrors, validationProblem } from "../router";
+import type { MockRouter } from "../router";
+import { issueTokens, revokeRefreshToken, rotateRefreshToken } from "../tokens";
+
+/** MeResponse: el rol se expone como "administrator" | "user" */
+export function meResponse(u: MockUser) {
+  return {
+    id: u.id,
+    username: u.username,
+    fullName: u.fullname,
+    role: u.role === "administrator" ? "administrator" : "user",
+    avatarUrl: u.avatarUrl,
+  };
+}
+
+/** Rutas de AuthController (/api/auth) */
+export function registerAuth(router: MockRouter) {
+  router.on("POST", "/auth/register", (req) => {
+    const b = bodyOf<{ username: string; fullName: string; password: string; isAdmin: boolean }>(req);
+    const invalid = requiredErrors(b, ["Username", "FullName", "Password"]);
+    if (invalid) return validationProblem(invalid);
+    if (!b.username?.trim()) return fail(400, "Username requerido");
+    if (!b.password?.trim()) return fail(400, "Password requerido");
+    if (db.users.some((u) => u.username === b.username)) return fail(409, "El usuario ya existe");
+
+    const isFirstUser = db.users.length === 0; // el primer usuario es administrador
+    const user: MockUser = {
+      id: newId(),
+      username: b.username,
+      fullname: b.fullName ?? "",
+      password: b.password,
+      role: isFirstUser || b.isAdmin ? "administrator" : "baseuser",
+      avatarUrl: null,
+    };
+    db.users.push(user);
+    return ok(meResponse(user));
+  });
+
+  router.on("POST", "/auth/login", (req) => {
+    const b = bodyOf<{ username: string; password: string }>(req);
+    const invalid = requiredErrors(b, ["Username", "Password"]);
+    if (invalid) return validationProblem(invalid);
+    const user = db.users.find((u) => u.username === b.username);
+    if (!user || user.password !== b.password) return fail(401, "Usuario o contraseña inválidos");
+    return ok(issueTokens(user));
+  });
+
+  router.on("POST", "/auth/refresh", (req) => {
+    const { refreshToken } = bodyOf<{ refreshToken: string }>(req);
+    if (!refreshToken?.trim()) return fail(400, "Refresh token requerido");
+    const user = rotateRefreshToken(refreshToken);
+    if (!user) return fail(401, "La sesión expiró");
+    return ok(issueTokens(user));
+  });
+
+  router.on("POST", "/auth/logout", (req) => {
+    const { refreshToken } = bodyOf<{ refreshToken: string }>(req);
+    if (!refreshToken?.trim()) return fail(400, "Refresh token requerido");
+    revokeRefreshToken(refreshToken);
+    return noContent();
+  });
+
+  router.on("GET", "/auth/me", (req) => ok(meResponse(req.user!)), "user");
+}
@@ -0,0 +1,125 @@
+import { db } from "../db";
+import type { MockMovie } from "../fixtures";
+import { fail, ok } from "../router";
+import type { MockRouter } from "../router";
+import { creditsOf, genresOf, movieListItem } from "./movies";
+
+const SECTION_SIZE = 12; // BrowseService.SectionSize
+const MOSAIC_SIZE = 4; // BrowseService.MosaicSize
+
+/* Promedio de la comunidad y cantidades de una película */
+function statsOf(m: MockMovie) {
+  const ratings = db.ratings.filter((r) => r.imdbId === m.imdbId);
+  const average = ratings.length ? ratings.reduce((sum, r) => sum + r.qualification, 0) / ratings.length : null;
+  return {
+    average,
+    ratingsCount: ratings.length,
+    watchlistCount: db.watchlist.filter((w) => w.imdbId === m.imdbId).length,
+  };
+}
+
+/** BrowseMovieDto */
+function browseMovie(m: MockMovie) {
+  const { average, ratingsCount, watchlistCount } = statsOf(m);
+  return {
+    ...movieListItem(m),
+    communityAverage: average === null ? null : Math.round(average * 100) / 100,
+    ratingsCount,
+    watchlistCount,
+  };
+}
+
+/* Primeras películas según `key` de mayor a menor (sin el dato → afuera), desempatando por `then` y por título */
+function top(movies: MockMovie[], key: (m: MockMovie) => number | null, then: (m: MockMovie) => number = () => 0) {
+  return movies
+    .filter((m) => key(m) !== null)
+    .sort((a, b) => key(b)! - key(a)! || then(b) - then(a) || a.title.localeCompare(b.title))
+    .slice(0, SECTION_SIZE)
+    .map(browseMovie);
+}
+
+/* Parecidas a la última película que el usuario calificó con 4 o más (como BrowseService.BecauseYouRatedAsync) */
+function becauseYouRated(userId: string) {
+  const seed = db.ratings
+    .filter((r) => r.userId === userId && r.qualification >= 4)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  const movie = seed && db.movies.find((m) => m.imdbId === seed.imdbId);
+  if (!movie) return null;
+
+  const genres = genresOf(movie);
+  const people = new Set(creditsOf(movie).map((c) => c.name));
+  const rated = new Set(db.ratings.filter((r) => r.userId === userId).map((r) => r.imdbId));
+  // 1 punto por género en común y 2 por integrante en común
+  const score = (m: MockMovie) =>
+    genresOf(m).filter((g) => genres.includes(g)).length +
+    2 * creditsOf(m).filter((c) => people.has(c.name)).length;
+  const movies = db.movies
+    .filter((m) => m.imdbId !== movie.imdbId && !rated.has(m.imdbId) && score(m) > 0)
+    .sort((a, b) => score(b) - score(a) || (b.ratingImdb ?? -1) - (a.ratingImdb ?? -1) || a.title.localeCompare(b.title))
+    .slice(0, SECTION_SIZE)
+    .map(browseMovie);
+  return movies.length ? { imdbId: movie.imdbId, title: movie.title, movies } : null;
+}
+
+/** Rutas de BrowseController (/api/browse): sólo catálogo local */
+export function registerBrowse(router: MockRouter) {
+  router.on("GET", "/browse/home", (req) => {
+    const lastRated = (m: MockMovie) => {
+      const dates = db.ratings.filter((r) => r.imdbId === m.imdbId).map((r) => Date.parse(r.date));
+      return dates.length ? Math.max(...dates) : null;
+    };
+    return ok({
+      sections: [
+        { key: "topRated", movies: top(db.movies, (m) => statsOf(m).average, (m) => statsOf(m).ratingsCount) },
+        { key: "recentlyReviewed", movies: top(db.movies, lastRated) },
+        { key: "mostWatchlisted", movies: top(db.movies, (m) => statsOf(m).watchlistCount || null) },
+        { key: "newInCatalog", movies: top(db.movies, (m) => Date.parse(m.addedAt)) },
+      ],
+      becauseYouRated: req.user ? becauseYouRated(req.user.id) : null,
+    });
+  });
+
+  router.on("GET", "/browse/genres", () => {
+    const groups = new Map<string, { name: string; movies: MockMovie[] }>();
+    for (const m of db.movies) {
+      for (const name of new Set(m.genre.split(",").map((g) => g.trim()).filter(Boolean))) {
+        const group = groups.get(name.toLowerCase()) ?? { name, movies: [] };
+        group.movies.push(m);
+        groups.set(name.toLowerCase(), group);
+      }
+    }
+    const list = [...groups.values()]
+      .map(({ name, movies }) => ({
+        name,
+        count: movies.length,
+        posters: movies
+          .filter((m) => m.poster && m.poster !== "N/A")
+          .sort((a, b) => (b.ratingImdb ?? -1) - (a.ratingImdb ?? -1))
+          .slice(0, MOSAIC_SIZE)
+          .map((m) => m.poster),
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    return ok(list);
+  });
+
+  router.on("GET", "/browse/genres/:genre", (req) => {
+    const genre = req.params.genre.trim().toLowerCase();
+    if (!genre) return fail(400, "El género es obligatorio.");
+
+    const movies = db.movies.filter((m) => genresOf(m).includes(genre));
+    if (movies.length === 0) return fail(404, "El género no figura en el catálogo.");
+    const name = movies[0].genre.split(",").map((g) => g.trim()).find((g) => g.toLowerCase() === genre) ?? genre;
+
+    return ok({
+      name,
+      count: movies.length,
+      sections: [
+        // a igual promedio, más calificaciones (como BrowseService)
+        { key: "topRated", movies: top(movies, (m) => statsOf(m).average, (m) => statsOf(m).ratingsCount) },
+        { key: "imdbTop", movies: top(movies, (m) => m.ratingImdb) },
+        { key: "newest", movies: top(movies, (m) => (m.released ? Date.parse(m.released) : null)) },
+        { key: "mostWatchlisted", movies: top(movies, (m) => statsOf(m).watchlistCount || null) },
+      ],
+    });
+  });
+}
@@ -0,0 +1,230 @@
+import { db } from "../db";
+import type { MockMovie } from "../fixtures";
+import { fail, ok, paged } from "../router";
+import type { MockRouter } from "../router";
+import { MIN_SCORE, normalize, score } from "../text-search";
+
+/** MovieListItemDto */
+export function movieListItem(m: MockMovie) {
+  return {
+    imdbId: m.imdbId,
+    title: m.title,
+    type: m.type,
+    genre: m.genre,
+    poster: m.poster,
+    imdbRating: m.ratingImdb,
+    year: m.released ? Number(m.released.slice(0, 4)) : null,
+  };
+}
+
+/** Rol de un TeamMember tal como lo serializa la API */
+export type PersonRole = "director" | "writer" | "cast";
+
+/** Participaciones de una película (TeamMember: director, writer, cast) */
+export function creditsOf(m: MockMovie): { name: string; role: PersonRole }[] {
+  return [
+    ...m.directors.map((name) => ({ name, role: "director" as const })),
+    ...m.writers.map((name) => ({ name, role: "writer" as const })),
+    ...m.cast.map((name) => ({ name, role: "cast" as const })),
+  ];
+}
+
+/** MovieDetailDto (los integrantes se unen con ", " como en MoviesController, y también van como listas) */
+function movieDetail(m: MockMovie) {
+  const join = (names: string[]) => (names.length ? names.join(", ") : null);
+  return {
+    imdbId: m.imdbId,
+    title: m.title,
+    type: m.type,
+    genre: m.genre,
+    released: m.released,
+    runtimeMinutes: m.runtime,
+    poster: m.poster,
+    country: m.country,
+    imdbRating: m.ratingImdb,
+    director: join(m.directors),
+    writer: join(m.writers),
+    actors: join(m.cast),
+    year: m.released ? Number(m.released.slice(0, 4)) : null,
+    directors: m.directors,
+    writers: m.writers,
+    cast: m.cast,
+  };
+}
+
+/* Número opcional de la query string (vacío → null, inválido → NaN) */
+function numberParam(query: URLSearchParams, key: string): number | null {
+  const raw = query.get(key)?.trim();
+  return raw ? Number(raw) : null;
+}
+
+/* "Drama,Crime" → ["drama", "crime"] */
+function listParam(query: URLSearchParams, key: string): string[] {
+  return (query.get(key) ?? "").split(",").map((g) => g.trim().toLowerCase()).filter(Boolean);
+}
+
+/* Géneros de una película en minúsculas (Genre viene separado por comas) */
+export const genresOf = (m: MockMovie) => m.genre.split(",").map((g) => g.trim().toLowerCase()).filter(Boolean);
+
+const SORTS = ["relevance", "title", "year", "imdbRating", "average", "mostRated"];
+
+/* Compara de mayor a menor; los nulos van al final (como en MovieService.Sorted) */
+const desc = (a: number | null, b: number | null) => (a === b ? 0 : a === null ? 1 : b === null ? -1 : b - a);
+const byTitle = (a: MockMovie, b: MockMovie) =>
+  a.title < b.title ? -1 : a.title > b.title ? 1 : a.imdbId < b.imdbId ? -1 : a.imdbId > b.imdbId ? 1 : 0;
+
+/* Personas cuyo nombre cumple `match`, agrupadas como PersonSuggestionDto */
+function creditsMatching(match: (name: string) => boolean) {
+  const people = new Map<string, { name: string; roles: Set<PersonRole>; movies: Set<string> }>();
+  for (const m of db.movies) {
+    for (const { name, role } of creditsOf(m)) {
+      if (!match(name)) continue;
+      const p = people.get(name) ?? { name, roles: new Set<PersonRole>(), movies: new Set<string>() };
+      p.roles.add(role);
+      p.movies.add(m.imdbId);
+      people.set(name, p);
+    }
+  }
+  const order: PersonRole[] = ["director", "writer", "cast"];
+  return [...people.values()].map((p) => ({
+    name: p.name,
+    roles: order.filter((r) => p.roles.has(r)),
+    movieCount: p.movies.size,
+  }));
+}
+
+/**
+ * Rutas de MoviesController (/api/movies).
+ * Los fixtures hacen de base local y de OMDb a la vez: no hay búsqueda remota.
+ */
+export function registerMovies(router: MockRouter) {
+  router.on("GET", "/movies/search", (req) => {
+    const imdbId = req.query.get("imdbId")?.trim();
+    if (imdbId) {
+      const found = db.movies.find((m) => m.imdbId === imdbId);
+      return found ? paged(req, [movieListItem(found)]) : fail(404, "No se encontró en OMDb");
+    }
+
+    const title = normalize(req.query.get("title"));
+    const genre = req.query.get("genre")?.trim().toLowerCase();
+    const type = req.query.get("type")?.trim().toLowerCase();
+    const genres = listParam(req.query, "genres");
+    const genreMatch = req.query.get("genreMatch")?.trim().toLowerCase() || "any";
+    const excludeGenres = listParam(req.query, "excludeGenres");
+    const members: [PersonRole, string | undefined][] = [
+      ["director", req.query.get("director")?.trim().toLowerCase()],
+      ["writer", req.query.get("writer")?.trim().toLowerCase()],
+      ["cast", req.query.get("actor")?.trim().toLowerCase()],
+    ];
+    const yearFrom = numberParam(req.query, "yearFrom");
+    const yearTo = numberParam(req.query, "yearTo");
+    const minImdbRating = numberParam(req.query, "minImdbRating");
+    const runtimeMin = numberParam(req.query, "runtimeMin");
+    const runtimeMax = numberParam(req.query, "runtimeMax");
+    const sort = req.query.get("sort")?.trim() || "relevance";
+
+    // mismas validaciones (y mensajes) que MovieService.ValidateQuery
+    if ([yearFrom, yearTo, minImdbRating, runtimeMin, runtimeMax].some((n) => Number.isNaN(n)))
+      return fail(400, "Parámetros de búsqueda inválidos.");
+    if (yearFrom !== null && yearTo !== null && yearFrom > yearTo)
+      return fail(400, "El año desde no puede ser mayor que el año hasta.");
+    if (minImdbRating !== null && (minImdbRating < 0 || minImdbRating > 10))
+      return fail(400, "El rating mínimo de IMDb debe estar entre 0 y 10.");
+    if ((runtimeMin ?? 0) < 0 || (runtimeMax ?? 0) < 0) return fail(400, "La duración no puede ser negativa.");
+    if (runtimeMin !== null && runtimeMax !== null && runtimeMin > runtimeMax)
+      return fail(400, "La duración mínima no puede ser mayor que la máxima.");
+    if (genreMatch !== "any" && genreMatch !== "all")
+      return fail(400, "Modo de géneros inválido. Valores posibles: any, all.");
+    const sortKey = SORTS.find((s) => s.toLowerCase() === sort.toLowerCase());
+    if (!sortKey) return fail(400, `Orden inválido. Valores posibles: ${SORTS.join(", ")}.`);
+
+    const year = (m: MockMovie) => (m.released ? Number(m.released.slice(0, 4)) : null);
+    const ratingsOf = (m: MockMovie) => db.ratings.filter((r) => r.imdbId === m.imdbId);
+    const average = (m: MockMovie) => {
+      const list = ratingsOf(m);
+      return list.length ? list.reduce((sum, r) => sum + r.qualification, 0) / list.length : null;
+    };
+    const key: Record<string, (m: MockMovie) => number | null> = {
+      year: (m) => (m.released ? Date.parse(m.released) : null),
+      imdbRating: (m) => m.ratingImdb,
+      average,
+      mostRated: (m) => ratingsOf(m).length,
+    };
+
+    // parecido con el título sin tildes y tolerando errores de tipeo (como MovieService.RankByTitleAsync)
+    const titleScore = new Map(db.movies.map((m) => [m.imdbId, title ? score(title, normalize(m.title)) : 0]));
+    const relevance = (m: MockMovie) => titleScore.get(m.imdbId) ?? 0;
+
+    const list = db.movies
+      .filter((m) => !title || relevance(m) >= MIN_SCORE)
+      .filter((m) => !genre || m.genre.toLowerCase().includes(genre))
+      .filter((m) => !type || m.type === type)
+      .filter((m) => {
+        if (genres.length === 0) return true;
+        const own = genresOf(m);
+        return genreMatch === "all" ? genres.every((g) => own.includes(g)) : genres.some((g) => own.includes(g));
+      })
+      .filter((m) => !excludeGenres.some((g) => genresOf(m).includes(g)))
+      .filter((m) =>
+        members.every(
+          ([role, name]) => !name || creditsOf(m).some((c) => c.role === role && c.name.toLowerCase().includes(name))
+        )
+      )
+      .filter((m) => yearFrom === null || (year(m) ?? -Infinity) >= yearFrom) // sin año → afuera
+      .filter((m) => yearTo === null || (year(m) ?? Infinity) <= yearTo)
+      .filter((m) => minImdbRating === null || (m.ratingImdb ?? -Infinity) >= minImdbRating)
+      .filter((m) => runtimeMin === null || (m.runtime ?? -Infinity) >= runtimeMin)
+      .filter((m) => runtimeMax === null || (m.runtime ?? Infinity) <= runtimeMax)
+      .sort((a, b) => {
+        if (sortKey === "relevance") return (title ? relevance(b) - relevance(a) : 0) || byTitle(a, b); // sin título: como "title"
+        return (sortKey === "title" ? 0 : desc(key[sortKey](a), key[sortKey](b))) || byTitle(a, b);
+      })
+      .map(movieListItem);
+    return paged(req, list);
+  });
+
+  // antes de /movies/:imdbId (si no, "suggest" y "genres" se tomarían como un imdbId)
+  router.on("GET", "/movies/suggest", (req) => {
+    const limit = Number(req.query.get("limit") ?? 6);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 20) return fail(400, "El límite debe estar entre 1 y 20.");
+    const raw = (req.query.get("q") ?? "").trim();
+    if (raw.length < 2) return ok({ movies: [], people: [] });
+
+    // de la más parecida a la menos parecida, sin tildes y tolerando errores de tipeo (como MovieService.SuggestAsync)
+    const text = normalize(raw);
+    const rank = (name: string) => score(text, normalize(name));
+    const movies = db.movies
+      .filter((m) => rank(m.title) >= MIN_SCORE)
+      .sort((a, b) => rank(b.title) - rank(a.title) || byTitle(a, b))
+      .slice(0, limit)
+      .map((m) => ({
+        imdbId: m.imdbId,
+        title: m.title,
+        type: m.type,
+        poster: m.poster,
+        year: m.released ? Number(m.released.slice(0, 4)) : null,
+      }));
+    const people = creditsMatching((name) => rank(name) >= MIN_SCORE)
+      .sort((a, b) => rank(b.name) - rank(a.name) || b.movieCount - a.movieCount || a.name.localeCompare(b.name))
+      .slice(0, limit);
+    return ok({ movies, people });
+  });
+
+  router.on("GET", "/movies/genres", () => {
+    const counts = new Map<string, number>();
+    for (const m of db.movies) {
+      for (const g of new Set(m.genre.split(",").map((x) => x.trim()).filter(Boolean))) {
+        counts.set(g, (counts.get(g) ?? 0) + 1);
+      }
+    }
+    const list = [...counts]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    return ok(list);
+  });
+
+  router.on("GET", "/movies/:imdbId", (req) => {
+    const movie = db.movies.find((m) => m.imdbId === req.params.imdbId);
+    return movie ? ok(movieDetail(movie)) : fail(404);
+  });
+}
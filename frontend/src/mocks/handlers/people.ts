@@ -0,0 +1,74 @@
+import { db } from "../db";
+import { fail, ok } from "../router";
+import type { MockRouter } from "../router";
+import { creditsOf } from "./movies";
+import type { PersonRole } from "./movies";
+
+/** Rutas de PeopleController (/api/people) */
+export function registerPeople(router: MockRouter) {
+  router.on("GET", "/people/:name", (req) => {
+    const name = req.params.name.trim().toLowerCase();
+    if (!name) return fail(400, "El nombre es obligatorio.");
+
+    const credits = db.movies
+      .flatMap((m) =>
+        creditsOf(m)
+          .filter((c) => c.name.toLowerCase() === name)
+          .map((c) => ({
+            name: c.name,
+            imdbId: m.imdbId,
+            title: m.title,
+            type: m.type,
+            poster: m.poster,
+            released: m.released,
+            role: c.role,
+          }))
+      )
+      // de la más nueva a la más vieja (como PersonService)
+      .sort((a, b) => (b.released ?? "").localeCompare(a.released ?? "") || a.title.localeCompare(b.title));
+    if (credits.length === 0) return fail(404, "La persona no figura en el catálogo.");
+
+    // promedio de la comunidad por película y general (como PersonService)
+    const movieIds = [...new Set(credits.map((c) => c.imdbId))];
+    const ratingsOf = (imdbId: string) => db.ratings.filter((r) => r.imdbId === imdbId);
+    const round = (n: number) => Math.round(n * 100) / 100;
+    const all = movieIds.flatMap(ratingsOf);
+
+    // colaboradores: integrantes de las mismas películas, por cantidad de películas en común
+    const people = new Map<string, { name: string; roles: Set<PersonRole>; movies: Set<string> }>();
+    for (const m of db.movies.filter((x) => movieIds.includes(x.imdbId))) {
+      for (const c of creditsOf(m)) {
+        if (c.name.toLowerCase() === name) continue;
+        const p = people.get(c.name.toLowerCase()) ?? { name: c.name, roles: new Set<PersonRole>(), movies: new Set<string>() };
+        p.roles.add(c.role);
+        p.movies.add(m.imdbId);
+        people.set(c.name.toLowerCase(), p);
+      }
+    }
+    const order: PersonRole[] = ["director", "writer", "cast"];
+    const collaborators = [...people.values()]
+      .map((p) => ({ name: p.name, roles: order.filter((r) => p.roles.has(r)), sharedMovies: p.movies.size }))
+      .sort((a, b) => b.sharedMovies - a.sharedMovies || a.name.localeCompare(b.name))
+      .slice(0, 10);
+
+    return ok({
+      name: credits[0].name,
+      credits: credits.map(({ imdbId, title, type, poster, released, role }) => {
+        const list = ratingsOf(imdbId);
+        return {
+          imdbId,
+          title,
+          type,
+          poster,
+          year: released ? Number(released.slice(0, 4)) : null,
+          role,
+          communityAverage: list.length ? round(list.reduce((sum, r) => sum + r.qualification, 0) / list.length) : null,
+          ratingsCount: list.length,
+        };
+      }),
+      averageRating: all.length ? round(all.reduce((sum, r) => sum + r.qualification, 0) / all.length) : null,
+      ratingsCount: all.length,
+      collaborators,
+    });
+  });
+}
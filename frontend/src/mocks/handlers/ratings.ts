@@ -0,0 +1,158 @@
+import { db, newId } from "../db";
+import type { MockRating } from "../fixtures";
+import { bodyOf, fail, noContent, ok, paged } from "../router";
+import type { MockRequest, MockRouter } from "../router";
+
+const RATING_SORTS = ["newest", "oldest", "highest", "lowest", "helpful"]; // RatingSort.All
+
+const helpfulCount = (r: MockRating) => db.helpfulVotes.filter((v) => v.ratingId === r.id).length;
+
+/** RatingDto (con datos de la película y del autor; helpfulByMe según el usuario que consulta) */
+function ratingDto(r: MockRating, viewerId?: string) {
+  const movie = db.movies.find((m) => m.imdbId === r.imdbId);
+  const user = db.users.find((u) => u.id === r.userId);
+  return {
+    id: r.id,
+    imdbId: r.imdbId,
+    title: movie?.title ?? "",
+    genre: movie?.genre ?? null,
+    poster: movie?.poster ?? null,
+    qualification: r.qualification,
+    comment: r.comment,
+    containsSpoilers: r.containsSpoilers,
+    date: r.date,
+    username: user?.username ?? "",
+    fullname: user?.fullname ?? "",
+    avatarUrl: user?.avatarUrl ?? null,
+    helpfulCount: helpfulCount(r),
+    helpfulByMe: !!viewerId && db.helpfulVotes.some((v) => v.ratingId === r.id && v.userId === viewerId),
+  };
+}
+
+const byDateDesc = (a: MockRating, b: MockRating) => b.date.localeCompare(a.date);
+
+/** Rutas de RatingsController (/api/ratings) */
+export function registerRatings(router: MockRouter) {
+  // crea o actualiza mi calificación (RatingService.UpsertAsync)
+  router.on(
+    "POST",
+    "/ratings",
+    (req) => {
+      const b = bodyOf<{ imdbId: string; qualification: number; comment: string | null; containsSpoilers: boolean }>(req);
+      const q = Number(b.qualification);
+      if (!(q >= 1 && q <= 5)) return fail(400, "La calificación debe estar entre 1 y 5.");
+      if (!Number.isInteger(q * 2)) return fail(400, "La calificación va en pasos de media estrella (1, 1.5, ..., 5).");
+      // comentario como RatingService.CleanComment: saltos de línea Unix, sin caracteres de control, null si vacío
+      const comment = (b.comment ?? "").replace(/\r\n?/g, "\n").replace(/[^\P{Cc}\n\t]/gu, "").trim() || null;
+      if (comment && comment.length > 1024) return fail(400, "El comentario no puede superar los 1024 caracteres.");
+      if (!db.movies.some((m) => m.imdbId === b.imdbId)) {
+        return fail(404, "La película no existe en BD. Creala primero desde /api/movies.");
+      }
+
+      let rating = db.ratings.find((r) => r.userId === req.user!.id && r.imdbId === b.imdbId);
+      if (!rating) {
+        rating = { id: newId(), userId: req.user!.id, imdbId: b.imdbId!, qualification: q, comment: null, containsSpoilers: false, date: "" };
+        db.ratings.push(rating);
+      }
+      rating.qualification = q;
+      rating.comment = comment;
+      rating.containsSpoilers = !!b.containsSpoilers;
+      rating.date = new Date().toISOString();
+      return ok(ratingDto(rating));
+    },
+    "user"
+  );
+
+  // borra mi calificación (no existía → 204 igual)
+  router.on(
+    "DELETE",
+    "/ratings/:imdbId",
+    (req) => {
+      if (!db.movies.some((m) => m.imdbId === req.params.imdbId)) return fail(400, "Película inexistente.");
+      const mine = db.ratings.find((r) => r.userId === req.user!.id && r.imdbId === req.params.imdbId);
+      db.ratings = db.ratings.filter((r) => r !== mine);
+      db.helpfulVotes = db.helpfulVotes.filter((v) => v.ratingId !== mine?.id); // cascada
+      return noContent();
+    },
+    "user"
+  );
+
+  // reseñas paginadas con orden y filtros (RatingService.GetByMovieAsync; 10 por página, máx. 50)
+  router.on("GET", "/ratings/movie/:imdbId", (req) => {
+    const sort = req.query.get("sort")?.trim().toLowerCase() || "newest";
+    if (!RATING_SORTS.includes(sort)) return fail(400, `Orden inválido. Valores posibles: ${RATING_SORTS.join(", ")}.`);
+    const starsParam = req.query.get("stars");
+    const stars = starsParam ? Number(starsParam) : null;
+    if (stars !== null && !(Number.isInteger(stars) && stars >= 1 && stars <= 5)) {
+      return fail(400, "Las estrellas deben estar entre 1 y 5.");
+    }
+    const withComment = req.query.get("withComment")?.toLowerCase() === "true";
+
+    const list = db.ratings
+      .filter((r) => r.imdbId === req.params.imdbId)
+      .filter((r) => !withComment || !!r.comment?.trim())
+      .filter((r) => stars === null || Math.floor(r.qualification) === stars)
+      .sort((a, b) => {
+        if (sort === "oldest") return a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+        const first =
+          sort === "highest"
+            ? b.qualification - a.qualification
+            : sort === "lowest"
+              ? a.qualification - b.qualification
+              : sort === "helpful"
+                ? helpfulCount(b) - helpfulCount(a)
+                : 0;
+        return first || byDateDesc(a, b) || a.id.localeCompare(b.id); // desempate: más nueva primero
+      });
+    return paged(req, list.map((r) => ratingDto(r, req.user?.id)), 10, 50);
+  });
+
+  // marca o desmarca como útil la reseña de otro usuario (RatingService.SetHelpfulAsync; idempotente)
+  const setHelpful = (helpful: boolean) => (req: MockRequest) => {
+    const rating = db.ratings.find((r) => r.id === req.params.id);
+    if (!rating) return fail(404, "La reseña no existe.");
+    if (rating.userId === req.user!.id) return fail(400, "No podés marcar como útil tu propia reseña.");
+    const voted = db.helpfulVotes.some((v) => v.ratingId === rating.id && v.userId === req.user!.id);
+    if (helpful && !voted) {
+      db.helpfulVotes.push({ ratingId: rating.id, userId: req.user!.id, date: new Date().toISOString() });
+    } else if (!helpful && voted) {
+      db.helpfulVotes = db.helpfulVotes.filter((v) => !(v.ratingId === rating.id && v.userId === req.user!.id));
+    }
+    return ok({ ratingId: rating.id, helpfulCount: helpfulCount(rating), helpfulByMe: helpful });
+  };
+  router.on("POST", "/ratings/:id/helpful", setHelpful(true), "user");
+  router.on("DELETE", "/ratings/:id/helpful", setHelpful(false), "user");
+
+  router.on("GET", "/ratings/movie/:imdbId/summary", (req) => {
+    const movie = db.movies.find((m) => m.imdbId === req.params.imdbId);
+    if (!movie) return fail(400, "Película inexistente.");
+    const values = db.ratings.filter((r) => r.imdbId === movie.imdbId).map((r) => r.qualification).sort((a, b) => a - b);
+    const sum = values.reduce((s, v) => s + v, 0);
+    const distribution = [1, 2, 3, 4, 5].map((stars) => ({ stars, count: values.filter((v) => Math.floor(v) === stars).length }));
+    if (values.length === 0) {
+      return ok({ imdbId: movie.imdbId, title: movie.title, count: 0, average: 0, distribution, median: null, weightedScore: null });
+    }
+
+    // mediana y promedio bayesiano como RatingService.GetMovieSummaryAsync (PriorVotes = 5, DefaultMean = 3)
+    const middle = Math.floor(values.length / 2);
+    const median = values.length % 2 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+    const mean = db.ratings.length ? db.ratings.reduce((s, r) => s + r.qualification, 0) / db.ratings.length : 3;
+    const weightedScore = Math.round(((5 * mean + sum) / (5 + values.length)) * 100) / 100;
+    return ok({
+      imdbId: movie.imdbId,
+      title: movie.title,
+      count: values.length,
+      average: sum / values.length,
+      distribution,
+      median,
+      weightedScore,
+    });
+  });
+
+  router.on(
+    "GET",
+    "/ratings/me",
+    (req) => ok(db.ratings.filter((r) => r.userId === req.user!.id).sort(byDateDesc).map((r) => ratingDto(r))),
+    "user"
+  );
+}
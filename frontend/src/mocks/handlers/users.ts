@@ -0,0 +1,155 @@
+import { db, newId } from "../db";
+import type { MockUser } from "../fixtures";
+import { bodyOf, created, fail, noContent, ok } from "../router";
+import type { MockRouter } from "../router";
+
+/** UserDetailDto: el rol es UserType.ToString().ToLower() ("administrator" | "baseuser") */
+function userDetail(u: MockUser) {
+  return { id: u.id, username: u.username, fullname: u.fullname, role: u.role, avatarUrl: u.avatarUrl };
+}
+
+/* Igual que UserService.NormalizeRole */
+const normalizeRole = (role?: string | null): MockUser["role"] =>
+  ["admin", "administrator"].includes((role ?? "").trim().toLowerCase()) ? "administrator" : "baseuser";
+
+/* Lee un archivo como data URL (el mock no tiene wwwroot donde guardarlo) */
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Rutas de UsersController (/api/users) */
+export function registerUsers(router: MockRouter) {
+  router.on("GET", "/users/exists", () => ok({ exists: db.users.length > 0 }));
+
+  router.on("GET", "/users/me", (req) => ok(userDetail(req.user!)), "user");
+
+  router.on(
+    "PATCH",
+    "/users/me",
+    (req) => {
+      const { fullname } = bodyOf<{ fullname: string }>(req);
+      if (!fullname?.trim()) return fail(400, "fullname requerido");
+      req.user!.fullname = fullname.trim();
+      return ok(userDetail(req.user!));
+    },
+    "user"
+  );
+
+  router.on(
+    "POST",
+    "/users/me/avatar",
+    async (req) => {
+      const file = req.body instanceof FormData ? req.body.get("file") : null;
+      if (!(file instanceof Blob) || file.size === 0) return fail(400, "Archivo requerido");
+      if (!file.type.startsWith("image/")) return fail(400, "Debe ser una imagen");
+      req.user!.avatarUrl = await readAsDataUrl(file);
+      return ok({ avatarUrl: req.user!.avatarUrl });
+    },
+    "user"
+  );
+
+  router.on(
+    "GET",
+    "/users/me/summary",
+    (req) =>
+      ok({
+        watchlistCount: db.watchlist.filter((i) => i.userId === req.user!.id).length,
+        ratingsCount: db.ratings.filter((r) => r.userId === req.user!.id).length,
+      }),
+    "user"
+  );
+
+  router.on(
+    "GET",
+    "/users",
+    (req) => {
+      const q = (req.query.get("q") ?? "").trim().toLowerCase();
+      const list = db.users
+        .filter((u) => !q || u.username.toLowerCase().includes(q) || u.fullname.toLowerCase().includes(q))
+        .sort((a, b) => a.username.localeCompare(b.username))
+        .map(userDetail);
+      return ok(list);
+    },
+    "administrator"
+  );
+
+  router.on(
+    "GET",
+    "/users/:id",
+    (req) => {
+      const user = db.users.find((u) => u.id === req.params.id);
+      return user ? ok(userDetail(user)) : fail(404);
+    },
+    "administrator"
+  );
+
+  // alta (sin id) o modificación (con id), como UserService.UpsertAsync
+  router.on(
+    "POST",
+    "/users",
+    (req) => {
+      const b = bodyOf<{ id: string | null; username: string; fullname: string; password: string; role: string }>(req);
+      if (!b.fullname?.trim()) return fail(400, "Fullname requerido.");
+
+      if (!b.id) {
+        if (!b.username?.trim()) return fail(400, "Username requerido.");
+        if (!b.password?.trim()) return fail(400, "Password requerido.");
+        if (db.users.some((u) => u.username === b.username)) return fail(409, "El nombre de usuario ya existe.");
+        const user: MockUser = {
+          id: newId(),
+          username: b.username.trim(),
+          fullname: b.fullname.trim(),
+          password: b.password,
+          role: normalizeRole(b.role),
+          avatarUrl: null,
+        };
+        db.users.push(user);
+        return created(userDetail(user));
+      }
+
+      const user = db.users.find((u) => u.id === b.id);
+      if (!user) return fail(409, "El usuario no existe.");
+      user.fullname = b.fullname.trim();
+      user.role = normalizeRole(b.role);
+      if (b.password?.trim()) user.password = b.password;
+      return ok(userDetail(user));
+    },
+    "administrator"
+  );
+
+  router.on(
+    "DELETE",
+    "/users/:id",
+    (req) => {
+      const id = req.params.id;
+      if (!db.users.some((u) => u.id === id)) return fail(404);
+      // borrado en cascada de calificaciones y watchlist
+      db.users = db.users.filter((u) => u.id !== id);
+      const removed = new Set(db.ratings.filter((r) => r.userId === id).map((r) => r.id));
+      db.ratings = db.ratings.filter((r) => r.userId !== id);
+      db.helpfulVotes = db.helpfulVotes.filter((v) => v.userId !== id && !removed.has(v.ratingId));
+      db.watchlist = db.watchlist.filter((i) => i.userId !== id);
+      return noContent();
+    },
+    "administrator"
+  );
+
+  router.on(
+    "POST",
+    "/users/:id/password",
+    (req) => {
+      const { password } = bodyOf<{ password: string }>(req);
+      if (!password?.trim()) return fail(400, "Password requerido.");
+      const user = db.users.find((u) => u.id === req.params.id);
+      if (!user) return fail(404);
+      user.password = password;
+      return noContent();
+    },
+    "administrator"
+  );
+}
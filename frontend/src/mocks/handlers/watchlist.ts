@@ -0,0 +1,79 @@
+import { db } from "../db";
+import type { MockWatchItem } from "../fixtures";
+import { bodyOf, fail, noContent, ok } from "../router";
+import type { MockRouter } from "../router";
+
+/* Ítems de un usuario ordenados por posición */
+const itemsOf = (userId: string) =>
+  db.watchlist.filter((i) => i.userId === userId).sort((a, b) => a.position - b.position);
+
+/** WatchlistItemDto */
+function watchlistItem(i: MockWatchItem) {
+  const movie = db.movies.find((m) => m.imdbId === i.imdbId);
+  return { imdbId: i.imdbId, title: movie?.title ?? "", poster: movie?.poster ?? null, position: i.position };
+}
+
+/** Rutas de WatchlistController (/api/watchlist); posiciones 1..N sin huecos, como WatchlistService */
+export function registerWatchlist(router: MockRouter) {
+  router.on("GET", "/watchlist", (req) => ok(itemsOf(req.user!.id).map(watchlistItem)), "user");
+
+  // agrega al final o en la posición pedida (desplazando las siguientes); si ya está, no hace nada
+  router.on(
+    "POST",
+    "/watchlist",
+    (req) => {
+      const b = bodyOf<{ imdbId: string; position: number | null }>(req);
+      if (!b.imdbId?.trim()) return fail(400, "ImdbId requerido");
+      const userId = req.user!.id;
+      const items = itemsOf(userId);
+      if (items.some((i) => i.imdbId === b.imdbId)) return noContent();
+      if (!db.movies.some((m) => m.imdbId === b.imdbId)) return fail(404, "La película no existe en BD.");
+
+      let position = items.length + 1;
+      if (b.position != null) {
+        position = Math.max(1, b.position);
+        items.filter((i) => i.position >= position).forEach((i) => i.position++);
+      }
+      db.watchlist.push({ userId, imdbId: b.imdbId, position });
+      return noContent();
+    },
+    "user"
+  );
+
+  // quita y compacta posiciones; si no estaba, no hace nada
+  router.on(
+    "DELETE",
+    "/watchlist/:imdbId",
+    (req) => {
+      const userId = req.user!.id;
+      const item = itemsOf(userId).find((i) => i.imdbId === req.params.imdbId);
+      if (!item) return noContent();
+      db.watchlist = db.watchlist.filter((i) => i !== item);
+      itemsOf(userId)
+        .filter((i) => i.position > item.position)
+        .forEach((i) => i.position--);
+      return noContent();
+    },
+    "user"
+  );
+
+  // mueve a la nueva posición (acotada a 1..N) y renumera
+  router.on(
+    "PATCH",
+    "/watchlist/reorder",
+    (req) => {
+      const b = bodyOf<{ imdbId: string; newPosition: number }>(req);
+      if (!b.imdbId?.trim() || !b.newPosition || b.newPosition <= 0) return fail(400, "Datos inválidos");
+      const items = itemsOf(req.user!.id);
+      const item = items.find((i) => i.imdbId === b.imdbId);
+      if (!item) return fail(404, "La película no está en tu watchlist.");
+
+      const target = Math.min(Math.max(1, b.newPosition), items.length);
+      items.splice(items.indexOf(item), 1);
+      items.splice(target - 1, 0, item);
+      items.forEach((i, idx) => (i.position = idx + 1));
+      return noContent();
+    },
+    "user"
+  );
+}
@@ -0,0 +1,122 @@
+import type { MockUser } from "./fixtures";
+
+/** Request ya interpretada por el adapter */
+export type MockRequest = {
+  method: string; // en mayúsculas
+  path: string; // relativo a /api (ej. "/movies/search")
+  params: Record<string, string>; // segmentos :param de la ruta
+  query: URLSearchParams;
+  body: unknown; // JSON parseado o FormData
+  user: MockUser | null; // usuario del token (si es válido)
+};
+
+/** Respuesta del handler */
+export type MockResponse = {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+};
+
+export type MockHandler = (req: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/** Autorización de la ruta, como los atributos [Authorize] / [Authorize(Roles = ...)] */
+export type MockAuth = "anonymous" | "user" | "administrator";
+
+export const ok = (data?: unknown): MockResponse => ({ status: 200, data });
+export const created = (data?: unknown): MockResponse => ({ status: 201, data });
+export const noContent = (): MockResponse => ({ status: 204 });
+/** Error con el mismo cuerpo que devuelven los controladores: { error } */
+export const fail = (status: number, error?: string): MockResponse =>
+  error === undefined ? { status } : { status, data: { error } };
+
+/**
+ * 400 con ValidationProblemDetails, como responde [ApiController] cuando falla el model binding
+ * (ej. propiedades string no anulables que llegan vacías).
+ */
+export const validationProblem = (errors: Record<string, string[]>): MockResponse => ({
+  status: 400,
+  data: {
+    type: "https://tools.ietf.org/html/rfc9110#section-15.5.1",
+    title: "One or more validation errors occurred.",
+    status: 400,
+    errors,
+  },
+});
+
+/* Campos requeridos vacíos → errores por campo con el mensaje por defecto de [Required] */
+export function requiredErrors(body: Record<string, unknown>, fields: string[]) {
+  const errors: Record<string, string[]> = {};
+  for (const f of fields) {
+    const value = body[f.charAt(0).toLowerCase() + f.slice(1)];
+    if (typeof value !== "string" || value === "") errors[f] = [`The ${f} field is required.`];
+  }
+  return Object.keys(errors).length ? errors : null;
+}
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  auth: MockAuth;
+  handler: MockHandler;
+};
+
+/**
+ * Router mínimo por método + patrón ("/ratings/movie/:imdbId/summary").
+ * Las rutas se prueban en orden de registro.
+ */
+export class MockRouter {
+  private routes: Route[] = [];
+
+  on(method: string, path: string, handler: MockHandler, auth: MockAuth = "anonymous") {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`, "i"), keys, auth, handler });
+    return this;
+  }
+
+  async handle(req: Omit<MockRequest, "params">): Promise<MockResponse> {
+    for (const route of this.routes) {
+      if (route.method !== req.method) continue;
+      const match = route.pattern.exec(req.path);
+      if (!match) continue;
+
+      if (route.auth !== "anonymous" && !req.user) return fail(401);
+      if (route.auth === "administrator" && req.user?.role !== "administrator") return fail(403);
+
+      const params = Object.fromEntries(route.keys.map((k, i) => [k, decodeURIComponent(match[i + 1])]));
+      return route.handler({ ...req, params });
+    }
+    return fail(404);
+  }
+}
+
+/** Cuerpo JSON de la request (objeto vacío si no vino) */
+export function bodyOf<T>(req: MockRequest): Partial<T> {
+  return req.body && typeof req.body === "object" && !(req.body instanceof FormData) ? (req.body as Partial<T>) : {};
+}
+
+/**
+ * Pagina una lista como PagedResult<T> del backend (?page=&pageSize=).
+ * Devuelve 400 con el mismo mensaje que el servicio si los parámetros son inválidos.
+ */
+export function paged<T>(req: MockRequest, list: T[], defaultPageSize = 20, maxPageSize = 100): MockResponse {
+  const page = Number(req.query.get("page") ?? 1);
+  const pageSize = Number(req.query.get("pageSize") ?? defaultPageSize);
+  if (!Number.isInteger(page) || page < 1) return fail(400, "La página debe ser mayor o igual a 1.");
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxPageSize) {
+    return fail(400, `El tamaño de página debe estar entre 1 y ${maxPageSize}.`);
+  }
+  const items = list.slice((page - 1) * pageSize, page * pageSize);
+  return ok({
+    items,
+    page,
+    pageSize,
+    total: list.length,
+    totalPages: Math.ceil(list.length / pageSize),
+    hasMore: page * pageSize < list.length,
+  });
+}
@@ -0,0 +1,42 @@
+/*
+ * Comparación de textos tolerante a tildes y errores de tipeo (como TextSearch en la API).
+ * Los mocks no importan de @/lib: es una copia chica de lo que necesitan la búsqueda y las sugerencias.
+ */
+
+export const MIN_SCORE = 0.5; // TextSearch.MinScore
+
+/* Minúsculas, sin tildes (é → e, ñ → n) y con los signos convertidos en espacios simples */
+export function normalize(text: string | null | undefined): string {
+  return (text ?? "")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/* Trigramas palabra por palabra ("  m", " ma", "mat", ..., "ix ") */
+function trigrams(normalized: string): Set<string> {
+  const set = new Set<string>();
+  for (const word of normalized.split(" ").filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) set.add(padded.slice(i, i + 3));
+  }
+  return set;
+}
+
+/* Puntaje entre la búsqueda y un texto, ambos normalizados (mismos valores que TextSearch.Score) */
+export function score(query: string, text: string): number {
+  if (!query || !text) return 0;
+  if (text === query) return 2;
+  if (text.startsWith(query)) return 1.75;
+  if (text.includes(` ${query}`)) return 1.5;
+  if (text.includes(query)) return 1;
+
+  const wanted = trigrams(query);
+  const found = trigrams(text);
+  if (wanted.size === 0) return 0;
+  let hits = 0;
+  for (const t of wanted) if (found.has(t)) hits++;
+  return Math.min(0.99, hits / wanted.size);
+}
@@ -0,0 +1,84 @@
+import { db } from "./db";
+import type { MockUser } from "./fixtures";
+
+const ACCESS_MINUTES = Number(import.meta.env.VITE_MOCK_TOKEN_MINUTES ?? 15); // igual que Jwt:AccessTokenMinutes
+const REFRESH_DAYS = 7; // igual que Jwt:RefreshTokenDays
+
+/* Claims del access token (mismos nombres que emite AuthService.GenerateJwt) */
+type AccessClaims = { sub: string; uid: string; role: string; jti: string; exp: number };
+
+/* Contenido del refresh token (en el backend real es opaco; acá es autocontenido para sobrevivir a recargas) */
+type RefreshClaims = { uid: string; jti: string; iat: number; exp: number };
+
+const encode = (value: unknown) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+    .replace(/=+$/, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+
+function decode<T>(part: string): T | null {
+  try {
+    const bin = atob(part.replace(/-/g, "+").replace(/_/g, "/"));
+    return JSON.parse(new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)))) as T;
+  } catch {
+    return null;
+  }
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/** Emite un par de tokens con el mismo formato que /auth/login */
+export function issueTokens(user: MockUser) {
+  const role = user.role === "administrator" ? "administrator" : "user";
+  const access: AccessClaims = {
+    sub: user.username,
+    uid: user.id,
+    role,
+    jti: crypto.randomUUID(),
+    exp: nowSeconds() + ACCESS_MINUTES * 60,
+  };
+  const refresh: RefreshClaims = {
+    uid: user.id,
+    jti: crypto.randomUUID(),
+    iat: Date.now(),
+    exp: nowSeconds() + REFRESH_DAYS * 86_400,
+  };
+  return {
+    token: `${encode({ alg: "none", typ: "JWT" })}.${encode(access)}.mock`,
+    refreshToken: `rt.${encode(refresh)}`,
+  };
+}
+
+/** Usuario del header Authorization, o null si falta, está vencido o el usuario ya no existe */
+export function userFromAuthHeader(header: string | undefined): MockUser | null {
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : null;
+  const claims = token ? decode<AccessClaims>(token.split(".")[1] ?? "") : null;
+  if (!claims || claims.exp <= nowSeconds()) return null;
+  return db.users.find((u) => u.id === claims.uid) ?? null;
+}
+
+/**
+ * Valida y rota un refresh token (misma semántica que AuthService.RefreshAsync).
+ * Reutilizar un token ya rotado invalida todos los refresh tokens del usuario.
+ */
+export function rotateRefreshToken(refreshToken: string): MockUser | null {
+  const claims = refreshToken.startsWith("rt.") ? decode<RefreshClaims>(refreshToken.slice(3)) : null;
+  if (!claims) return null;
+  const user = db.users.find((u) => u.id === claims.uid);
+  if (!user) return null;
+
+  if (db.revokedRefresh.has(claims.jti)) {
+    db.refreshCutoff.set(user.id, Date.now());
+    return null;
+  }
+  if (claims.exp <= nowSeconds() || claims.iat < (db.refreshCutoff.get(user.id) ?? 0)) return null;
+
+  db.revokedRefresh.add(claims.jti);
+  return user;
+}
+
+/** Revoca un refresh token (logout) */
+export function revokeRefreshToken(refreshToken: string) {
+  const claims = refreshToken.startsWith("rt.") ? decode<RefreshClaims>(refreshToken.slice(3)) : null;
+  if (claims) db.revokedRefresh.add(claims.jti);
+}
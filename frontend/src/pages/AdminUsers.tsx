@@ -1,4 +1,5 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toastError } from "@/lib/api-error";
 import { UsersApi } from "@/lib/users";
 import type { UserRow, CreateUserReq } from "@/lib/users";
 import { Button } from "@/components/ui/button";
@@ -31,6 +32,8 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { fileUrl } from "@/lib/utils";
+import { isCanceled } from "@/lib/axios";
+import { useLatest } from "@/lib/latest";
 
 /**
  * Página de administración de usuarios.
@@ -45,6 +48,7 @@ export default function AdminUsers() {
   // Búsqueda / filtro
   const [q, setQ] = useState("");
   const debounceRef = useRef<number | null>(null);
+  const latest = useLatest(); // la última carga del listado gana
 
   // Creación
   const [openCreate, setOpenCreate] = useState(false);
@@ -60,24 +64,25 @@ export default function AdminUsers() {
   // Eliminación
   const [delId, setDelId] = useState<string | null>(null);
 
-  // Carga inicial
-  useEffect(() => {
-    void load();
-  }, []);
-
   // carga (con filtro opcional)
-  async function load(qParam?: string) {
+  const load = useCallback(async (qParam?: string) => {
     try {
       setLoading(true);
-      const data = await UsersApi.list(qParam);
+      const data = await latest.run((signal) => UsersApi.list(qParam, { signal }));
       setRows(Array.isArray(data) ? data : []);
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo cargar el listado");
+      setLoading(false);
+    } catch (e) {
+      if (isCanceled(e)) return; // reemplazada por una carga más nueva
+      toastError(e, "No se pudo cargar el listado");
       setRows([]);
-    } finally {
       setLoading(false);
     }
-  }
+  }, [latest]);
+
+  // Carga inicial
+  useEffect(() => {
+    void load();
+  }, [load]);
 
   // debounce del filtro
   useEffect(() => {
@@ -89,7 +94,7 @@ export default function AdminUsers() {
     return () => {
       if (debounceRef.current) window.clearTimeout(debounceRef.current);
     };
-  }, [q]);
+  }, [q, load]);
 
   /* Crear usuario */
   async function onCreate() {
@@ -111,8 +116,8 @@ export default function AdminUsers() {
       setCPassword("");
       setCRole("user");
       setOpenCreate(false);
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo crear el usuario");
+    } catch (e) {
+      toastError(e, "No se pudo crear el usuario");
     }
   }
 
@@ -122,8 +127,8 @@ export default function AdminUsers() {
       await UsersApi.remove(id);
       toast.success("Usuario eliminado");
       await load(q.trim() || undefined);
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo eliminar");
+    } catch (e) {
+      toastError(e, "No se pudo eliminar");
     } finally {
       setDelId(null);
     }
@@ -0,0 +1,70 @@
+import { Link, useParams } from "react-router-dom";
+import { ApiError, errorMessage } from "@/lib/api-error";
+import { BrowseApi, SECTION_INFO, browseKeys, genreSearchPath } from "@/lib/browse";
+import { useQuery } from "@/lib/query";
+import MovieRow from "@/components/MovieRow";
+import { ChevronLeft } from "lucide-react";
+
+/**
+ * Página de un género.
+ * Muestra secciones del catálogo local (mejor calificadas por la comunidad, mejor rating de IMDb,
+ * estrenos y las más agregadas a listas); las secciones vacías no se muestran.
+ * "Ver todas" abre la búsqueda de Home con el género y el orden de la sección.
+ */
+export default function Genre() {
+  const { genre = "" } = useParams<{ genre: string }>(); // nombre (ya decodificado por el router)
+  const genreQ = useQuery(browseKeys.genre(genre), (signal) => BrowseApi.genre(genre, { signal }), {
+    enabled: !!genre,
+    staleTime: 60_000,
+  });
+
+  const data = genreQ.data ?? null;
+
+  if (genreQ.loading) return <div className="text-sm text-gray-500">Cargando…</div>;
+  if (!data) {
+    const notFound = ApiError.from(genreQ.error).status === 404;
+    return (
+      <div className="text-center text-gray-500">
+        {notFound ? `Ninguna película del catálogo es de «${genre}».` : errorMessage(genreQ.error, "No se pudo cargar el género.")}
+        <div className="mt-2">
+          <Link to="/genres" className="underline">
+            Ver todos los géneros
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const sections = data.sections.filter((s) => s.movies.length > 0);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <Link to="/genres" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+        <ChevronLeft className="h-4 w-4" />
+        Géneros
+      </Link>
+      <h1 className="mt-1 text-3xl font-semibold">{data.name}</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        {data.count} título{data.count === 1 ? "" : "s"} en el catálogo ·{" "}
+        <Link to={genreSearchPath(data.name, "relevance")} className="underline">
+          buscar dentro del género
+        </Link>
+      </p>
+
+      <div className="mt-6 space-y-8">
+        {sections.map((s) => {
+          const info = SECTION_INFO[s.key];
+          return (
+            <MovieRow
+              key={s.key}
+              title={info.title}
+              movies={s.movies}
+              stat={info.stat}
+              moreTo={info.sort ? genreSearchPath(data.name, info.sort) : undefined}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { errorMessage } from "@/lib/api-error";
+import { BrowseApi, browseKeys, genrePath } from "@/lib/browse";
+import type { GenreSummaryDto } from "@/lib/browse";
+import { useQuery } from "@/lib/query";
+
+/* Mosaico 2x2 con los pósters del género (los huecos quedan grises) */
+function Mosaic({ genre }: { genre: GenreSummaryDto }) {
+  const cells = [0, 1, 2, 3].map((i) => genre.posters[i] ?? null);
+  return (
+    <div className="grid grid-cols-2 grid-rows-2 aspect-[4/3] overflow-hidden rounded-t-md bg-gray-200">
+      {cells.map((src, i) =>
+        src ? (
+          <img key={i} src={src} alt="" className="h-full w-full object-cover" loading="lazy" />
+        ) : (
+          <div key={i} className="bg-gray-100" />
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Página para explorar el catálogo por género.
+ * Lista todos los géneros con un mosaico de pósters y su cantidad de títulos; cada uno lleva a /genres/:genre.
+ */
+export default function Genres() {
+  const genresQ = useQuery(browseKeys.genres, (signal) => BrowseApi.genres({ signal }), { staleTime: 5 * 60_000 });
+  const genres = genresQ.data ?? [];
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <h1 className="text-3xl font-semibold">Géneros</h1>
+      <p className="mt-1 text-gray-600">Explorá el catálogo sin buscar: elegí un género para ver lo mejor calificado, lo más nuevo y lo más agregado a listas.</p>
+
+      {genresQ.loading && <div className="mt-6 text-sm text-gray-500">Cargando…</div>}
+      {!!genresQ.error && genres.length === 0 && (
+        <div className="mt-6 text-center text-gray-500">{errorMessage(genresQ.error, "No se pudieron cargar los géneros.")}</div>
+      )}
+      {!genresQ.loading && !genresQ.error && genres.length === 0 && (
+        <div className="mt-6 text-center text-gray-500">Todavía no hay películas en el catálogo. Buscá alguna desde el inicio.</div>
+      )}
+
+      <div className="mt-6 grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-6">
+        {genres.map((g) => (
+          <Link
+            key={g.name}
+            to={genrePath(g.name)}
+            className="rounded-md border bg-white shadow-sm transition-shadow hover:shadow-lg"
+          >
+            <Mosaic genre={g} />
+            <div className="flex items-baseline justify-between gap-2 p-3">
+              <span className="font-medium">{g.name}</span>
+              <span className="text-xs text-gray-500">
+                {g.count} título{g.count === 1 ? "" : "s"}
+              </span>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
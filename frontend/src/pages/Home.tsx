@@ -1,94 +1,220 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import { api } from "@/lib/axios";
-import { Input } from "@/components/ui/input";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MoviesApi, SEARCH_PAGE_SIZE, movieKeys } from "@/lib/movies";
+import { getQueryData, setQueryData } from "@/lib/query";
+import type { PagedResult } from "@/lib/paged";
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
+import LoadMore from "@/components/LoadMore";
+import { isCanceled } from "@/lib/axios";
+import type { RetryInfo } from "@/lib/axios";
+import { toastError } from "@/lib/api-error";
+import { useLatest } from "@/lib/latest";
+import type { MovieKind, MovieListItemDto, MovieSort } from "@/lib/movies";
+import {
+  SORT_OPTIONS,
+  effectiveFilters,
+  isSearchable,
+  rangeError,
+  readSearchState,
+  toSearchParams,
+  writeSearchState,
+} from "@/lib/search-params";
+import type { MovieSearchFilters } from "@/lib/search-params";
+import RangeFilters from "@/components/RangeFilters";
+import GenrePicker from "@/components/GenrePicker";
+import SearchCombobox from "@/components/SearchCombobox";
+import QuerySyntax from "@/components/QuerySyntax";
+import Discover from "@/components/Discover";
+import Highlight from "@/components/Highlight";
+import { parseQuery } from "@/lib/query-language";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { toast } from "sonner";
-import { Link } from "react-router-dom";
-import { Search } from "lucide-react";
-
-
-/* Tipo que representa un ítem de película en la lista de resultados */
-type MovieListItemDto = {
-  imdbId: string;
-  title: string;
-  type: "movie" | "series" | string;
-  genre?: string | null;
-  poster?: string | null;
-  imdbRating?: number | null;
-  year?: number | null; 
-}; 
-
-// Géneros disponibles (según OMDB)
-const GENRES = [
-  "Action","Adventure","Animation","Biography","Comedy","Crime","Documentary","Drama",
-  "Family","Fantasy","History","Horror","Music","Musical","Mystery","Romance","Sci-Fi",
-  "Sport","Thriller","War","Western",
-];
+import { Link, useSearchParams } from "react-router-dom";
+
 
 /**
  * Página de inicio con búsqueda y filtros de películas.
- * Permite buscar por título, género y tipo (película o serie).
+ * Permite buscar por título, géneros (incluir/excluir, alguno o todos) y tipo (película o serie), filtrar por rangos
+ * (año de estreno, rating de IMDb, duración) y elegir el orden.
  * Muestra resultados en una grilla de tarjetas.
- * Utiliza debounce para optimizar búsquedas.
- * Muestra mensajes cuando no hay resultados o no se ha buscado aún.
+ * Utiliza debounce para optimizar búsquedas; mientras tanto, el buscador sugiere títulos y personas.
+ * El buscador entiende campos (director:nolan year:>=2010 -genre:horror ...; ver lib/query-language.ts).
+ * Los filtros viven en la URL (?q=&genres=&exclude=&type=&yearFrom=&...&sort=): se restauran al recargar o volver atrás y se pueden compartir.
+ * Muestra mensajes cuando no hay resultados; sin búsqueda muestra la portada (components/Discover.tsx).
  */
 export default function Home() {
-  // Filtros (servidor)
-  const [title, setTitle] = useState("");
-  const [genre, setGenre] = useState<string>("");                           // "" = sin filtro
-  const [type, setType] = useState<"" | "movie" | "series">("");            // "" = sin filtro
+  // Filtros (servidor), sincronizados con la URL: recargar, volver atrás o compartir el link conserva la búsqueda
+  const [params, setParams] = useSearchParams();
+  const paramsKey = params.toString();
+  const urlState = useMemo(() => readSearchState(new URLSearchParams(paramsKey)), [paramsKey]);
+  const { title: urlTitle, genreMatch, type, yearFrom, yearTo, minImdbRating, runtimeMin, runtimeMax, sort } = urlState;
+  // las listas se comparan por contenido: el memo no cambia si la URL no cambió
+  const genresKey = urlState.genres.join(",");
+  const excludeKey = urlState.excludeGenres.join(",");
+  const filters = useMemo<MovieSearchFilters>(
+    () => ({
+      title: urlTitle,
+      genres: genresKey ? genresKey.split(",") : [],
+      genreMatch,
+      excludeGenres: excludeKey ? excludeKey.split(",") : [],
+      type,
+      yearFrom,
+      yearTo,
+      minImdbRating,
+      runtimeMin,
+      runtimeMax,
+      sort,
+    }),
+    [urlTitle, genresKey, genreMatch, excludeKey, type, yearFrom, yearTo, minImdbRating, runtimeMin, runtimeMax, sort]
+  );
+
+  // El título se edita localmente y se pasa a la URL con debounce
+  const [titleInput, setTitleInput] = useState(filters.title);
+  const parsedInput = useMemo(() => parseQuery(titleInput), [titleInput]); // campos y errores de lo escrito
+  const searchedTitle = useMemo(() => effectiveFilters(filters).title, [filters]); // texto libre buscado (para resaltar)
+  const lastWrittenTitle = useRef(filters.title); // último título que escribimos en la URL
 
-  // Resultados
+  // Resultados: páginas cargadas hasta ahora (al volver desde el detalle se restauran de la caché)
+  const [results, setResults] = useState<PagedResult<MovieListItemDto> | null>(
+    () => getQueryData<PagedResult<MovieListItemDto>>(movieKeys.search(filters)) ?? null
+  );
   const [loading, setLoading] = useState(false);
-  const [items, setItems] = useState<MovieListItemDto[]>([]);
-  const [autoFetched, setAutoFetched] = useState(false);
-
-  // Debounce
-  const timer = useRef<number | null>(null);
-  const canSearch = useMemo(
-    () =>
-      title.trim().length >= 2 ||
-      genre.trim().length > 0 ||
-      type.trim().length > 0,
-    [title, genre, type]
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [retry, setRetry] = useState<RetryInfo | null>(null); // reintento en curso (el servidor falló)
+  const items = results?.items ?? [];
+  const restoredFromCache = useRef(results !== null); // la primera búsqueda no hace falta si ya estaba en caché
+  const pagesToRestore = useRef(urlState.page); // ?page=N al recargar: se traen las N páginas de una vez
+
+  useScrollRestoration(results !== null && !loading);
+
+  // Cancelación de búsquedas viejas (la última gana)
+  const latest = useLatest();
+
+  /*
+   * Actualiza los filtros en la URL (vuelve a la primera página).
+   * replace = true para el tipeo (no llena el historial); los cambios de filtro agregan una entrada.
+   */
+  const updateFilters = useCallback(
+    (patch: Partial<MovieSearchFilters>, replace: boolean) => {
+      if (patch.title !== undefined) lastWrittenTitle.current = patch.title;
+      setParams((prev) => writeSearchState({ ...readSearchState(prev), ...patch, page: 1 }), { replace });
+    },
+    [setParams]
   );
 
+  // el título cambió desde afuera (atrás/adelante, link): se refleja en el input
+  useEffect(() => {
+    if (filters.title === lastWrittenTitle.current) return;
+    lastWrittenTitle.current = filters.title;
+    setTitleInput(filters.title);
+  }, [filters.title]);
+
+  // debounce del tipeo → URL (reemplaza la entrada actual del historial)
   useEffect(() => {
-    if (!canSearch) {
-      setItems([]);
-      setAutoFetched(false);
+    const next = titleInput.trim();
+    if (next === filters.title) return;
+    const timer = window.setTimeout(() => updateFilters({ title: next }, true), 400);
+    return () => window.clearTimeout(timer);
+  }, [titleInput, filters.title, updateFilters]);
+
+  /* Guarda las páginas cargadas: en la caché (para volver atrás) y su cantidad en la URL (para recargar) */
+  const keepResults = useCallback(
+    (f: MovieSearchFilters, data: PagedResult<MovieListItemDto>) => {
+      setResults(data);
+      setQueryData(movieKeys.search(f), data);
+      const current = readSearchState(new URLSearchParams(window.location.search));
+      if (current.page !== data.page) {
+        setParams((prev) => writeSearchState({ ...readSearchState(prev), page: data.page }), { replace: true });
+      }
+    },
+    [setParams]
+  );
+
+  const search = useCallback(
+    async (f: MovieSearchFilters) => {
+      if (!isSearchable(f)) {
+        latest.cancel();
+        setResults(null);
+        setLoading(false);
+        setLoadingMore(false);
+        setRetry(null);
+        return;
+      }
+      // al recargar con ?page=N se piden las N primeras páginas en una sola request
+      const pages = Math.min(pagesToRestore.current, Math.floor(100 / SEARCH_PAGE_SIZE));
+      pagesToRestore.current = 1;
+      setLoading(true);
+      setLoadingMore(false);
+      setRetry(null);
+      try {
+        const data = await latest.run((signal) =>
+          MoviesApi.search(
+            { ...toSearchParams(f), pageSize: SEARCH_PAGE_SIZE * pages },
+            { signal, onRetry: (info) => !signal.aborted && setRetry(info) }
+          )
+        );
+        keepResults(f, {
+          ...data,
+          page: pages,
+          pageSize: SEARCH_PAGE_SIZE,
+          totalPages: Math.ceil(data.total / SEARCH_PAGE_SIZE),
+          hasMore: pages * SEARCH_PAGE_SIZE < data.total,
+        });
+        setLoading(false);
+        setRetry(null);
+      } catch (e) {
+        if (isCanceled(e)) return; // la reemplazó una búsqueda más nueva (sigue cargando)
+        toastError(e, "No se pudo realizar la búsqueda");
+        setLoading(false);
+        setRetry(null);
+      }
+    },
+    [latest, keepResults]
+  );
+
+  // cada cambio de filtros en la URL dispara la búsqueda
+  useEffect(() => {
+    if (restoredFromCache.current) {
+      restoredFromCache.current = false; // volvimos desde otra página: se muestra lo que ya estaba cargado
       return;
     }
-    if (timer.current) window.clearTimeout(timer.current);
-    timer.current = window.setTimeout(() => {
-      void search();
-    }, 400);
-    return () => {
-      if (timer.current) window.clearTimeout(timer.current);
-    };
-  }, [title, genre, type]);
-
-  async function search() {
-    if (!canSearch) return;
-    setLoading(true);
+    void search(filters);
+  }, [filters, search]);
+
+  /* Trae la página siguiente y la agrega al final (scroll infinito) */
+  const loadMore = useCallback(async () => {
+    if (!results?.hasMore || loading || loadingMore) return;
+    const f = filters;
+    setLoadingMore(true);
     try {
-      const { data } = await api.get<MovieListItemDto[]>("/movies/search", {
-        params: {
-          title,
-          genre: genre || undefined,      // Si es = a Todos, no lo mandamos
-          type: type || undefined,        // Si es = a Todos, no lo mandamos
-        },
-      });
-      setItems(data ?? []);
-      setAutoFetched(true);
-    } catch (e: any) {
-      const msg = e?.response?.data?.error ?? "No se pudo realizar la búsqueda";
-      toast.error(msg);
+      const data = await latest.run((signal) =>
+        MoviesApi.search(
+          { ...toSearchParams(f), page: results.page + 1 },
+          { signal, onRetry: (info) => !signal.aborted && setRetry(info) }
+        )
+      );
+      // si el catálogo cambió entre páginas, se evitan duplicados
+      const seen = new Set(results.items.map((m) => m.imdbId));
+      keepResults(f, { ...data, items: [...results.items, ...data.items.filter((m) => !seen.has(m.imdbId))] });
+    } catch (e) {
+      if (isCanceled(e)) return;
+      toastError(e, "No se pudieron cargar más resultados");
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+      setRetry(null);
     }
+  }, [results, loading, loadingMore, filters, latest, keepResults]);
+
+  /* Buscar ya (Enter o botón): pasa el título pendiente a la URL o repite la búsqueda actual */
+  function submit() {
+    const next = titleInput.trim();
+    if (next !== filters.title) updateFilters({ title: next }, true);
+    else void search(filters);
+  }
+
+  /* Cambio de un filtro (select, géneros o rango): agrega una entrada al historial (incluye el título tipeado) */
+  function changeFilter(patch: Partial<MovieSearchFilters>) {
+    updateFilters({ ...patch, title: titleInput.trim() }, false);
   }
 
   return (
@@ -97,78 +223,92 @@ export default function Home() {
       <div className="mb-8 text-center">
         <h1 className="text-3xl font-bold tracking-tight">🎬 Buscá tu próxima película</h1>
         <p className="text-gray-600">
-          Filtrá por <span className="font-medium">título</span>, <span className="font-medium">género</span> o <span className="font-medium">tipo</span>.
+          Filtrá por <span className="font-medium">título</span>, <span className="font-medium">géneros</span>, <span className="font-medium">tipo</span>, año, rating o duración.
         </p>
       </div>
 
       {/* Search + filtros */}
       <div className="flex flex-col gap-4 mb-6">
         <div className="flex gap-2 max-w-xl mx-auto w-full">
-          <div className="relative flex-1">
-            <Input
-              placeholder="Busca por título o ImdbId..."
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              onKeyDown={(e) => e.key === "Enter" && search()}
-              className="pl-10"
-            />
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-          </div>
-          <Button onClick={search} disabled={!canSearch || loading}>
-            {loading ? "Buscando..." : "Buscar"}
+          {/* Sugerencias mientras se escribe: películas y personas (flechas + Enter para ir directo) */}
+          <SearchCombobox
+            placeholder="Busca por título o ImdbId... (ej. director:nolan year:>=2010)"
+            value={titleInput}
+            suggestFor={parsedInput.text}
+            onChange={setTitleInput}
+            onSubmit={submit}
+          />
+          <Button onClick={submit} disabled={!isSearchable({ ...filters, title: titleInput.trim() }) || loading}>
+            {loading ? (retry ? "Reintentando..." : "Buscando...") : "Buscar"}
           </Button>
         </div>
+        <QuerySyntax input={titleInput} parsed={parsedInput} />
+        {retry && (
+          <div className="text-center text-xs text-amber-700">
+            El servidor no respondió. Reintentando ({retry.attempt}/{retry.maxAttempts})…
+          </div>
+        )}
+
+        {/* Géneros */}
+        <GenrePicker value={filters} onChange={changeFilter} />
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-3xl mx-auto w-full">
-          {/* Género */}
+          {/* Tipo */}
           <div>
-            <div className="text-xs text-gray-500 mb-1">Género</div>
+            <div className="text-xs text-gray-500 mb-1">Tipo</div>
             <Select
               // usamos "all" para representar "Todos" en el Select, y lo traducimos a "" en el estado
-              value={genre || "all"}
-              onValueChange={(v) => setGenre(v === "all" ? "" : v)}
+              value={type || "all"}
+              onValueChange={(v) => changeFilter({ type: (v === "all" ? "" : v) as "" | MovieKind })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Todos" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Todos</SelectItem>
-                {GENRES.map((g) => (
-                  <SelectItem key={g} value={g}>
-                    {g}
-                  </SelectItem>
-                ))}
+                <SelectItem value="movie">Película</SelectItem>
+                <SelectItem value="series">Serie</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          {/* Tipo */}
+          {/* Orden */}
           <div>
-            <div className="text-xs text-gray-500 mb-1">Tipo</div>
-            <Select
-              value={type || "all"}
-              onValueChange={(v) => setType((v === "all" ? "" : v) as "" | "movie" | "series")}
-            >
+            <div className="text-xs text-gray-500 mb-1">Ordenar por</div>
+            <Select value={sort} onValueChange={(v) => changeFilter({ sort: v as MovieSort })}>
               <SelectTrigger>
-                <SelectValue placeholder="Todos" />
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">Todos</SelectItem>
-                <SelectItem value="movie">Película</SelectItem>
-                <SelectItem value="series">Serie</SelectItem>
+                {SORT_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </div>
+
+        {/* Rangos: año de estreno, rating de IMDb y duración */}
+        <RangeFilters filters={filters} error={rangeError(filters)} onChange={changeFilter} />
       </div>
 
       {/* Mensajes */}
-      {!autoFetched && items.length === 0 && !loading && (
-        <div className="text-center text-gray-500">Escribí al menos 2 caracteres para buscar.</div>
+      {!results && items.length === 0 && !loading && rangeError(effectiveFilters(filters)) && (
+        <div className="text-center text-gray-500">Corregí los filtros para buscar.</div>
       )}
-      {autoFetched && items.length === 0 && !loading && (
+      {/* Sin búsqueda: portada con filas del catálogo */}
+      {!results && items.length === 0 && !loading && !rangeError(effectiveFilters(filters)) && <Discover />}
+      {results && items.length === 0 && !loading && (
         <div className="text-center text-gray-500">😕 No se encontraron resultados.</div>
       )}
+      {results && results.total > 0 && (
+        <div className="mb-3 text-sm text-gray-500">
+          {results.total} resultado{results.total === 1 ? "" : "s"}
+          {results.hasMore && ` · mostrando ${items.length}`}
+        </div>
+      )}
 
       {/* Grid de resultados */}
       <div className="grid grid-cols-[repeat(auto-fill,minmax(180px,1fr))] gap-6">
@@ -190,7 +330,9 @@ export default function Home() {
                 )}
               </CardHeader>
               <CardContent className="p-3">
-                <div className="font-medium text-sm line-clamp-2">{m.title}</div>
+                <div className="font-medium text-sm line-clamp-2">
+                  <Highlight text={m.title} query={searchedTitle} />
+                </div>
                 <div className="text-xs text-gray-500 mt-1 flex items-center gap-2">
                   {m.year != null ? <span>Año {m.year}</span> : null}
                   {m.type ? <span className="uppercase tracking-wide">{m.type}</span> : null}
@@ -203,6 +345,8 @@ export default function Home() {
           </Card>
         ))}
       </div>
+
+      <LoadMore hasMore={!!results?.hasMore && !loading} loading={loadingMore} onLoadMore={loadMore} />
     </div>
   );
 }
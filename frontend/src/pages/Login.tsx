@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { useAuth } from "@/context/auth";
+import { applyFormErrors } from "@/lib/api-error";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -52,12 +53,12 @@ export default function Login() {
 
   /* Maneja el envío del formulario */
   async function onSubmit(values: FormData) {
-    const ok = await login(values.username, values.password);
-    if (ok) {
+    try {
+      await login(values.username, values.password);
       toast.success("¡Bienvenido!");
       nav("/");
-    } else {
-      toast.error("Usuario o contraseña inválidos");
+    } catch (e) {
+      applyFormErrors(form, e, "No se pudo iniciar sesión"); // validación del servidor en los campos; el resto en un toast
     }
   }
 
@@ -1,77 +1,141 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams } from "react-router-dom";
-import { api } from "@/lib/axios";
+import { toastError } from "@/lib/api-error";
+import { MoviesApi, movieKeys } from "@/lib/movies";
+import { isCanceled } from "@/lib/axios";
+import type { RetryInfo } from "@/lib/axios";
+import { RatingsApi, formatScore, ratingKeys } from "@/lib/ratings";
+import type { HelpfulDto, RatingDto, RatingSort, RatingsQuery } from "@/lib/ratings";
+import type { PagedResult } from "@/lib/paged";
+import { useLatest } from "@/lib/latest";
+import { watchlistKeys } from "@/lib/watchlist";
+import { browseKeys } from "@/lib/browse";
+import { OfflineRatings, OfflineWatchlist } from "@/lib/offline";
+import { userKeys } from "@/lib/users";
+import { invalidateQueries, useQuery } from "@/lib/query";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { useAuth } from "@/context/auth";
 import StarPicker from "@/components/StarPicker";
+import PersonLinks from "@/components/PersonLinks";
+import RatingSummary from "@/components/RatingSummary";
+import Markdown from "@/components/Markdown";
+import ReviewEditor from "@/components/ReviewEditor";
+import LoadMore from "@/components/LoadMore";
 import { fileUrl } from "@/lib/utils";
-import { Star } from "lucide-react";
-
-/* Tipo que representa el detalle de una película */
-type MovieDetailDto = {
-  imdbId: string;
-  title: string;
-  type: "movie" | "series";
-  genre?: string | null;
-  released?: string | null;          // "yyyy-MM-dd"
-  runtimeMinutes?: number | null;
-  poster?: string | null;
-  country?: string | null;
-  imdbRating?: number | null;
-  director?: string | null;
-  writer?: string | null;
-  actors?: string | null;
-  year?: number | null;
-};
-
-/* Tipo que representa el resumen de calificaciones de una película */
-type SummaryDto = {
-  imdbId: string;
-  title: string;
-  count: number;
-  average: number;
-};
-
-/* Tipo que representa una calificación */
-type Rating = {
-  id: string;
-  imdbId: string;
-  title: string;
-  qualification: number;
-  comment?: string | null;
-  date: string;
-  username: string;
-  fullname: string;
-  avatarUrl?: string | null;
-};
+import { Pencil, ThumbsUp, Trash2 } from "lucide-react";
 
+/* Órdenes de las reseñas de la comunidad */
+const REVIEW_SORTS: { value: RatingSort; label: string }[] = [
+  { value: "newest", label: "Más nuevas" },
+  { value: "oldest", label: "Más antiguas" },
+  { value: "highest", label: "Mejor calificadas" },
+  { value: "lowest", label: "Peor calificadas" },
+  { value: "helpful", label: "Más útiles" },
+];
+
+const DEFAULT_REVIEW_QUERY: RatingsQuery = { sort: "newest", withComment: false, stars: null };
+
+/* Páginas de reseñas cargadas con "Cargar más" a partir de una primera página (`base`) */
+type MoreReviews = { base: PagedResult<RatingDto>; items: RatingDto[]; page: number; hasMore: boolean };
 
 /**
  * Página de detalle de película.
  * Muestra información detallada, permite agregar a watchlist y calificar.
- * Muestra reseñas de otros usuarios.
+ * Muestra reseñas de otros usuarios; la mía va primero, resaltada y editable en el lugar.
+ * Las reseñas se piden paginadas al servidor, con orden (nuevas, antiguas, mejor o peor calificadas, más útiles)
+ * y filtros (sólo con comentario, por estrellas); las de otros se pueden marcar como útiles.
+ * Mi calificación se puede borrar (con "Deshacer" en el aviso).
+ * Los comentarios son markdown (con vista previa al escribir y ||spoilers|| borrosos); las reseñas marcadas
+ * con spoilers se muestran tapadas hasta que se pide verlas.
+ * Director, guion y elenco enlazan a la página de cada persona.
+ * El resumen de la comunidad muestra el histograma por estrellas y compara mi calificación con la comunidad e IMDb.
  */
 export default function MovieDetail() {
-  const { id } = useParams<{ id: string }>(); // imdbId
+  const { id = "" } = useParams<{ id: string }>(); // imdbId
   const { user } = useAuth(); // usuario autenticado (si hay)
 
-  const [movie, setMovie] = useState<MovieDetailDto | null>(null); // detalle
-  const [summary, setSummary] = useState<SummaryDto | null>(null); // resumen
-  const [reviews, setRatings] = useState<Rating[]>([]); // calificaciones
-  const [loading, setLoading] = useState(true); // cargando
-  const [inWatchlist, setInWatchlist] = useState(false); // en watchlist
+  // consultas en paralelo (cacheadas y deduplicadas entre páginas)
+  // (al salir de la película, las cargas pendientes se abortan)
+  const [retry, setRetry] = useState<RetryInfo | null>(null); // reintento del detalle en curso (falla de OMDb/servidor)
+  const movieQ = useQuery(
+    movieKeys.detail(id),
+    (signal) =>
+      MoviesApi.get(id, { signal, onRetry: (info) => !signal.aborted && setRetry(info) }).finally(() => setRetry(null)),
+    { enabled: !!id }
+  );
+  const summaryQ = useQuery(ratingKeys.summary(id), (signal) => RatingsApi.summary(id, { signal }), {
+    enabled: !!id,
+  });
+  const [reviewQuery, setReviewQuery] = useState<RatingsQuery>(DEFAULT_REVIEW_QUERY); // orden y filtros de las reseñas
+  const reviewsQ = useQuery(
+    ratingKeys.byMovie(id, reviewQuery),
+    (signal) => RatingsApi.byMovie(id, reviewQuery, 1, { signal }),
+    { enabled: !!id }
+  ); // primera página
+  // watchlist y mis calificaciones también sin conexión (copia local + cambios en cola)
+  const watchlistQ = useQuery(watchlistKeys.all, (signal) => OfflineWatchlist.list(user?.id ?? "", { signal }), {
+    enabled: !!user,
+  });
+  const mineQ = useQuery(ratingKeys.mine, (signal) => OfflineRatings.mine(user?.id ?? "", { signal }), {
+    enabled: !!user,
+  });
+
+  const movie = movieQ.data ?? null; // detalle
+  const summary = summaryQ.data ?? null; // resumen
+  const firstPage = reviewsQ.data ?? null; // primera página de reseñas
+  const loading = movieQ.loading; // cargando
+  const inWatchlist = !!user && (watchlistQ.data ?? []).some((x) => x.imdbId === id); // en watchlist
+  const myRating = user ? mineQ.data?.find((x) => x.imdbId === id) : undefined; // mi calificación guardada
+  const isMine = (r: RatingDto) => !!user && r.username === user.username; // reseña propia
+
+  // páginas siguientes: valen mientras no cambie la primera (otro orden o filtro, o se recargó)
+  const latest = useLatest();
+  const [more, setMore] = useState<MoreReviews | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const extra = more && more.base === firstPage ? more : null;
+  const hasMoreReviews = extra ? extra.hasMore : !!firstPage?.hasMore;
+
+  // votos de "útil" respondidos por el servidor (pisan a los de las páginas ya cargadas)
+  const [helpful, setHelpful] = useState<Map<string, HelpfulDto>>(() => new Map());
+  const [voting, setVoting] = useState<string | null>(null); // reseña con el voto en curso
+  const withHelpful = (r: RatingDto): RatingDto => {
+    const h = helpful.get(r.id);
+    return h ? { ...r, helpfulCount: h.helpfulCount, helpfulByMe: h.helpfulByMe } : r;
+  };
+
+  // la mía fijada arriba (aunque no coincida con los filtros); el resto sin repetidos
+  const otherReviews = useMemo(() => {
+    const seen = new Set<string>();
+    return [...(firstPage?.items ?? []), ...(extra?.items ?? [])].filter((r) => {
+      if (seen.has(r.id) || (!!user && r.username === user.username)) return false;
+      seen.add(r.id);
+      return true;
+    });
+  }, [firstPage, extra, user]);
+  const shownReviews = [...(myRating ? [myRating] : []), ...otherReviews].map(withHelpful);
+  const filtered = reviewQuery.withComment || reviewQuery.stars !== null;
 
   // mi rating
   const [myScore, setMyScore] = useState(0); // 0 = sin calificar
   const [myComment, setMyComment] = useState(""); // mi comentario
+  const [mySpoilers, setMySpoilers] = useState(false); // mi reseña contiene spoilers
   const canRate = useMemo(() => !!user && !!movie, [user, movie]); // puede calificar si está logueado y hay película
 
+  // edición de mi reseña en la lista de la comunidad
+  const [editing, setEditing] = useState(false);
+  const [draftScore, setDraftScore] = useState(0);
+  const [draftComment, setDraftComment] = useState("");
+  const [draftSpoilers, setDraftSpoilers] = useState(false);
+
+  // reseñas con spoilers que pedí ver
+  const [revealed, setRevealed] = useState<Set<string>>(() => new Set());
+
   // géneros como array
   const genres = useMemo(
     () =>
@@ -82,99 +146,192 @@ export default function MovieDetail() {
     [movie?.genre]
   );
 
-  // carga inicial
+  // integrantes (las listas del DTO; si no vinieran, se separan los textos unidos por ", ")
+  const names = (list: string[] | undefined, joined: string | null | undefined) =>
+    list ?? (joined ?? "").split(",").map((n) => n.trim()).filter(Boolean);
+  const directors = names(movie?.directors, movie?.director);
+  const writers = names(movie?.writers, movie?.writer);
+  const cast = names(movie?.cast, movie?.actors);
+
+  // precarga el formulario con mi calificación guardada (al cambiar de película o tras guardar)
+  useEffect(() => {
+    setMyScore(myRating?.qualification ?? 0);
+    setMyComment(myRating?.comment ?? "");
+    setMySpoilers(myRating?.containsSpoilers ?? false);
+  }, [id, myRating?.id, myRating?.date, myRating?.qualification, myRating?.comment, myRating?.containsSpoilers]);
+
+  // al cambiar de película se cierra la edición de mi reseña
+  useEffect(() => {
+    setEditing(false);
+  }, [id]);
+
+  // error al cargar el detalle
   useEffect(() => {
-    (async () => {
-      if (!id) return;
-      try {
-        setLoading(true);
-
-        const m = await api.get<MovieDetailDto>(`/movies/${id}`);
-        setMovie(m.data);
-
-        const s = await api.get<SummaryDto>(`/ratings/movie/${id}/summary`).catch(() => null);
-        if (s?.data) setSummary(s.data);
-
-        const rs = await api.get<Rating[]>(`/ratings/movie/${id}`).catch(() => null);
-        if (rs?.data) setRatings(rs.data);
-
-        if (user) {
-          const wl = await api.get<any[]>("/watchlist").catch(() => ({ data: [] as any[] }));
-          const found = (wl.data ?? []).some((x) => (x.imdbId ?? x.imdbID) === id);
-          setInWatchlist(found);
-
-          const mine = await api.get<Rating[]>("/ratings/me").catch(() => null);
-          const r = mine?.data?.find((x) => x.imdbId === id);
-          if (r) {
-            setMyScore(r.qualification);
-            setMyComment(r.comment ?? "");
-          } else {
-            setMyScore(0);
-            setMyComment("");
-          }
-        } else {
-          setInWatchlist(false);
-          setMyScore(0);
-          setMyComment("");
-        }
-      } catch (e: any) {
-        toast.error(e?.response?.data?.error ?? "No se pudo cargar el detalle");
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, [id, user]);
+    if (movieQ.error) toastError(movieQ.error, "No se pudo cargar el detalle");
+  }, [movieQ.error]);
 
   /* Agrega la película a la watchlist */
   async function addToWatchlist() {
+    if (!user) return;
     try {
-      await api.post("/watchlist", { imdbId: id });
-      setInWatchlist(true);
-      toast.success("Agregada a tu lista");
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo agregar");
+      const { queued } = await OfflineWatchlist.add(user.id, {
+        imdbId: id,
+        title: movie?.title ?? id,
+        poster: movie?.poster,
+      });
+      if (queued) toast.info("Sin conexión: se agregará a tu lista al reconectar");
+      else toast.success("Agregada a tu lista");
+      void invalidateQueries(watchlistKeys.all);
+      void invalidateQueries(userKeys.summary);
+      void invalidateQueries(browseKeys.all);
+    } catch (e) {
+      toastError(e, "No se pudo agregar");
     }
   }
 
   /* Quita la película de la watchlist */
   async function removeFromWatchlist() {
+    if (!user) return;
     try {
-      await api.delete(`/watchlist/${id}`);
-      setInWatchlist(false);
-      toast.success("Quitada de tu lista");
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo quitar");
+      const { queued } = await OfflineWatchlist.remove(user.id, id, movie?.title ?? id);
+      if (queued) toast.info("Sin conexión: se quitará de tu lista al reconectar");
+      else toast.success("Quitada de tu lista");
+      void invalidateQueries(watchlistKeys.all);
+      void invalidateQueries(userKeys.summary);
+      void invalidateQueries(browseKeys.all);
+    } catch (e) {
+      toastError(e, "No se pudo quitar");
     }
   }
 
-  /* Guarda mi calificación */
-  async function saveRating() {
-    if (!canRate) {
+  /* Recarga reseñas + resumen de esta película, mis calificaciones, mi resumen de perfil y las secciones de exploración */
+  function refreshRatings() {
+    void invalidateQueries(ratingKeys.movie(id));
+    void invalidateQueries(ratingKeys.mine);
+    void invalidateQueries(userKeys.summary);
+    void invalidateQueries(browseKeys.all);
+  }
+
+  /* Guarda mi calificación (desde la tarjeta o desde mi reseña); devuelve true si se guardó o quedó en cola */
+  async function saveRating(score: number, comment: string, containsSpoilers: boolean) {
+    if (!canRate || !user) {
       toast.info("Iniciá sesión para calificar");
-      return;
+      return false;
     }
-    if (myScore < 1 || myScore > 5) {
+    if (score < 1 || score > 5) {
       toast.error("La calificación debe estar entre 1 y 5");
-      return;
+      return false;
     }
     try {
-      await api.post("/ratings", { imdbId: id, qualification: myScore, comment: myComment });
-      toast.success("Calificación guardada");
+      const { queued } = await OfflineRatings.upsert(
+        user,
+        { imdbId: id, qualification: score, comment, containsSpoilers },
+        movie?.title ?? id,
+        myRating?.date ?? null
+      );
+      if (queued) toast.info("Sin conexión: tu calificación se guardará al reconectar");
+      else toast.success("Calificación guardada");
+      refreshRatings();
+      return true;
+    } catch (e) {
+      toastError(e, "No se pudo guardar tu calificación");
+      return false;
+    }
+  }
+
+  /* Borra mi calificación; el aviso ofrece deshacer (la vuelve a crear con el mismo puntaje y comentario) */
+  async function deleteRating() {
+    if (!user || !myRating) return;
+    const deleted = myRating;
+    try {
+      const { queued } = await OfflineRatings.remove(user.id, id, movie?.title ?? id, deleted.date);
+      setEditing(false);
+      refreshRatings();
+      toast.success(queued ? "Sin conexión: tu calificación se borrará al reconectar" : "Calificación borrada", {
+        action: { label: "Deshacer", onClick: () => void undoDelete(deleted) },
+      });
+    } catch (e) {
+      toastError(e, "No se pudo borrar tu calificación");
+    }
+  }
+
+  /* Deshace el borrado de mi calificación */
+  async function undoDelete(deleted: RatingDto) {
+    if (!user) return;
+    try {
+      const { queued } = await OfflineRatings.restore(user, [deleted]);
+      if (queued) toast.info("Sin conexión: tu calificación se restaurará al reconectar");
+      else toast.success("Calificación restaurada");
+      refreshRatings();
+    } catch (e) {
+      toastError(e, "No se pudo restaurar tu calificación");
+    }
+  }
+
+  /* Trae la página siguiente de reseñas y la agrega al final */
+  async function loadMoreReviews() {
+    if (!firstPage || !hasMoreReviews || loadingMore) return;
+    const base = firstPage;
+    const page = (extra?.page ?? base.page) + 1;
+    setLoadingMore(true);
+    try {
+      const data = await latest.run((signal) => RatingsApi.byMovie(id, reviewQuery, page, { signal }));
+      setMore({ base, items: [...(extra?.items ?? []), ...data.items], page: data.page, hasMore: data.hasMore });
+    } catch (e) {
+      if (isCanceled(e)) return;
+      toastError(e, "No se pudieron cargar más reseñas");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
 
-      const s = await api.get<SummaryDto>(`/ratings/movie/${id}/summary`).catch(() => null);
-      if (s?.data) setSummary(s.data);
+  /* Cambia el orden o un filtro de las reseñas (vuelve a la primera página) */
+  function changeReviewQuery(patch: Partial<RatingsQuery>) {
+    latest.cancel();
+    setLoadingMore(false);
+    setReviewQuery((q) => ({ ...q, ...patch }));
+  }
 
-      const rs = await api.get<Rating[]>(`/ratings/movie/${id}`).catch(() => null);
-      if (rs?.data) setRatings(rs.data);
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo guardar tu calificación");
+  /* Marca o desmarca como útil la reseña de otro usuario */
+  async function toggleHelpful(r: RatingDto) {
+    if (!user) {
+      toast.info("Iniciá sesión para marcar reseñas como útiles");
+      return;
     }
+    if (voting) return;
+    setVoting(r.id);
+    try {
+      const res = await RatingsApi.setHelpful(r.id, !r.helpfulByMe);
+      setHelpful((prev) => new Map(prev).set(res.ratingId, res));
+    } catch (e) {
+      toastError(e, "No se pudo registrar tu voto");
+    } finally {
+      setVoting(null);
+    }
+  }
+
+  /* Abre la edición de mi reseña en la lista */
+  function startEditing(r: RatingDto) {
+    setDraftScore(r.qualification);
+    setDraftComment(r.comment ?? "");
+    setDraftSpoilers(r.containsSpoilers);
+    setEditing(true);
+  }
+
+  /* Guarda la edición de mi reseña */
+  async function saveEdit() {
+    if (await saveRating(draftScore, draftComment, draftSpoilers)) setEditing(false);
   }
 
   if (loading) {
     return (
-      <div className="max-w-6xl mx-auto animate-pulse">
-        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+      <div className="max-w-6xl mx-auto">
+        {retry && (
+          <div className="mb-4 text-sm text-amber-700">
+            El servidor no respondió. Reintentando ({retry.attempt}/{retry.maxAttempts})…
+          </div>
+        )}
+        <div className="animate-pulse grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
           <div className="w-[220px] h-[320px] rounded bg-gray-200" />
           <div className="space-y-3">
             <div className="h-8 w-1/2 bg-gray-200 rounded" />
@@ -239,29 +396,42 @@ export default function MovieDetail() {
             </div>
           </div>
 
-          {(movie.director || movie.writer || movie.actors) && (
+          {(directors.length > 0 || writers.length > 0 || cast.length > 0) && (
             <div className="mt-3 text-sm">
-              {movie.director && (
+              {directors.length > 0 && (
                 <div>
                   <span className="text-gray-500">Director: </span>
-                  <span className="font-medium">{movie.director}</span>
+                  <PersonLinks names={directors} />
                 </div>
               )}
-              {movie.writer && (
+              {writers.length > 0 && (
                 <div className="mt-1">
                   <span className="text-gray-500">Guion: </span>
-                  <span className="font-medium">{movie.writer}</span>
+                  <PersonLinks names={writers} />
                 </div>
               )}
-              {movie.actors && (
+              {cast.length > 0 && (
                 <div className="mt-1">
                   <span className="text-gray-500">Elenco: </span>
-                  <span className="font-medium">{movie.actors}</span>
+                  <PersonLinks names={cast} />
                 </div>
               )}
             </div>
           )}
 
+          {summary && (
+            <Card className="mt-4">
+              <CardContent className="p-4">
+                <div className="mb-3 font-medium">Calificaciones</div>
+                <RatingSummary
+                  summary={summary}
+                  imdbRating={movie.imdbRating}
+                  myScore={myRating?.qualification ?? null}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <div className="mt-4">
             {user ? (
               inWatchlist ? (
@@ -286,24 +456,31 @@ export default function MovieDetail() {
             <CardContent className="p-4 space-y-3">
               <div className="font-medium">Mi calificación</div>
               <div className="flex items-center gap-3">
-                <StarPicker value={myScore} onChange={setMyScore} />
+                <StarPicker value={myScore} onChange={setMyScore} allowHalf clearable label="Mi calificación" />
                 <span className="text-sm text-gray-600">
-                  {myScore || "-"}/5
+                  {myScore ? formatScore(myScore) : "-"}/5
                 </span>
               </div>
               <div className="space-y-2">
                 <label className="text-sm">Comentario (opcional)</label>
-                <Textarea
+                <ReviewEditor
                   placeholder="¿Qué te pareció?"
-                  value={myComment}
-                  onChange={(e) => setMyComment(e.target.value)}
-                  rows={3}
+                  comment={myComment}
+                  onCommentChange={setMyComment}
+                  containsSpoilers={mySpoilers}
+                  onContainsSpoilersChange={setMySpoilers}
                 />
               </div>
-              <div>
-                <Button onClick={saveRating} disabled={!canRate}>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => void saveRating(myScore, myComment, mySpoilers)} disabled={!canRate}>
                   Guardar calificación
                 </Button>
+                {myRating && (
+                  <Button variant="outline" onClick={deleteRating}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Borrar mi calificación
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -323,62 +500,193 @@ export default function MovieDetail() {
             )}
           </div>
 
-          {reviews.length === 0 ? (
+          {/* Orden y filtros */}
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-48">
+              <div className="text-xs text-gray-500 mb-1">Ordenar por</div>
+              <Select value={reviewQuery.sort} onValueChange={(v) => changeReviewQuery({ sort: v as RatingSort })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REVIEW_SORTS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-40">
+              <div className="text-xs text-gray-500 mb-1">Estrellas</div>
+              <Select
+                value={reviewQuery.stars === null ? "all" : String(reviewQuery.stars)}
+                onValueChange={(v) => changeReviewQuery({ stars: v === "all" ? null : Number(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  {[5, 4, 3, 2, 1].map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {"★".repeat(n)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex h-9 items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={reviewQuery.withComment}
+                onChange={(e) => changeReviewQuery({ withComment: e.target.checked })}
+              />
+              Sólo con comentario
+            </label>
+            {firstPage && (
+              <span className="ml-auto text-xs text-gray-500">
+                {firstPage.total} reseña{firstPage.total === 1 ? "" : "s"}
+                {filtered ? " con estos filtros" : ""}
+              </span>
+            )}
+          </div>
+
+          {reviewsQ.loading && shownReviews.length === 0 ? (
+            <div className="text-sm text-gray-500">Cargando reseñas…</div>
+          ) : shownReviews.length === 0 ? (
             <div className="text-sm text-gray-500">
-              Aún no hay reseñas. ¡Sé el primero en calificar!
+              {filtered ? "Ninguna reseña coincide con los filtros." : "Aún no hay reseñas. ¡Sé el primero en calificar!"}
             </div>
           ) : (
             <div className="space-y-4">
-              {reviews.map((r) => (
-                <div key={r.id} className="flex gap-3">
-                  <Avatar className="h-9 w-9">
-                    <AvatarImage
-                      src={fileUrl(r.avatarUrl) ?? undefined}
-                      alt={r.username}
-                    />
-                    <AvatarFallback>
-                      {(r.fullname || r.username).slice(0, 1).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-
-                  <div className="flex-1">
-                    <div className="flex items-center justify-between">
-                      <div className="text-sm font-medium">
-                        {r.fullname || r.username}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {new Date(r.date).toLocaleDateString()}
+              {shownReviews.map((r) => {
+                const mine = isMine(r);
+                return (
+                  <div
+                    key={r.id}
+                    className={`flex gap-3 ${mine ? "-mx-2 rounded-md border border-amber-200 bg-amber-50 px-2 pt-2" : ""}`}
+                  >
+                    <Avatar className="h-9 w-9">
+                      <AvatarImage
+                        src={fileUrl(r.avatarUrl) ?? undefined}
+                        alt={r.username}
+                      />
+                      <AvatarFallback>
+                        {(r.fullname || r.username).slice(0, 1).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          {r.fullname || r.username}
+                          {mine && <Badge variant="secondary">Tu reseña</Badge>}
+                          {r.containsSpoilers && <Badge variant="outline">Spoilers</Badge>}
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          {new Date(r.date).toLocaleDateString()}
+                          {mine && !editing && (
+                            <button
+                              type="button"
+                              className="inline-flex items-center gap-1 hover:text-gray-900"
+                              onClick={() => startEditing(r)}
+                            >
+                              <Pencil className="h-3 w-3" />
+                              Editar
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="mt-1 flex items-center gap-1">
-                      {Array.from({ length: 5 }).map((_, i) => (
-                        <Star
-                          key={i}
-                          className={`h-4 w-4 ${
-                            i < r.qualification
-                              ? "text-yellow-500 fill-yellow-500"
-                              : "text-gray-300"
-                          }`}
-                        />
-                      ))}
-                      <span className="ml-2 text-xs text-gray-600">
-                        {r.qualification}/5
-                      </span>
+                      {mine && editing ? (
+                        <div className="mt-2 space-y-2">
+                          <div className="flex items-center gap-3">
+                            <StarPicker
+                              value={draftScore}
+                              onChange={setDraftScore}
+                              size={20}
+                              allowHalf
+                              label="Editar mi calificación"
+                            />
+                            <span className="text-sm text-gray-600">{draftScore ? formatScore(draftScore) : "-"}/5</span>
+                          </div>
+                          <ReviewEditor
+                            comment={draftComment}
+                            onCommentChange={setDraftComment}
+                            containsSpoilers={draftSpoilers}
+                            onContainsSpoilersChange={setDraftSpoilers}
+                          />
+                          <div className="flex flex-wrap gap-2">
+                            <Button size="sm" onClick={saveEdit}>
+                              Guardar
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                              Cancelar
+                            </Button>
+                            <Button size="sm" variant="ghost" className="text-red-600" onClick={deleteRating}>
+                              Borrar
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="mt-1 flex items-center gap-2">
+                            <StarPicker value={r.qualification} readOnly size={16} />
+                            <span className="text-xs text-gray-600">
+                              {formatScore(r.qualification)}/5
+                            </span>
+                          </div>
+
+                          {r.comment &&
+                            (r.containsSpoilers && !mine && !revealed.has(r.id) ? (
+                              <div className="mt-1 flex flex-wrap items-center gap-2 rounded-md bg-gray-100 px-3 py-2 text-sm text-gray-600">
+                                Esta reseña contiene spoilers.
+                                <button
+                                  type="button"
+                                  className="font-medium text-gray-900 underline underline-offset-2"
+                                  onClick={() => setRevealed((prev) => new Set(prev).add(r.id))}
+                                >
+                                  Mostrar reseña
+                                </button>
+                              </div>
+                            ) : (
+                              <Markdown source={r.comment} className="mt-1 text-sm text-gray-700" />
+                            ))}
+
+                          {mine ? (
+                            r.helpfulCount > 0 && (
+                              <div className="mt-2 text-xs text-gray-500">
+                                A {r.helpfulCount} persona{r.helpfulCount === 1 ? "" : "s"} le
+                                {r.helpfulCount === 1 ? "" : "s"} resultó útil
+                              </div>
+                            )
+                          ) : (
+                            <button
+                              type="button"
+                              aria-pressed={r.helpfulByMe}
+                              disabled={voting === r.id}
+                              onClick={() => void toggleHelpful(r)}
+                              className={`mt-2 inline-flex items-center gap-1 rounded-sm text-xs outline-none focus-visible:ring-2 focus-visible:ring-yellow-400 disabled:opacity-50 ${
+                                r.helpfulByMe ? "font-medium text-gray-900" : "text-gray-500 hover:text-gray-900"
+                              }`}
+                            >
+                              <ThumbsUp className={`h-3 w-3 ${r.helpfulByMe ? "fill-current" : ""}`} />
+                              Útil ({r.helpfulCount})
+                            </button>
+                          )}
+                        </>
+                      )}
+
+                      <Separator className="mt-3" />
                     </div>
-
-                    {r.comment && (
-                      <div className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">
-                        {r.comment}
-                      </div>
-                    )}
-
-                    <Separator className="mt-3" />
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
+
+          <LoadMore hasMore={hasMoreReviews} loading={loadingMore} onLoadMore={() => void loadMoreReviews()} />
         </CardContent>
       </Card>
     </div>
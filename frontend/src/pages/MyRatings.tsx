@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { toastError } from "@/lib/api-error";
+import { formatScore, ratingKeys } from "@/lib/ratings";
+import type { RatingDto } from "@/lib/ratings";
+import { markdownToText } from "@/lib/markdown";
+import { OfflineRatings } from "@/lib/offline";
+import { userKeys } from "@/lib/users";
+import { browseKeys } from "@/lib/browse";
+import { invalidateQueries, setQueryData, useQuery } from "@/lib/query";
+import { useAuth } from "@/context/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import StarPicker from "@/components/StarPicker";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+
+/** Órdenes de mis calificaciones */
+type RatingsSort = "newest" | "oldest" | "best" | "worst" | "title";
+
+const SORT_OPTIONS: { value: RatingsSort; label: string }[] = [
+  { value: "newest", label: "Más recientes" },
+  { value: "oldest", label: "Más antiguas" },
+  { value: "best", label: "Mayor calificación" },
+  { value: "worst", label: "Menor calificación" },
+  { value: "title", label: "Título (A-Z)" },
+];
+
+/* Géneros de una calificación ("Drama, Crime" → ["Drama", "Crime"]) */
+const genresOf = (r: RatingDto) =>
+  (r.genre ?? "")
+    .split(",")
+    .map((g) => g.trim())
+    .filter(Boolean);
+
+/* Día local de una fecha ISO como "yyyy-mm-dd" (el formato de <input type="date">) */
+function localDay(iso: string) {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/* Compara según el orden elegido (desempate por fecha más reciente) */
+function compareRatings(sort: RatingsSort) {
+  const byDate = (a: RatingDto, b: RatingDto) => b.date.localeCompare(a.date);
+  switch (sort) {
+    case "oldest":
+      return (a: RatingDto, b: RatingDto) => a.date.localeCompare(b.date);
+    case "best":
+      return (a: RatingDto, b: RatingDto) => b.qualification - a.qualification || byDate(a, b);
+    case "worst":
+      return (a: RatingDto, b: RatingDto) => a.qualification - b.qualification || byDate(a, b);
+    case "title":
+      return (a: RatingDto, b: RatingDto) => a.title.localeCompare(b.title) || byDate(a, b);
+    default:
+      return byDate;
+  }
+}
+
+/**
+ * Página con todas mis calificaciones.
+ * Se filtran por puntaje, género y rango de fechas y se ordenan en el cliente (GET /ratings/me trae todas).
+ * Se pueden borrar de a una o varias seleccionadas a la vez; el aviso ofrece deshacer.
+ * Comparte la caché (y el soporte offline) con MovieDetail.
+ */
+export default function MyRatings() {
+  const { user } = useAuth();
+  const mineQ = useQuery(ratingKeys.mine, (signal) => OfflineRatings.mine(user?.id ?? "", { signal }), {
+    enabled: !!user,
+  });
+  const ratings = useMemo(() => mineQ.data ?? [], [mineQ.data]);
+
+  // filtros y orden
+  const [score, setScore] = useState("all"); // "all" o "1".."5" (incluye la media estrella de arriba: "4" = 4 y 4,5)
+  const [genre, setGenre] = useState("all");
+  const [from, setFrom] = useState(""); // yyyy-mm-dd ("" = sin límite)
+  const [to, setTo] = useState("");
+  const [sort, setSort] = useState<RatingsSort>("newest");
+
+  // selección para borrar varias
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [confirmBulk, setConfirmBulk] = useState(false);
+
+  // géneros presentes en mis calificaciones
+  const genres = useMemo(
+    () => [...new Set(ratings.flatMap(genresOf))].sort((a, b) => a.localeCompare(b)),
+    [ratings]
+  );
+
+  const visible = useMemo(
+    () =>
+      ratings
+        .filter((r) => score === "all" || Math.floor(r.qualification) === Number(score))
+        .filter((r) => genre === "all" || genresOf(r).includes(genre))
+        .filter((r) => !from || localDay(r.date) >= from)
+        .filter((r) => !to || localDay(r.date) <= to)
+        .sort(compareRatings(sort)),
+    [ratings, score, genre, from, to, sort]
+  );
+  const hasFilters = score !== "all" || genre !== "all" || !!from || !!to;
+  const rangeError = !!from && !!to && from > to;
+
+  // la selección sólo conserva calificaciones que siguen existiendo
+  useEffect(() => {
+    setSelected((prev) => {
+      const ids = new Set(ratings.map((r) => r.imdbId));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [ratings]);
+
+  const allVisibleSelected = visible.length > 0 && visible.every((r) => selected.has(r.imdbId));
+
+  /* Marca o desmarca una calificación */
+  function toggle(imdbId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(imdbId)) next.delete(imdbId);
+      else next.add(imdbId);
+      return next;
+    });
+  }
+
+  /* Marca todas las visibles (o las desmarca si ya estaban todas) */
+  function toggleVisible() {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const r of visible) {
+        if (allVisibleSelected) next.delete(r.imdbId);
+        else next.add(r.imdbId);
+      }
+      return next;
+    });
+  }
+
+  function clearFilters() {
+    setScore("all");
+    setGenre("all");
+    setFrom("");
+    setTo("");
+  }
+
+  /* Recarga mis calificaciones, las reseñas de las películas, mi resumen y la exploración */
+  function refresh() {
+    void invalidateQueries(ratingKeys.all);
+    void invalidateQueries(userKeys.summary);
+    void invalidateQueries(browseKeys.all);
+  }
+
+  /* Borra calificaciones (quitándolas de la lista en el momento); el aviso ofrece deshacer */
+  async function remove(list: RatingDto[]) {
+    if (!user || list.length === 0) return;
+    const ids = new Set(list.map((r) => r.imdbId));
+    setQueryData<RatingDto[]>(ratingKeys.mine, (prev) => (prev ?? []).filter((r) => !ids.has(r.imdbId)));
+    try {
+      const { queued } = await OfflineRatings.removeMany(user.id, list);
+      const what = list.length === 1 ? "Calificación borrada" : `${list.length} calificaciones borradas`;
+      toast.success(queued ? `${what} (se sincronizará al reconectar)` : what, {
+        action: { label: "Deshacer", onClick: () => void restore(list) },
+      });
+    } catch (e) {
+      toastError(e, "No se pudieron borrar las calificaciones");
+    } finally {
+      refresh(); // también es el rollback si alguna falló
+    }
+  }
+
+  /* Deshace un borrado */
+  async function restore(list: RatingDto[]) {
+    if (!user) return;
+    try {
+      const { queued } = await OfflineRatings.restore(user, list);
+      if (queued) toast.info("Sin conexión: se restaurarán al reconectar");
+      else toast.success(list.length === 1 ? "Calificación restaurada" : "Calificaciones restauradas");
+    } catch (e) {
+      toastError(e, "No se pudieron restaurar las calificaciones");
+    } finally {
+      refresh();
+    }
+  }
+
+  /* Borra las seleccionadas (tras confirmar) */
+  async function removeSelected() {
+    setConfirmBulk(false);
+    const list = ratings.filter((r) => selected.has(r.imdbId));
+    setSelected(new Set());
+    await remove(list);
+  }
+
+  // error al cargar
+  useEffect(() => {
+    if (mineQ.error) toastError(mineQ.error, "No se pudieron cargar tus calificaciones");
+  }, [mineQ.error]);
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold">Mis calificaciones</h1>
+        <p className="text-sm text-gray-600">
+          {ratings.length} película{ratings.length === 1 ? "" : "s"} calificada{ratings.length === 1 ? "" : "s"}.
+        </p>
+      </div>
+
+      {/* Filtros y orden */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Calificación</div>
+          <Select value={score} onValueChange={setScore}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {[5, 4, 3, 2, 1].map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {"★".repeat(n)} ({n === 5 ? "5" : `${n} y ${formatScore(n + 0.5)}`})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Género</div>
+          <Select value={genre} onValueChange={setGenre}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos</SelectItem>
+              {genres.map((g) => (
+                <SelectItem key={g} value={g}>
+                  {g}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Desde</div>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-invalid={rangeError} />
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Hasta</div>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-invalid={rangeError} />
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Ordenar por</div>
+          <Select value={sort} onValueChange={(v) => setSort(v as RatingsSort)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {rangeError && <div className="mt-2 text-sm text-red-600">La fecha desde no puede ser posterior a la fecha hasta.</div>}
+
+      {/* Selección */}
+      {visible.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleVisible} />
+            Seleccionar {hasFilters ? "las visibles" : "todas"}
+          </label>
+          <div className="flex items-center gap-3">
+            {hasFilters && (
+              <button type="button" className="text-gray-600 underline" onClick={clearFilters}>
+                Quitar filtros
+              </button>
+            )}
+            <Button variant="destructive" size="sm" disabled={selected.size === 0} onClick={() => setConfirmBulk(true)}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Borrar seleccionadas ({selected.size})
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Lista */}
+      <div className="mt-4">
+        {mineQ.loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : ratings.length === 0 ? (
+          <div className="rounded border bg-white p-8 text-center">
+            <div className="text-lg font-medium mb-1">Todavía no calificaste películas</div>
+            <p className="text-sm text-gray-600">Buscá una película y calificala desde el detalle.</p>
+            <div className="mt-4">
+              <Link to="/">
+                <Button>Buscar películas</Button>
+              </Link>
+            </div>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center text-sm text-gray-500">
+            Ninguna calificación coincide con los filtros.{" "}
+            <button type="button" className="underline" onClick={clearFilters}>
+              Quitar filtros
+            </button>
+          </div>
+        ) : (
+          <ul className="divide-y rounded border bg-white">
+            {visible.map((r) => (
+              <li key={r.imdbId} className={`flex gap-3 p-3 ${selected.has(r.imdbId) ? "bg-amber-50" : ""}`}>
+                <input
+                  type="checkbox"
+                  className="mt-1 self-start"
+                  checked={selected.has(r.imdbId)}
+                  onChange={() => toggle(r.imdbId)}
+                  aria-label={`Seleccionar «${r.title}»`}
+                />
+                <Link to={`/movies/${r.imdbId}`} className="flex-none">
+                  {r.poster && r.poster !== "N/A" ? (
+                    <img src={r.poster} alt="" className="h-20 w-14 rounded object-cover" loading="lazy" />
+                  ) : (
+                    <div className="h-20 w-14 rounded bg-gray-100" />
+                  )}
+                </Link>
+
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <Link to={`/movies/${r.imdbId}`} className="font-medium hover:underline">
+                      {r.title}
+                    </Link>
+                    <span className="flex-none text-xs text-gray-500">{new Date(r.date).toLocaleDateString()}</span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-2">
+                    <StarPicker value={r.qualification} readOnly size={16} />
+                    <span className="text-xs text-gray-600">{formatScore(r.qualification)}/5</span>
+                    {r.containsSpoilers && <Badge variant="outline">Spoilers</Badge>}
+                  </div>
+                  {r.comment && (
+                    <div className="mt-1 text-sm text-gray-700 line-clamp-2">{markdownToText(r.comment)}</div>
+                  )}
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {genresOf(r).map((g) => (
+                      <Badge key={g} variant="outline">
+                        {g}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="self-start"
+                  onClick={() => void remove([r])}
+                  aria-label={`Borrar mi calificación de «${r.title}»`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Confirmación del borrado en lote */}
+      <AlertDialog open={confirmBulk} onOpenChange={setConfirmBulk}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Borrar calificaciones</AlertDialogTitle>
+            <AlertDialogDescription>
+              ¿Seguro que querés borrar {selected.size === 1 ? "la calificación seleccionada" : `las ${selected.size} calificaciones seleccionadas`}?
+              Vas a poder deshacerlo desde el aviso.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={removeSelected}>Borrar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
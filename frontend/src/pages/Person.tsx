@@ -0,0 +1,134 @@
+import { Link, useParams } from "react-router-dom";
+import { ApiError, errorMessage } from "@/lib/api-error";
+import { PeopleApi, ROLE_LABELS, peopleKeys, personPath } from "@/lib/people";
+import type { PersonCreditDto } from "@/lib/people";
+import type { PersonRole } from "@/lib/movies";
+import { useQuery } from "@/lib/query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Star } from "lucide-react";
+
+/* Orden de las secciones de la filmografía */
+const ROLES: PersonRole[] = ["director", "writer", "cast"];
+
+/* Tarjeta de una película de la filmografía */
+function CreditCard({ credit: c }: { credit: PersonCreditDto }) {
+  return (
+    <Card className="overflow-hidden hover:shadow-lg transition-shadow">
+      <Link to={`/movies/${c.imdbId}`}>
+        <CardHeader className="p-0">
+          {c.poster && c.poster !== "N/A" ? (
+            <img src={c.poster} alt={c.title} className="w-full h-56 object-cover" loading="lazy" />
+          ) : (
+            <div className="w-full h-56 flex items-center justify-center bg-gray-100 text-gray-400">Sin imagen</div>
+          )}
+        </CardHeader>
+        <CardContent className="p-3">
+          <div className="font-medium text-sm line-clamp-2">{c.title}</div>
+          <div className="text-xs text-gray-500 mt-1 flex items-center gap-2">
+            {c.year != null ? <span>{c.year}</span> : null}
+            {c.communityAverage != null && (
+              <span className="flex items-center gap-0.5" title={`${c.ratingsCount} calificaciones`}>
+                <Star className="h-3 w-3 text-yellow-500 fill-yellow-500" />
+                {c.communityAverage.toFixed(1)}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Link>
+    </Card>
+  );
+}
+
+/**
+ * Página de una persona (director, guionista o actor).
+ * Muestra su filmografía en el catálogo local separada por rol, el promedio de la comunidad
+ * sobre sus películas y los colaboradores con los que más trabajó.
+ */
+export default function Person() {
+  const { name = "" } = useParams<{ name: string }>(); // nombre (ya decodificado por el router)
+  const personQ = useQuery(peopleKeys.detail(name), (signal) => PeopleApi.get(name, { signal }), { enabled: !!name });
+
+  const person = personQ.data ?? null;
+
+  if (personQ.loading) return <div className="text-sm text-gray-500">Cargando…</div>;
+  if (!person) {
+    const notFound = ApiError.from(personQ.error).status === 404;
+    return (
+      <div className="text-center text-gray-500">
+        {notFound ? `«${name}» no figura en ninguna película del catálogo.` : errorMessage(personQ.error, "No se pudo cargar la persona.")}
+      </div>
+    );
+  }
+
+  const sections = ROLES.map((role) => ({ role, credits: person.credits.filter((c) => c.role === role) })).filter(
+    (s) => s.credits.length > 0
+  );
+  const titles = new Set(person.credits.map((c) => c.imdbId)).size;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <h1 className="text-3xl font-semibold">{person.name}</h1>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        {sections.map((s) => (
+          <Badge key={s.role} variant="outline">
+            {ROLE_LABELS[s.role]}
+          </Badge>
+        ))}
+        <span>
+          {titles} título{titles === 1 ? "" : "s"} en el catálogo
+        </span>
+        <span>·</span>
+        {person.averageRating != null ? (
+          <span className="flex items-center gap-1">
+            <Star className="h-4 w-4 text-yellow-500 fill-yellow-500" />
+            {person.averageRating.toFixed(1)} promedio de la comunidad ({person.ratingsCount} calificaci
+            {person.ratingsCount === 1 ? "ón" : "ones"})
+          </span>
+        ) : (
+          <span>Sin calificaciones de la comunidad</span>
+        )}
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-[1fr_240px] gap-8">
+        {/* Filmografía por rol */}
+        <div className="space-y-8">
+          {sections.map((s) => (
+            <section key={s.role}>
+              <h2 className="mb-3 text-lg font-semibold">
+                {ROLE_LABELS[s.role]} <span className="text-sm font-normal text-gray-500">({s.credits.length})</span>
+              </h2>
+              <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-6">
+                {s.credits.map((c) => (
+                  <CreditCard key={c.imdbId} credit={c} />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {/* Colaboradores frecuentes */}
+        <aside>
+          <h2 className="mb-3 text-lg font-semibold">Colaboradores frecuentes</h2>
+          {person.collaborators.length === 0 ? (
+            <div className="text-sm text-gray-500">No hay otras personas en sus películas.</div>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {person.collaborators.map((c) => (
+                <li key={c.name}>
+                  <Link to={personPath(c.name)} className="font-medium hover:underline">
+                    {c.name}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {c.sharedMovies} película{c.sharedMovies === 1 ? "" : "s"} en común ·{" "}
+                    {c.roles.map((r) => ROLE_LABELS[r]).join(", ")}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
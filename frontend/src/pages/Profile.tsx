@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/context/auth";
-import { api } from "@/lib/axios";
+import { toastError } from "@/lib/api-error";
+import { UsersApi, userKeys } from "@/lib/users";
+import { useQuery } from "@/lib/query";
 import { fileUrl } from "@/lib/utils";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,16 +12,12 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { Pencil, Plus, Star, User as UserIcon, Check, X } from "lucide-react";
 
-/* Tipo que representa el resumen del usuario */
-type Summary = { watchlistCount: number; ratingsCount: number };
-
 export default function Profile() {
   const { user, refreshMe } = useAuth(); // contexto de auth
 
-  const [summary, setSummary] = useState<Summary>({
-    watchlistCount: 0,
-    ratingsCount: 0,
-  }); // resumen de usuario
+  // resumen de usuario (se invalida al modificar la watchlist o mis calificaciones)
+  const summaryQ = useQuery(userKeys.summary, (signal) => UsersApi.summary({ signal }));
+  const summary = summaryQ.data ?? { watchlistCount: 0, ratingsCount: 0 };
 
   // nombre (precargado)
   const [fullname, setFullname] = useState(user?.fullname ?? "");
@@ -36,16 +35,8 @@ export default function Profile() {
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
-    // refrescar summary
-    (async () => {
-      try {
-        const { data } = await api.get<Summary>("/users/me/summary");
-        setSummary(data);
-      } catch {
-        toast.error("No se pudo cargar el resumen de usuario");
-      }
-    })();
-  }, []);
+    if (summaryQ.error) toastError(summaryQ.error, "No se pudo cargar el resumen de usuario");
+  }, [summaryQ.error]);
 
   // si cambia user (post refresh), actualizo estados dependientes
   useEffect(() => {
@@ -78,24 +69,20 @@ export default function Profile() {
 
       // 1) si hay archivo, subir avatar
       if (selectedFile) {
-        const fd = new FormData();
-        fd.append("file", selectedFile);
-        await api.post("/users/me/avatar", fd, {
-          headers: { "Content-Type": "multipart/form-data" },
-        });
+        await UsersApi.uploadAvatar(selectedFile);
       }
 
       // 2) si cambió el nombre, patch
       if (fullname.trim() !== originalFullname.trim()) {
-        await api.patch("/users/me", { fullname });
+        await UsersApi.updateMe(fullname);
       }
 
       // 3) refrescar contexto y UI
       await refreshMe();
       setBust(Date.now());
       toast.success("Perfil actualizado");
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo actualizar el perfil");
+    } catch (e) {
+      toastError(e, "No se pudo actualizar el perfil");
     } finally {
       setSaving(false);
       // limpiar selección local del archivo
@@ -243,7 +230,10 @@ export default function Profile() {
           <CardContent>
             <div className="text-4xl font-semibold">{summary.ratingsCount}</div>
             <div className="text-sm text-gray-500 mt-1">
-              Películas que valoraste
+              Películas que valoraste ·{" "}
+              <Link to="/ratings" className="underline">
+                ver todas
+              </Link>
             </div>
           </CardContent>
         </Card>
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { useAuth } from "@/context/auth";
+import { applyFormErrors } from "@/lib/api-error";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -55,12 +56,12 @@ export default function Register() {
 
   /* Maneja el envío del formulario */
   async function onSubmit(values: FormData) {
-    const ok = await signup(values.username, values.fullname, values.password);
-    if (ok) {
+    try {
+      await signup(values.username, values.fullname, values.password);
       toast.success("Cuenta creada");
       nav("/");
-    } else {
-      toast.error("No se pudo registrar");
+    } catch (e) {
+      applyFormErrors(form, e, "No se pudo registrar"); // ej. usuario existente o campos rechazados por el servidor
     }
   }
 
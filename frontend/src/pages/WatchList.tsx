@@ -1,6 +1,11 @@
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
-import { api } from "@/lib/axios";
+import { toastError } from "@/lib/api-error";
+import { watchlistKeys } from "@/lib/watchlist";
+import type { WatchlistItemDto } from "@/lib/watchlist";
+import { OfflineWatchlist } from "@/lib/offline";
+import { userKeys } from "@/lib/users";
+import { invalidateQueries, setQueryData, useQuery } from "@/lib/query";
 import { useAuth } from "@/context/auth";
 import {
   Card,
@@ -29,14 +34,6 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { ChevronUp, ChevronDown, Trash2 } from "lucide-react";
 
-/* Tipo que representa un ítem en la watchlist */
-type Item = {
-  imdbId: string;
-  title: string;
-  poster?: string | null;
-  position: number;
-};
-
 /**
  * Página de la watchlist del usuario.
  * Muestra las películas agregadas a la lista.
@@ -45,40 +42,43 @@ type Item = {
  */
 export default function Watchlist() {
   const { user } = useAuth(); // contexto de auth
-  const [items, setItems] = useState<Item[]>([]); // ítems en la watchlist
-  const [loading, setLoading] = useState(true); // estado de carga
   const [pendingRemove, setPendingRemove] = useState<string | null>(null); // ítem a quitar
 
-  /* Carga la watchlist desde el servidor */
-  async function load() {
-    try {
-      setLoading(true);
-      const { data } = await api.get<Item[]>("/watchlist");
-      setItems([...data].sort((a, b) => a.position - b.position));
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo cargar tu lista");
-    } finally {
-      setLoading(false);
-    }
-  }
+  // watchlist compartida en caché con MovieDetail y Profile (disponible sin conexión)
+  const listQ = useQuery(watchlistKeys.all, (signal) => OfflineWatchlist.list(user?.id ?? "", { signal }), {
+    enabled: !!user,
+  });
+  const items = listQ.data ?? []; // ítems en la watchlist
+  const loading = listQ.loading; // estado de carga
+
+  /* Actualización optimista de la lista en caché */
+  const setItems = (updater: (prev: WatchlistItemDto[]) => WatchlistItemDto[]) =>
+    setQueryData<WatchlistItemDto[]>(watchlistKeys.all, (prev) => updater(prev ?? []));
+
+  /* Recarga la lista desde el servidor (rollback tras un error) */
+  const load = () => invalidateQueries(watchlistKeys.all);
 
-  /* Carga la lista al montar o cambiar usuario */
+  /* Error al cargar la lista */
   useEffect(() => {
-    if (user) void load();
-  }, [user]);
+    if (listQ.error) toastError(listQ.error, "No se pudo cargar tu lista");
+  }, [listQ.error]);
 
   /* Quita una película de la watchlist */
   async function remove(id: string) {
+    if (!user) return;
+    const title = items.find((i) => i.imdbId === id)?.title ?? id;
     try {
       setItems((prev) =>
         prev
           .filter((i) => i.imdbId !== id)
           .map((i, idx) => ({ ...i, position: idx + 1 }))
       );
-      await api.delete(`/watchlist/${id}`);
-      toast.success("Quitada de tu lista");
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo quitar");
+      const { queued } = await OfflineWatchlist.remove(user.id, id, title);
+      if (queued) toast.info("Sin conexión: se quitará de tu lista al reconectar");
+      else toast.success("Quitada de tu lista");
+      void invalidateQueries(userKeys.summary);
+    } catch (e) {
+      toastError(e, "No se pudo quitar");
       void load();
     } finally {
       setPendingRemove(null);
@@ -87,6 +87,7 @@ export default function Watchlist() {
 
   /* Mueve una película hacia arriba o abajo en la watchlist */
   async function move(id: string, dir: "up" | "down") {
+    if (!user) return;
     const idx = items.findIndex((i) => i.imdbId === id);
     if (idx === -1) return;
 
@@ -99,15 +100,12 @@ export default function Watchlist() {
       { ...b, position: a.position },
       { ...a, position: b.position },
     ];
-    setItems(swapped);
+    setItems(() => swapped);
 
     try {
-      await api.patch("/watchlist/reorder", {
-        imdbId: a.imdbId,
-        newPosition: targetIdx + 1,
-      });
-    } catch (e: any) {
-      toast.error(e?.response?.data?.error ?? "No se pudo reordenar");
+      await OfflineWatchlist.reorder(user.id, a.imdbId, a.title, targetIdx + 1); // sin conexión queda en cola
+    } catch (e) {
+      toastError(e, "No se pudo reordenar");
       void load(); // rollback
     }
   }